@@ -19,6 +19,14 @@ import rehearsalRoutes from './routes/rehearsal.routes';
 import availabilityRoutes from './routes/availability.routes';
 import materialRoutes from './routes/material.routes';
 import notificationRoutes from './routes/notification.routes';
+import calendarRoutes from './routes/calendar.routes';
+import songRoutes from './routes/song.routes';
+import setlistRoutes from './routes/setlist.routes';
+import inviteRoutes from './routes/invite.routes';
+import reportRoutes from './routes/report.routes';
+import venueRoutes from './routes/venue.routes';
+import chatRoutes from './routes/chat.routes';
+import pollRoutes from './routes/poll.routes';
 
 const app = express();
 
@@ -78,6 +86,14 @@ app.use('/api/rehearsals', rehearsalRoutes);
 app.use('/api/availability', availabilityRoutes);
 app.use('/api/materials', materialRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/songs', songRoutes);
+app.use('/api/setlists', setlistRoutes);
+app.use('/api/invites', inviteRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/venues', venueRoutes);
+app.use('/api/chat', chatRoutes);
+app.use('/api/polls', pollRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import { HttpError, unauthorized } from '../utils/errors';
 
 declare global {
   namespace Express {
@@ -11,12 +12,70 @@ declare global {
         name: string;
         role: string;
       };
+      // Session the access token belongs to
+      sessionId?: string;
     }
   }
 }
 
 const prisma = new PrismaClient();
 
+export interface AccessTokenIdentity {
+  user: NonNullable<Request['user']>;
+  sessionId: string;
+  expiresAt: Date | null; // When the access token stops being accepted
+}
+
+/**
+ * Check an access token and the session it belongs to. Throws a 401
+ * HttpError saying why it was refused. Shared by authenticate and the
+ * realtime socket, where browsers can't send an Authorization header.
+ */
+export const verifyAccessToken = async (token: string): Promise<AccessTokenIdentity> => {
+  let decoded: any;
+
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET || 'default_secret');
+  } catch (error) {
+    throw unauthorized('Invalid token');
+  }
+
+  // Tokens issued before sessions existed can't be revoked, so they're refused
+  if (!decoded.sid) {
+    throw unauthorized('Invalid token');
+  }
+
+  // Find the session and its user
+  const session = await prisma.session.findUnique({
+    where: { id: decoded.sid },
+    select: {
+      revokedAt: true,
+      user: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+        },
+      },
+    },
+  });
+
+  if (!session || session.user.id !== decoded.id) {
+    throw unauthorized('Session not found');
+  }
+
+  if (session.revokedAt) {
+    throw unauthorized('Session has been revoked');
+  }
+
+  return {
+    user: session.user,
+    sessionId: decoded.sid,
+    expiresAt: decoded.exp ? new Date(decoded.exp * 1000) : null,
+  };
+};
+
 export const authenticate = async (
   req: Request,
   res: Response,
@@ -35,36 +94,16 @@ export const authenticate = async (
     }
 
     const token = authHeader.replace('Bearer ', '');
-
-    // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'default_secret') as any;
-
-    // Find user
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.id },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-      },
-    });
-
-    if (!user) {
-      return res.status(401).json({
-        success: false,
-        message: 'User not found',
-        error: 'Unauthorized',
-      });
-    }
+    const { user, sessionId } = await verifyAccessToken(token);
 
     // Add user to request
     req.user = user;
+    req.sessionId = sessionId;
     next();
   } catch (error) {
     return res.status(401).json({
       success: false,
-      message: 'Invalid token',
+      message: error instanceof HttpError ? error.message : 'Invalid token',
       error: 'Unauthorized',
     });
   }
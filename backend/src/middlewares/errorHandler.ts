@@ -30,6 +30,15 @@ export const errorHandler = (
       });
     }
 
+    // Serializable transaction lost to a concurrent one
+    if (err.code === 'P2034') {
+      return res.status(409).json({
+        success: false,
+        message: 'The record was changed by another request, please try again',
+        error: 'Conflict',
+      });
+    }
+
     if (err.code === 'P2025') {
       return res.status(404).json({
         success: false,
@@ -56,6 +65,15 @@ export const errorHandler = (
     });
   }
 
+  // Handle upload errors (file too large, unexpected field, ...)
+  if (err.name === 'MulterError') {
+    return res.status(400).json({
+      success: false,
+      message: err.message,
+      error: 'Bad Request',
+    });
+  }
+
   // Handle custom application errors
   if (err.statusCode) {
     return res.status(err.statusCode).json({
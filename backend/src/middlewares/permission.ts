@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { notFound } from '../utils/errors';
+import { BandAccess, Capability, requireBandAccess } from '../services/permission.service';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireBandPermission
+      bandAccess?: BandAccess;
+    }
+  }
+}
+
+const prisma = new PrismaClient();
+
+/**
+ * Finds the band a request is about, from the request itself or from the
+ * resource it addresses. Throws a 404 if that resource doesn't exist.
+ */
+export type BandResolver = (req: Request) => string | Promise<string>;
+
+export const bandFromParam =
+  (name = 'id'): BandResolver =>
+  (req) =>
+    req.params[name];
+
+export const bandFromBody =
+  (name = 'bandId'): BandResolver =>
+  (req) =>
+    req.body[name];
+
+export const bandFromQuery =
+  (name = 'bandId'): BandResolver =>
+  (req) =>
+    req.query[name] as string;
+
+export const bandOfRehearsal =
+  (name = 'id'): BandResolver =>
+  async (req) => {
+    const rehearsal = await prisma.rehearsal.findUnique({
+      where: { id: req.params[name] },
+      select: { bandId: true },
+    });
+
+    if (!rehearsal) {
+      throw notFound('Rehearsal not found');
+    }
+
+    return rehearsal.bandId;
+  };
+
+export const bandOfSong =
+  (name = 'id'): BandResolver =>
+  async (req) => {
+    const song = await prisma.song.findUnique({
+      where: { id: req.params[name] },
+      select: { bandId: true },
+    });
+
+    if (!song) {
+      throw notFound('Song not found');
+    }
+
+    return song.bandId;
+  };
+
+export const bandOfSetlist =
+  (name = 'id'): BandResolver =>
+  async (req) => {
+    const setlist = await prisma.setlist.findUnique({
+      where: { id: req.params[name] },
+      select: { bandId: true },
+    });
+
+    if (!setlist) {
+      throw notFound('Setlist not found');
+    }
+
+    return setlist.bandId;
+  };
+
+export const bandOfMaterial =
+  (name = 'id'): BandResolver =>
+  async (req) => {
+    const material = await prisma.rehearsalMaterial.findUnique({
+      where: { id: req.params[name] },
+      select: { rehearsal: { select: { bandId: true } } },
+    });
+
+    if (!material) {
+      throw notFound('Material not found');
+    }
+
+    return material.rehearsal.bandId;
+  };
+
+// The band that registered the venue, which manages it
+export const bandOfVenue =
+  (name = 'id'): BandResolver =>
+  async (req) => {
+    const venue = await prisma.venue.findUnique({
+      where: { id: req.params[name] },
+      select: { bandId: true },
+    });
+
+    if (!venue) {
+      throw notFound('Venue not found');
+    }
+
+    return venue.bandId;
+  };
+
+export const bandOfChannel =
+  (name = 'id'): BandResolver =>
+  async (req) => {
+    const channel = await prisma.chatChannel.findUnique({
+      where: { id: req.params[name] },
+      select: { bandId: true },
+    });
+
+    if (!channel) {
+      throw notFound('Channel not found');
+    }
+
+    return channel.bandId;
+  };
+
+export const bandOfMessage =
+  (name = 'id'): BandResolver =>
+  async (req) => {
+    const message = await prisma.chatMessage.findUnique({
+      where: { id: req.params[name] },
+      select: { channel: { select: { bandId: true } } },
+    });
+
+    if (!message) {
+      throw notFound('Message not found');
+    }
+
+    return message.channel.bandId;
+  };
+
+export const bandOfPoll =
+  (name = 'id'): BandResolver =>
+  async (req) => {
+    const poll = await prisma.poll.findUnique({
+      where: { id: req.params[name] },
+      select: { bandId: true },
+    });
+
+    if (!poll) {
+      throw notFound('Poll not found');
+    }
+
+    return poll.bandId;
+  };
+
+/**
+ * Only let active members of the band through, and with `capability` only
+ * those whose role grants it. Runs after authenticate and the request's
+ * validators; the member's access is left on `req.bandAccess`.
+ */
+export const requireBandPermission = (resolveBand: BandResolver, capability?: Capability) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const bandId = await resolveBand(req);
+
+      req.bandAccess = await requireBandAccess(bandId, req.user!.id, capability);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,29 @@
+import fs from 'fs/promises';
+import os from 'os';
+import { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+
+/**
+ * Accept one multipart file in `field`, buffered to a temp file rather than
+ * memory. The temp file is removed once the response has been sent, so
+ * handlers only need to move it somewhere if they want to keep it.
+ */
+export const singleFileUpload = (field: string, maxBytes: number) => {
+  const upload = multer({
+    dest: os.tmpdir(),
+    limits: { fileSize: maxBytes, files: 1 },
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error?: unknown) => {
+      if (req.file) {
+        const tempPath = req.file.path;
+        res.once('close', () => {
+          fs.unlink(tempPath).catch(() => undefined);
+        });
+      }
+
+      next(error);
+    });
+  };
+};
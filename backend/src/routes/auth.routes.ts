@@ -1,18 +1,42 @@
-import express from 'express';
-import { body } from 'express-validator';
+import express, { Request } from 'express';
+import { body, param } from 'express-validator';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
 import { validate } from '../middlewares/validate';
+import { logger } from '../utils/logger';
+import {
+  requestPasswordReset,
+  resetPassword,
+  sendVerificationEmail,
+  verifyEmail,
+} from '../services/account.service';
+import {
+  ClientInfo,
+  createSession,
+  listActiveSessions,
+  refreshSession,
+  revokeAllSessions,
+  revokeSession,
+} from '../services/session.service';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
+const clientInfo = (req: Request): ClientInfo => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
 /**
  * @swagger
  * /api/auth/register:
  *   post:
  *     summary: Register a new user
+ *     description: >
+ *       Returns a short-lived access token (token, expiresIn seconds) and a
+ *       refresh token for POST /api/auth/refresh-token, and emails a link to
+ *       verify the address.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -86,25 +110,25 @@ router.post(
           name: true,
           email: true,
           role: true,
+          emailVerifiedAt: true,
           createdAt: true,
         },
       });
 
-      // Create and sign JWT
-      const token = jwt.sign(
-        { id: user.id },
-        process.env.JWT_SECRET || 'default_secret',
-        {
-          expiresIn: '7d',
-        }
+      // A mail outage shouldn't block sign-up; the user can request a new link
+      sendVerificationEmail(user).catch((error) =>
+        logger.error(`Failed to send verification email to ${user.email}: ${error.message}`)
       );
 
+      // Start a session with an access and a refresh token
+      const tokens = await createSession(user.id, clientInfo(req));
+
       res.status(201).json({
         success: true,
         message: 'User registered successfully',
         data: {
           user,
-          token,
+          ...tokens,
         },
       });
     } catch (error) {
@@ -118,6 +142,9 @@ router.post(
  * /api/auth/login:
  *   post:
  *     summary: Login to the application
+ *     description: >
+ *       Starts a new session and returns a short-lived access token (token,
+ *       expiresIn seconds) and a refresh token.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -178,14 +205,8 @@ router.post(
         });
       }
 
-      // Create and sign JWT
-      const token = jwt.sign(
-        { id: user.id },
-        process.env.JWT_SECRET || 'default_secret',
-        {
-          expiresIn: '7d',
-        }
-      );
+      // Start a session with an access and a refresh token
+      const tokens = await createSession(user.id, clientInfo(req));
 
       // Update last login time
       await prisma.user.update({
@@ -203,8 +224,9 @@ router.post(
             email: user.email,
             role: user.role,
             profileImageUrl: user.profileImageUrl,
+            emailVerifiedAt: user.emailVerifiedAt,
           },
-          token,
+          ...tokens,
         },
       });
     } catch (error) {
@@ -213,4 +235,369 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/auth/refresh-token:
+ *   post:
+ *     summary: Exchange a refresh token for new tokens
+ *     description: >
+ *       Refresh tokens are single-use; the response contains the next one.
+ *       Presenting a refresh token that was already used revokes the session.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New access and refresh token
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Invalid, expired, reused or revoked refresh token
+ */
+router.post(
+  '/refresh-token',
+  [body('refreshToken').isString().notEmpty().withMessage('Refresh token is required'), validate],
+  async (req, res, next) => {
+    try {
+      const tokens = await refreshSession(req.body.refreshToken, clientInfo(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Token refreshed successfully',
+        data: tokens,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out of the current session
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Not authenticated
+ */
+router.post('/logout', authenticate, async (req, res, next) => {
+  try {
+    await revokeSession(req.sessionId!, req.user!.id, 'LOGOUT');
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/logout-all:
+ *   post:
+ *     summary: Log out of all devices
+ *     description: Revokes every session of the current user, including this one.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of sessions revoked
+ *       401:
+ *         description: Not authenticated
+ */
+router.post('/logout-all', authenticate, async (req, res, next) => {
+  try {
+    const count = await revokeAllSessions(req.user!.id, 'LOGOUT_ALL');
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out of all devices',
+      data: { count },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Verify an email address with the token from the verification email
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       400:
+ *         description: Invalid, expired or already used token
+ */
+router.post(
+  '/verify-email',
+  [body('token').isString().notEmpty().withMessage('Token is required'), validate],
+  async (req, res, next) => {
+    try {
+      const user = await verifyEmail(req.body.token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Email verified successfully',
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Send a new email verification link
+ *     description: Links sent earlier stop working.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       400:
+ *         description: Email already verified
+ *       401:
+ *         description: Not authenticated
+ */
+router.post('/resend-verification', authenticate, async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.id },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        emailVerifiedAt: true,
+      },
+    });
+
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is already verified',
+        error: 'Bad Request',
+      });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.status(200).json({
+      success: true,
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Email a password reset link
+ *     description: >
+ *       Responds the same whether or not the email belongs to an account.
+ *       The link is valid for one hour and can be used once.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *       400:
+ *         description: Validation error
+ */
+router.post(
+  '/forgot-password',
+  [body('email').isEmail().withMessage('Valid email is required'), validate],
+  async (req, res, next) => {
+    try {
+      await requestPasswordReset(req.body.email);
+
+      res.status(200).json({
+        success: true,
+        message: 'If an account exists for this email, a reset link has been sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Choose a new password with the token from the reset email
+ *     description: Logs out all of the user's sessions.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *       400:
+ *         description: Validation error or invalid, expired or already used token
+ */
+router.post(
+  '/reset-password',
+  [
+    body('token').isString().notEmpty().withMessage('Token is required'),
+    body('password')
+      .isLength({ min: 8 })
+      .withMessage('Password must be at least 8 characters long'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      await resetPassword(req.body.token, req.body.password);
+
+      res.status(200).json({
+        success: true,
+        message: 'Password reset successfully; please log in with your new password',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List the current user's active sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first, with the current one flagged
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/sessions', authenticate, async (req, res, next) => {
+  try {
+    const sessions = await listActiveSessions(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: sessions.map((session) => ({
+        ...session,
+        current: session.id === req.sessionId,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke one of the current user's sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Session not found
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid session ID'), validate],
+  async (req, res, next) => {
+    try {
+      const revoked = await revokeSession(req.params.id, req.user!.id);
+
+      if (!revoked) {
+        return res.status(404).json({
+          success: false,
+          message: 'Session not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,690 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
+import { bandFromParam, requireBandPermission } from '../middlewares/permission';
+import { validate } from '../middlewares/validate';
+import { buildAvailabilityHeatmap } from '../services/availability.service';
+import { isTimeOfDay, isValidTimeZone, parseTimeOfDay } from '../utils/time';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /api/availability/me:
+ *   get:
+ *     summary: Get the current user's availability
+ *     description: Returns the user's timezone, weekly windows and blackout dates.
+ *     tags: [Availability]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return blackouts ending after this time
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return blackouts starting before this time
+ *     responses:
+ *       200:
+ *         description: Availability of the current user
+ *       401:
+ *         description: Not authenticated
+ */
+router.get(
+  '/me',
+  authenticate,
+  [
+    query('start').optional().isISO8601().withMessage('Invalid start date'),
+    query('end').optional().isISO8601().withMessage('Invalid end date'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const { start, end } = req.query;
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: {
+          timezone: true,
+          availabilityWindows: {
+            orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+          },
+          availabilityBlackouts: {
+            where: {
+              ...(start && { endDatetime: { gt: new Date(start as string) } }),
+              ...(end && { startDatetime: { lt: new Date(end as string) } }),
+            },
+            orderBy: { startDatetime: 'asc' },
+          },
+        },
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          timezone: user!.timezone,
+          windows: user!.availabilityWindows,
+          blackouts: user!.availabilityBlackouts,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/availability/me/timezone:
+ *   put:
+ *     summary: Set the timezone weekly windows are expressed in
+ *     tags: [Availability]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - timezone
+ *             properties:
+ *               timezone:
+ *                 type: string
+ *                 example: Europe/Berlin
+ *     responses:
+ *       200:
+ *         description: Timezone updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ */
+router.put(
+  '/me/timezone',
+  authenticate,
+  [
+    body('timezone')
+      .isString()
+      .custom((value: string) => isValidTimeZone(value))
+      .withMessage('Timezone must be a valid IANA timezone'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const { timezone } = req.body;
+
+      const user = await prisma.user.update({
+        where: { id: req.user!.id },
+        data: { timezone },
+        select: {
+          id: true,
+          timezone: true,
+        },
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Timezone updated successfully',
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const windowValidators = [
+  body('dayOfWeek').isInt({ min: 0, max: 6 }).toInt().withMessage('dayOfWeek must be 0-6'),
+  body('startTime')
+    .custom((value: string) => isTimeOfDay(value))
+    .withMessage('startTime must be in HH:mm format'),
+  body('endTime')
+    .custom((value: string) => isTimeOfDay(value))
+    .withMessage('endTime must be in HH:mm format'),
+];
+
+/**
+ * @swagger
+ * /api/availability/windows:
+ *   post:
+ *     summary: Add a weekly recurring availability window
+ *     description: Times are wall-clock times in the user's timezone.
+ *     tags: [Availability]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - dayOfWeek
+ *               - startTime
+ *               - endTime
+ *             properties:
+ *               dayOfWeek:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 6
+ *                 description: 0 = Sunday
+ *               startTime:
+ *                 type: string
+ *                 example: "18:00"
+ *               endTime:
+ *                 type: string
+ *                 example: "23:00"
+ *     responses:
+ *       201:
+ *         description: Window created successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ */
+router.post(
+  '/windows',
+  authenticate,
+  [...windowValidators, validate],
+  async (req, res, next) => {
+    try {
+      const { dayOfWeek, startTime, endTime } = req.body;
+
+      if (parseTimeOfDay(startTime) >= parseTimeOfDay(endTime)) {
+        return res.status(400).json({
+          success: false,
+          message: 'End time must be after start time',
+          error: 'Bad Request',
+        });
+      }
+
+      const window = await prisma.availabilityWindow.create({
+        data: {
+          userId: req.user!.id,
+          dayOfWeek,
+          startTime,
+          endTime,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Availability window created successfully',
+        data: window,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/availability/windows/{id}:
+ *   put:
+ *     summary: Update a weekly availability window
+ *     tags: [Availability]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - dayOfWeek
+ *               - startTime
+ *               - endTime
+ *             properties:
+ *               dayOfWeek:
+ *                 type: integer
+ *               startTime:
+ *                 type: string
+ *               endTime:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Window updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Window not found
+ */
+router.put(
+  '/windows/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid window ID'), ...windowValidators, validate],
+  async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const { dayOfWeek, startTime, endTime } = req.body;
+
+      const existing = await prisma.availabilityWindow.findFirst({
+        where: { id, userId: req.user!.id },
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: 'Availability window not found',
+          error: 'Not Found',
+        });
+      }
+
+      if (parseTimeOfDay(startTime) >= parseTimeOfDay(endTime)) {
+        return res.status(400).json({
+          success: false,
+          message: 'End time must be after start time',
+          error: 'Bad Request',
+        });
+      }
+
+      const window = await prisma.availabilityWindow.update({
+        where: { id },
+        data: { dayOfWeek, startTime, endTime },
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Availability window updated successfully',
+        data: window,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/availability/windows/{id}:
+ *   delete:
+ *     summary: Delete a weekly availability window
+ *     tags: [Availability]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Window deleted successfully
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Window not found
+ */
+router.delete(
+  '/windows/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid window ID'), validate],
+  async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      const { count } = await prisma.availabilityWindow.deleteMany({
+        where: { id, userId: req.user!.id },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Availability window not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Availability window deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const blackoutValidators = [
+  body('startDatetime').isISO8601().toDate().withMessage('Valid start date/time is required'),
+  body('endDatetime').isISO8601().toDate().withMessage('Valid end date/time is required'),
+  body('reason').optional().isString().withMessage('Reason must be a string'),
+];
+
+/**
+ * @swagger
+ * /api/availability/blackouts:
+ *   post:
+ *     summary: Add a one-off blackout period
+ *     description: Marks the user as unavailable, e.g. for a tour, a shift or a holiday.
+ *     tags: [Availability]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDatetime
+ *               - endDatetime
+ *             properties:
+ *               startDatetime:
+ *                 type: string
+ *                 format: date-time
+ *               endDatetime:
+ *                 type: string
+ *                 format: date-time
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Blackout created successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ */
+router.post(
+  '/blackouts',
+  authenticate,
+  [...blackoutValidators, validate],
+  async (req, res, next) => {
+    try {
+      const { startDatetime, endDatetime, reason } = req.body;
+
+      if (new Date(startDatetime) >= new Date(endDatetime)) {
+        return res.status(400).json({
+          success: false,
+          message: 'End time must be after start time',
+          error: 'Bad Request',
+        });
+      }
+
+      const blackout = await prisma.availabilityBlackout.create({
+        data: {
+          userId: req.user!.id,
+          startDatetime: new Date(startDatetime),
+          endDatetime: new Date(endDatetime),
+          reason,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Blackout created successfully',
+        data: blackout,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/availability/blackouts/{id}:
+ *   put:
+ *     summary: Update a blackout period
+ *     tags: [Availability]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDatetime
+ *               - endDatetime
+ *             properties:
+ *               startDatetime:
+ *                 type: string
+ *                 format: date-time
+ *               endDatetime:
+ *                 type: string
+ *                 format: date-time
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Blackout updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Blackout not found
+ */
+router.put(
+  '/blackouts/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid blackout ID'), ...blackoutValidators, validate],
+  async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const { startDatetime, endDatetime, reason } = req.body;
+
+      const existing = await prisma.availabilityBlackout.findFirst({
+        where: { id, userId: req.user!.id },
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: 'Blackout not found',
+          error: 'Not Found',
+        });
+      }
+
+      if (new Date(startDatetime) >= new Date(endDatetime)) {
+        return res.status(400).json({
+          success: false,
+          message: 'End time must be after start time',
+          error: 'Bad Request',
+        });
+      }
+
+      const blackout = await prisma.availabilityBlackout.update({
+        where: { id },
+        data: {
+          startDatetime: new Date(startDatetime),
+          endDatetime: new Date(endDatetime),
+          reason,
+        },
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Blackout updated successfully',
+        data: blackout,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/availability/blackouts/{id}:
+ *   delete:
+ *     summary: Delete a blackout period
+ *     tags: [Availability]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Blackout deleted successfully
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Blackout not found
+ */
+router.delete(
+  '/blackouts/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid blackout ID'), validate],
+  async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      const { count } = await prisma.availabilityBlackout.deleteMany({
+        where: { id, userId: req.user!.id },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Blackout not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Blackout deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/availability/bands/{bandId}/heatmap:
+ *   get:
+ *     summary: Get a "who is free when" heatmap for a band
+ *     description: >
+ *       Splits the range into fixed-size slots and counts, per slot, the
+ *       members who are available, unknown (no weekly windows declared) or
+ *       unavailable (outside their windows, blacked out or already rehearsing).
+ *     tags: [Availability]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: end
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: slotMinutes
+ *         schema:
+ *           type: integer
+ *           enum: [15, 30, 60, 120]
+ *           default: 60
+ *     responses:
+ *       200:
+ *         description: Heatmap slots and band members
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of this band
+ */
+router.get(
+  '/bands/:bandId/heatmap',
+  authenticate,
+  [
+    param('bandId').isUUID().withMessage('Invalid band ID'),
+    query('start').isISO8601().withMessage('Valid start date is required'),
+    query('end').isISO8601().withMessage('Valid end date is required'),
+    query('slotMinutes')
+      .optional()
+      .isIn(['15', '30', '60', '120'])
+      .withMessage('slotMinutes must be one of: 15, 30, 60, 120'),
+    validate,
+  ],
+  requireBandPermission(bandFromParam('bandId')),
+  async (req, res, next) => {
+    try {
+      const { bandId } = req.params;
+      const { start, end, slotMinutes = '60' } = req.query;
+
+      const rangeStart = new Date(start as string);
+      const rangeEnd = new Date(end as string);
+
+      if (rangeStart >= rangeEnd) {
+        return res.status(400).json({
+          success: false,
+          message: 'End of range must be after start of range',
+          error: 'Bad Request',
+        });
+      }
+
+      if (rangeEnd.getTime() - rangeStart.getTime() > 31 * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({
+          success: false,
+          message: 'Heatmap range cannot exceed 31 days',
+          error: 'Bad Request',
+        });
+      }
+
+      const heatmap = await buildAvailabilityHeatmap(
+        bandId,
+        rangeStart,
+        rangeEnd,
+        Number(slotMinutes)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: heatmap,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
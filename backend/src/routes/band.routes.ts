@@ -2,7 +2,27 @@ import express from 'express';
 import { body, param } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticate } from '../middlewares/auth';
+import { bandFromParam, requireBandPermission } from '../middlewares/permission';
 import { validate } from '../middlewares/validate';
+import { deleteBand } from '../services/band.service';
+import {
+  MAX_INVITE_TTL_DAYS,
+  createInvite,
+  listOpenInvites,
+  revokeInvite,
+} from '../services/invite.service';
+import { changeMemberRole, removeMember } from '../services/membership.service';
+import { notifyUsers } from '../services/notification.service';
+import {
+  CAPABILITIES,
+  CAPABILITY_NAMES,
+  DEFAULT_MEMBER_CAPABILITIES,
+  createBandRole,
+  deleteBandRole,
+  listBandRoles,
+  updateBandRole,
+} from '../services/permission.service';
+import { publishBandUpdate } from '../services/realtime.service';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -167,12 +187,12 @@ router.get(
     param('id').isUUID().withMessage('Invalid band ID'),
     validate,
   ],
+  requireBandPermission(bandFromParam()),
   async (req, res, next) => {
     try {
       const { id } = req.params;
 
-      // Check if band exists and user is a member
-      const band = await prisma.band.findUnique({
+      const band = await prisma.band.findUniqueOrThrow({
         where: { id },
         include: {
           members: {
@@ -185,6 +205,12 @@ router.get(
                   profileImageUrl: true,
                 },
               },
+              bandRole: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
             },
           },
           rehearsals: {
@@ -201,29 +227,96 @@ router.get(
         },
       });
 
-      if (!band) {
-        return res.status(404).json({
-          success: false,
-          message: 'Band not found',
-          error: 'Not Found',
-        });
-      }
+      const { role, bandRole, capabilities } = req.bandAccess!;
 
-      // Check if the user is a member of this band
-      const isMember = band.members.some(
-        (member) => member.userId === req.user!.id && member.status === 'ACTIVE'
-      );
+      res.status(200).json({
+        success: true,
+        data: { ...band, myAccess: { role, bandRole, capabilities } },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
-      if (!isMember) {
-        return res.status(403).json({
-          success: false,
-          message: 'You are not a member of this band',
-          error: 'Forbidden',
-        });
-      }
+/**
+ * @swagger
+ * /api/bands/{id}:
+ *   put:
+ *     summary: Update band information
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               genre:
+ *                 type: string
+ *                 nullable: true
+ *               logoUrl:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Band updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to edit the band (MANAGE_BAND)
+ */
+router.put(
+  '/:id',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid band ID'),
+    body('name').optional().trim().notEmpty().withMessage('Band name cannot be empty'),
+    body('description')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Description must be a string'),
+    body('genre').optional({ values: 'null' }).isString().withMessage('Genre must be a string'),
+    body('logoUrl')
+      .optional({ values: 'null' })
+      .isURL({ protocols: ['http', 'https'], require_protocol: true })
+      .withMessage('Logo URL must be an http(s) URL'),
+    validate,
+  ],
+  requireBandPermission(bandFromParam(), 'MANAGE_BAND'),
+  async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const { name, description, genre, logoUrl } = req.body;
+
+      const band = await prisma.band.update({
+        where: { id },
+        data: {
+          name,
+          description,
+          genre,
+          logoUrl,
+        },
+      });
 
       res.status(200).json({
         success: true,
+        message: 'Band updated successfully',
         data: band,
       });
     } catch (error) {
@@ -232,6 +325,254 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /api/bands/{id}:
+ *   delete:
+ *     summary: Delete a band
+ *     description: Deletes the band with its rehearsals, songs, setlists and uploaded files.
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Band deleted successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to edit the band (MANAGE_BAND)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid band ID'), validate],
+  requireBandPermission(bandFromParam(), 'MANAGE_BAND'),
+  async (req, res, next) => {
+    try {
+      await deleteBand(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Band deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/bands/{id}/leave:
+ *   post:
+ *     summary: Leave a band
+ *     description: >
+ *       Your RSVPs for upcoming rehearsals are cancelled. If you are the
+ *       band's only leader, the longest-standing member becomes leader. The
+ *       last member cannot leave and has to delete the band instead.
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Left the band
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Not a member of the band
+ *       409:
+ *         description: You are the band's last member
+ */
+router.post(
+  '/:id/leave',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid band ID'), validate],
+  async (req, res, next) => {
+    try {
+      const result = await removeMember(req.params.id, req.user!.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'You have left the band',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/bands/{id}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member from a band
+ *     description: >
+ *       The membership becomes INACTIVE and the member's RSVPs for upcoming
+ *       rehearsals are cancelled (kept as NOT_ATTENDING).
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: >
+ *           Not allowed to manage members (MANAGE_MEMBERS), or the member is a
+ *           leader and the caller isn't
+ *       404:
+ *         description: Member not found
+ *       409:
+ *         description: The member is the band's last member
+ */
+router.delete(
+  '/:id/members/:userId',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid band ID'),
+    param('userId').isUUID().withMessage('Invalid user ID'),
+    validate,
+  ],
+  requireBandPermission(bandFromParam(), 'MANAGE_MEMBERS'),
+  async (req, res, next) => {
+    try {
+      const { id, userId } = req.params;
+
+      const result = await removeMember(id, userId, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Member removed successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/bands/{id}/members/{userId}/role:
+ *   put:
+ *     summary: Change a member's role
+ *     description: >
+ *       Promote a member to leader or demote a leader (leaders only; the
+ *       band's last active leader cannot be demoted), and/or assign one of
+ *       the band's custom roles (null removes it). Give at least one of role
+ *       and bandRoleId. Members who aren't leaders can't change their own
+ *       role or a leader's, and can only assign or remove custom roles whose
+ *       capabilities they have themselves.
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [LEADER, MEMBER]
+ *               bandRoleId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: >
+ *           Not allowed to manage members, to change who leads the band, or
+ *           to make this custom role change
+ *       404:
+ *         description: Member or role not found
+ *       409:
+ *         description: Would leave the band without an active leader
+ */
+router.put(
+  '/:id/members/:userId/role',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid band ID'),
+    param('userId').isUUID().withMessage('Invalid user ID'),
+    body('role').optional().isIn(['LEADER', 'MEMBER']).withMessage('Role must be LEADER or MEMBER'),
+    body('bandRoleId').optional({ values: 'null' }).isUUID().withMessage('Invalid role ID'),
+    body()
+      .custom((value) => value.role !== undefined || value.bandRoleId !== undefined)
+      .withMessage('Either role or bandRoleId is required'),
+    validate,
+  ],
+  requireBandPermission(bandFromParam(), 'MANAGE_MEMBERS'),
+  async (req, res, next) => {
+    try {
+      const { id, userId } = req.params;
+      const { role, bandRoleId } = req.body;
+
+      const membership = await changeMemberRole(
+        id,
+        userId,
+        { role, bandRoleId },
+        {
+          id: req.user!.id,
+          isLeader: req.bandAccess!.role === 'LEADER',
+          capabilities: req.bandAccess!.capabilities,
+        }
+      );
+      const { band, ...details } = membership;
+
+      res.status(200).json({
+        success: true,
+        message: 'Member role updated successfully',
+        data: details,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/bands/{id}/members:
@@ -264,7 +605,7 @@ router.get(
  *       201:
  *         description: Member added successfully
  *       400:
- *         description: Validation error
+ *         description: Validation error or the user has not verified their email
  *       401:
  *         description: Not authenticated
  *       403:
@@ -281,25 +622,16 @@ router.post(
     body('role').optional().isIn(['LEADER', 'MEMBER']).withMessage('Role must be LEADER or MEMBER'),
     validate,
   ],
+  requireBandPermission(bandFromParam(), 'MANAGE_MEMBERS'),
   async (req, res, next) => {
     try {
       const { id } = req.params;
       const { email, role = 'MEMBER' } = req.body;
 
-      // Check if the current user is a band leader
-      const userMembership = await prisma.bandMember.findFirst({
-        where: {
-          bandId: id,
-          userId: req.user!.id,
-          role: 'LEADER',
-          status: 'ACTIVE',
-        },
-      });
-
-      if (!userMembership) {
+      if (role === 'LEADER' && req.bandAccess!.role !== 'LEADER') {
         return res.status(403).json({
           success: false,
-          message: 'Only band leaders can add members',
+          message: 'Only band leaders can add leaders',
           error: 'Forbidden',
         });
       }
@@ -317,6 +649,15 @@ router.post(
         });
       }
 
+      // Only accounts with a confirmed email address can join bands
+      if (!user.emailVerifiedAt) {
+        return res.status(400).json({
+          success: false,
+          message: 'User has not verified their email address yet',
+          error: 'Bad Request',
+        });
+      }
+
       // Check if the user is already a member
       const existingMembership = await prisma.bandMember.findFirst({
         where: {
@@ -326,8 +667,8 @@ router.post(
       });
 
       if (existingMembership) {
-        // If already a member but inactive, reactivate
-        if (existingMembership.status === 'INACTIVE') {
+        // If a former member or invited but not yet joined, (re)activate
+        if (existingMembership.status !== 'ACTIVE') {
           const updatedMembership = await prisma.bandMember.update({
             where: { id: existingMembership.id },
             data: { status: 'ACTIVE', role },
@@ -342,6 +683,11 @@ router.post(
             },
           });
 
+          await publishBandUpdate({
+            type: 'member.joined',
+            data: { bandId: id, member: { userId: user.id, name: user.name, role } },
+          });
+
           return res.status(200).json({
             success: true,
             message: 'Member reactivated successfully',
@@ -375,20 +721,25 @@ router.post(
         },
       });
 
+      await publishBandUpdate({
+        type: 'member.joined',
+        data: { bandId: id, member: { userId: user.id, name: user.name, role } },
+      });
+
       // Create a notification for the new member
       const band = await prisma.band.findUnique({
         where: { id },
         select: { name: true },
       });
 
-      await prisma.notification.create({
-        data: {
+      await notifyUsers([
+        {
           userId: user.id,
           type: 'BAND_INVITATION',
           content: `You have been added to ${band?.name}`,
           relatedId: id,
         },
-      });
+      ]);
 
       res.status(201).json({
         success: true,
@@ -401,4 +752,510 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/bands/{id}/invites:
+ *   post:
+ *     summary: Invite someone to a band
+ *     description: >
+ *       With an email, a single-use invite is mailed to that address, which
+ *       doesn't need an account yet; an existing user also gets a PENDING
+ *       membership and a notification. Without an email, the invite is a
+ *       shareable link/code, optionally limited by maxUses.
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [LEADER, MEMBER]
+ *               maxUses:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Shareable links only; unlimited if omitted
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 90
+ *                 default: 7
+ *     responses:
+ *       201:
+ *         description: Invite created, with its code and url
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage members (MANAGE_MEMBERS)
+ *       409:
+ *         description: The invited user is already a member
+ */
+router.post(
+  '/:id/invites',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid band ID'),
+    body('email').optional().isEmail().withMessage('Valid email is required'),
+    body('role').optional().isIn(['LEADER', 'MEMBER']).withMessage('Role must be LEADER or MEMBER'),
+    body('maxUses')
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .withMessage('Max uses must be a positive integer')
+      .toInt(),
+    body('maxUses')
+      .if(body('maxUses').exists({ values: 'null' }))
+      .custom((value, { req }) => !req.body.email)
+      .withMessage('Email invites are single use'),
+    body('expiresInDays')
+      .optional()
+      .isInt({ min: 1, max: MAX_INVITE_TTL_DAYS })
+      .withMessage(`Expiry must be between 1 and ${MAX_INVITE_TTL_DAYS} days`)
+      .toInt(),
+    validate,
+  ],
+  requireBandPermission(bandFromParam(), 'MANAGE_MEMBERS'),
+  async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const { email, role = 'MEMBER', maxUses, expiresInDays } = req.body;
+
+      if (role === 'LEADER' && req.bandAccess!.role !== 'LEADER') {
+        return res.status(403).json({
+          success: false,
+          message: 'Only band leaders can invite leaders',
+          error: 'Forbidden',
+        });
+      }
+
+      const invite = await createInvite(id, req.user!.id, { email, role, maxUses, expiresInDays });
+
+      res.status(201).json({
+        success: true,
+        message: email ? 'Invitation sent successfully' : 'Invite link created successfully',
+        data: invite,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/bands/{id}/invites:
+ *   get:
+ *     summary: Get a band's outstanding invites
+ *     description: Invites that are not revoked, declined, expired or used up.
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of invites
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage members (MANAGE_MEMBERS)
+ */
+router.get(
+  '/:id/invites',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid band ID'), validate],
+  requireBandPermission(bandFromParam(), 'MANAGE_MEMBERS'),
+  async (req, res, next) => {
+    try {
+      const invites = await listOpenInvites(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: invites,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/bands/{id}/invites/{inviteId}:
+ *   delete:
+ *     summary: Revoke an invite
+ *     description: The invite can no longer be accepted and any pending membership it created is removed.
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: inviteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invite revoked
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage members (MANAGE_MEMBERS)
+ *       404:
+ *         description: Invite not found or already revoked
+ */
+router.delete(
+  '/:id/invites/:inviteId',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid band ID'),
+    param('inviteId').isUUID().withMessage('Invalid invite ID'),
+    validate,
+  ],
+  requireBandPermission(bandFromParam(), 'MANAGE_MEMBERS'),
+  async (req, res, next) => {
+    try {
+      const { id, inviteId } = req.params;
+
+      const revoked = await revokeInvite(id, inviteId);
+
+      if (!revoked) {
+        return res.status(404).json({
+          success: false,
+          message: 'Invite not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Invite revoked successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const roleValidators = [
+  body('description')
+    .optional({ values: 'null' })
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters'),
+  body('capabilities')
+    .optional()
+    .isArray()
+    .withMessage('Capabilities must be a list'),
+  body('capabilities.*')
+    .isIn(CAPABILITY_NAMES)
+    .withMessage(`Each capability must be one of: ${CAPABILITY_NAMES.join(', ')}`),
+];
+
+/**
+ * @swagger
+ * /api/bands/{id}/roles:
+ *   get:
+ *     summary: Get a band's roles and the capabilities they grant
+ *     description: >
+ *       Leaders have every capability. Members without a custom role get
+ *       the member defaults; a custom role's capabilities replace them.
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Capability catalogue, built-in role defaults and custom roles
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of this band
+ */
+router.get(
+  '/:id/roles',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid band ID'), validate],
+  requireBandPermission(bandFromParam()),
+  async (req, res, next) => {
+    try {
+      const roles = await listBandRoles(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          capabilities: CAPABILITIES,
+          defaults: {
+            LEADER: CAPABILITY_NAMES,
+            MEMBER: DEFAULT_MEMBER_CAPABILITIES,
+          },
+          roles,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/bands/{id}/roles:
+ *   post:
+ *     summary: Create a custom role, e.g. "Musical director" or "Sub"
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               capabilities:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum:
+ *                     - SCHEDULE_REHEARSALS
+ *                     - MANAGE_REHEARSALS
+ *                     - TAKE_ATTENDANCE
+ *                     - UPLOAD_MATERIALS
+ *                     - MANAGE_MATERIALS
+ *                     - MANAGE_REPERTOIRE
+ *                     - MANAGE_VENUES
+ *                     - MANAGE_CHAT
+ *                     - MANAGE_POLLS
+ *                     - MANAGE_MEMBERS
+ *                     - VIEW_ATTENDANCE_REPORTS
+ *                     - MANAGE_BAND
+ *     responses:
+ *       201:
+ *         description: Role created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to edit the band (MANAGE_BAND)
+ *       409:
+ *         description: The band already has a role with this name
+ */
+router.post(
+  '/:id/roles',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid band ID'),
+    body('name')
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('Name is required (max 50 characters)'),
+    ...roleValidators,
+    validate,
+  ],
+  requireBandPermission(bandFromParam(), 'MANAGE_BAND'),
+  async (req, res, next) => {
+    try {
+      const { name, description, capabilities } = req.body;
+
+      const role = await createBandRole(req.params.id, { name, description, capabilities });
+
+      res.status(201).json({
+        success: true,
+        message: 'Role created successfully',
+        data: role,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/bands/{id}/roles/{roleId}:
+ *   put:
+ *     summary: Update a custom role
+ *     description: Changes apply immediately to every member holding the role.
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               capabilities:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to edit the band (MANAGE_BAND)
+ *       404:
+ *         description: Role not found
+ *       409:
+ *         description: The band already has a role with this name
+ */
+router.put(
+  '/:id/roles/:roleId',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid band ID'),
+    param('roleId').isUUID().withMessage('Invalid role ID'),
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('Name must be between 1 and 50 characters'),
+    ...roleValidators,
+    validate,
+  ],
+  requireBandPermission(bandFromParam(), 'MANAGE_BAND'),
+  async (req, res, next) => {
+    try {
+      const { name, description, capabilities } = req.body;
+
+      const role = await updateBandRole(req.params.id, req.params.roleId, {
+        name,
+        description,
+        capabilities,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Role updated successfully',
+        data: role,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/bands/{id}/roles/{roleId}:
+ *   delete:
+ *     summary: Delete a custom role
+ *     description: Members holding it fall back to the member defaults.
+ *     tags: [Bands]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to edit the band (MANAGE_BAND)
+ *       404:
+ *         description: Role not found
+ */
+router.delete(
+  '/:id/roles/:roleId',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid band ID'),
+    param('roleId').isUUID().withMessage('Invalid role ID'),
+    validate,
+  ],
+  requireBandPermission(bandFromParam(), 'MANAGE_BAND'),
+  async (req, res, next) => {
+    try {
+      const deleted = await deleteBandRole(req.params.id, req.params.roleId);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          message: 'Role not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Role deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,677 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import multer from 'multer';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import {
+  buildRehearsalCalendar,
+  generateCalendarToken,
+  getOrCreateCalendarToken,
+} from '../services/calendar.service';
+import {
+  importCalendarText,
+  resolveImportPath,
+  syncCalendarSource,
+} from '../services/calendarImport.service';
+import { badRequest } from '../utils/errors';
+import { DAY_MS } from '../utils/time';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const icsUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 2 * 1024 * 1024 },
+  fileFilter: (req, file, callback) => {
+    if (/\.ics$/i.test(file.originalname) || ['text/calendar', 'application/ics'].includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(badRequest('Only iCalendar (.ics) files can be imported'));
+    }
+  },
+});
+
+const sourceSelect = {
+  id: true,
+  name: true,
+  type: true,
+  location: true,
+  lastSyncedAt: true,
+  lastError: true,
+  createdAt: true,
+  _count: {
+    select: { busyBlocks: true },
+  },
+};
+
+const feedUrls = async (req: Request, token: string) => {
+  const base = `${req.protocol}://${req.get('host')}${req.baseUrl}/feed/${token}`;
+  const bands = await prisma.band.findMany({
+    where: {
+      members: {
+        some: {
+          userId: req.user!.id,
+          status: 'ACTIVE',
+        },
+      },
+    },
+    select: {
+      id: true,
+      name: true,
+    },
+    orderBy: {
+      name: 'asc',
+    },
+  });
+
+  return {
+    feedUrl: `${base}.ics`,
+    webcalUrl: `${base}.ics`.replace(/^https?:/, 'webcal:'),
+    bands: bands.map((band) => ({
+      bandId: band.id,
+      name: band.name,
+      feedUrl: `${base}/bands/${band.id}.ics`,
+    })),
+  };
+};
+
+/**
+ * @swagger
+ * /api/calendar/subscription:
+ *   get:
+ *     summary: Get the current user's calendar subscription URLs
+ *     description: >
+ *       Returns secret iCalendar feed URLs (all bands and per band) that can
+ *       be subscribed to from Google Calendar, Apple Calendar and others.
+ *       Anyone with a URL can read the feed; rotate the token to revoke it.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Feed URLs
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/subscription', authenticate, async (req, res, next) => {
+  try {
+    const token = await getOrCreateCalendarToken(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: await feedUrls(req, token),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/calendar/subscription/rotate:
+ *   post:
+ *     summary: Replace the calendar feed token
+ *     description: Existing subscription URLs stop working immediately.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: New feed URLs
+ *       401:
+ *         description: Not authenticated
+ */
+router.post('/subscription/rotate', authenticate, async (req, res, next) => {
+  try {
+    const user = await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { calendarToken: generateCalendarToken() },
+      select: { calendarToken: true },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Calendar feed token rotated successfully',
+      data: await feedUrls(req, user.calendarToken!),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/calendar/export.ics:
+ *   get:
+ *     summary: Download rehearsals as an .ics file
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: bandId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: iCalendar file
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Not authenticated
+ */
+router.get(
+  '/export.ics',
+  authenticate,
+  [
+    query('bandId').optional().isUUID().withMessage('Invalid band ID'),
+    query('start').optional().isISO8601().withMessage('Invalid start date'),
+    query('end').optional().isISO8601().withMessage('Invalid end date'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const { bandId, start, end } = req.query;
+
+      const calendar = await buildRehearsalCalendar(req.user!, {
+        bandId: bandId as string | undefined,
+        start: start ? new Date(start as string) : undefined,
+        end: end ? new Date(end as string) : undefined,
+      });
+
+      res
+        .status(200)
+        .type('text/calendar; charset=utf-8')
+        .attachment('rehearsals.ics')
+        .send(calendar);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const sendFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, bandId } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { calendarToken: token },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Calendar feed not found',
+        error: 'Not Found',
+      });
+    }
+
+    const calendar = await buildRehearsalCalendar(user, { bandId });
+
+    res.status(200).type('text/calendar; charset=utf-8').send(calendar);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/calendar/feed/{token}.ics:
+ *   get:
+ *     summary: iCalendar subscription feed of all the user's rehearsals
+ *     description: Authenticated by the secret token in the URL.
+ *     tags: [Calendar]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Unknown token
+ */
+router.get(
+  '/feed/:token.ics',
+  [param('token').isHexadecimal().withMessage('Invalid feed token'), validate],
+  sendFeed
+);
+
+/**
+ * @swagger
+ * /api/calendar/feed/{token}/bands/{bandId}.ics:
+ *   get:
+ *     summary: iCalendar subscription feed of one band's rehearsals
+ *     description: Authenticated by the secret token in the URL.
+ *     tags: [Calendar]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Unknown token
+ */
+router.get(
+  '/feed/:token/bands/:bandId.ics',
+  [
+    param('token').isHexadecimal().withMessage('Invalid feed token'),
+    param('bandId').isUUID().withMessage('Invalid band ID'),
+    validate,
+  ],
+  sendFeed
+);
+
+/**
+ * @swagger
+ * /api/calendar/imports:
+ *   get:
+ *     summary: List the current user's imported calendars
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Imported calendars with their busy block counts
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/imports', authenticate, async (req, res, next) => {
+  try {
+    const sources = await prisma.calendarSource.findMany({
+      where: { userId: req.user!.id },
+      select: sourceSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: sources,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/calendar/imports/upload:
+ *   post:
+ *     summary: Import busy times from an uploaded .ics file
+ *     description: >
+ *       Events in the file (including recurring ones) become busy blocks that
+ *       are taken into account by rehearsal suggestions and conflict checks.
+ *       Event titles are never shown to other band members.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Calendar imported
+ *       400:
+ *         description: Missing or invalid file
+ *       401:
+ *         description: Not authenticated
+ */
+router.post(
+  '/imports/upload',
+  authenticate,
+  icsUpload.single('file'),
+  [
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Name must be between 1 and 100 characters'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: 'An .ics file is required',
+          error: 'Bad Request',
+        });
+      }
+
+      const source = await prisma.calendarSource.create({
+        data: {
+          userId: req.user!.id,
+          name: req.body.name || req.file.originalname,
+          type: 'UPLOAD',
+        },
+      });
+
+      let imported: number;
+
+      try {
+        imported = await importCalendarText(source, req.file.buffer.toString('utf8'));
+      } catch (error) {
+        await prisma.calendarSource.delete({ where: { id: source.id } });
+        throw error;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Calendar imported successfully',
+        data: { ...source, imported },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/calendar/imports:
+ *   post:
+ *     summary: Register a calendar URL or local ICS file to import busy times from
+ *     description: >
+ *       The calendar is read immediately and again on every sync. URLs, and
+ *       any redirects, must lead to public internet addresses. Local paths
+ *       are only accepted inside the directory configured by ICS_IMPORT_DIR.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *                 description: http(s) or webcal URL
+ *               path:
+ *                 type: string
+ *                 description: Path relative to ICS_IMPORT_DIR
+ *     responses:
+ *       201:
+ *         description: Calendar registered and imported
+ *       400:
+ *         description: Validation error or calendar could not be read
+ *       401:
+ *         description: Not authenticated
+ */
+router.post(
+  '/imports',
+  authenticate,
+  [
+    body('name')
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Name must be between 1 and 100 characters'),
+    body('url')
+      .optional()
+      .isURL({ protocols: ['http', 'https', 'webcal'], require_protocol: true })
+      .withMessage('URL must be an http(s) or webcal URL'),
+    body('path').optional().isString().notEmpty().withMessage('Path must be a non-empty string'),
+    body().custom((value) => {
+      if (Boolean(value.url) === Boolean(value.path)) {
+        throw new Error('Provide either a url or a path');
+      }
+      return true;
+    }),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const { name, url, path } = req.body;
+
+      if (path) {
+        // Reject paths outside the import directory before storing anything
+        resolveImportPath(path);
+      }
+
+      const source = await prisma.calendarSource.create({
+        data: {
+          userId: req.user!.id,
+          name,
+          type: url ? 'URL' : 'FILE',
+          location: url || path,
+        },
+      });
+
+      let imported: number;
+
+      try {
+        ({ imported } = await syncCalendarSource(source.id, req.user!.id));
+      } catch (error) {
+        await prisma.calendarSource.delete({ where: { id: source.id } });
+        throw error;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Calendar imported successfully',
+        data: { ...source, lastError: null, imported },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/calendar/imports/{id}/sync:
+ *   post:
+ *     summary: Re-read a calendar URL or local file
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Busy blocks replaced
+ *       400:
+ *         description: Calendar could not be read, or it was uploaded
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Calendar not found
+ */
+router.post(
+  '/imports/:id/sync',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid calendar ID'), validate],
+  async (req, res, next) => {
+    try {
+      const { imported } = await syncCalendarSource(req.params.id, req.user!.id);
+
+      const source = await prisma.calendarSource.findUnique({
+        where: { id: req.params.id },
+        select: sourceSelect,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar synced successfully',
+        data: { ...source, imported },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/calendar/imports/{id}:
+ *   delete:
+ *     summary: Remove an imported calendar and its busy blocks
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Calendar removed
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Calendar not found
+ */
+router.delete(
+  '/imports/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid calendar ID'), validate],
+  async (req, res, next) => {
+    try {
+      const { count } = await prisma.calendarSource.deleteMany({
+        where: { id: req.params.id, userId: req.user!.id },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Calendar not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar removed successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/calendar/busy:
+ *   get:
+ *     summary: List the current user's imported busy blocks
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Busy blocks overlapping the range (default next 30 days)
+ *       401:
+ *         description: Not authenticated
+ */
+router.get(
+  '/busy',
+  authenticate,
+  [
+    query('start').optional().isISO8601().withMessage('Invalid start date'),
+    query('end').optional().isISO8601().withMessage('Invalid end date'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const start = req.query.start ? new Date(req.query.start as string) : new Date();
+      const end = req.query.end
+        ? new Date(req.query.end as string)
+        : new Date(start.getTime() + 30 * DAY_MS);
+
+      const busyBlocks = await prisma.busyBlock.findMany({
+        where: {
+          userId: req.user!.id,
+          startDatetime: { lt: end },
+          endDatetime: { gt: start },
+        },
+        select: {
+          id: true,
+          sourceId: true,
+          summary: true,
+          startDatetime: true,
+          endDatetime: true,
+        },
+        orderBy: { startDatetime: 'asc' },
+      });
+
+      res.status(200).json({
+        success: true,
+        data: busyBlocks,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
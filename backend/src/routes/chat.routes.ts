@@ -0,0 +1,686 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { authenticate } from '../middlewares/auth';
+import {
+  bandFromParam,
+  bandOfChannel,
+  bandOfMessage,
+  bandOfRehearsal,
+  requireBandPermission,
+} from '../middlewares/permission';
+import { validate } from '../middlewares/validate';
+import {
+  ChannelInput,
+  MAX_MESSAGE_LENGTH,
+  createChannel,
+  deleteMessage,
+  editMessage,
+  getChannel,
+  getRehearsalThread,
+  listChannels,
+  listMessages,
+  listReadReceipts,
+  markChannelRead,
+  postMessage,
+  updateChannel,
+} from '../services/chat.service';
+
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// A function, as chains are mutable and updates make the name optional
+const channelName = () =>
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 80 })
+    .withMessage('Name must be between 1 and 80 characters');
+
+const channelDescription = body('description')
+  .optional({ values: 'null' })
+  .trim()
+  .isLength({ max: 500 })
+  .withMessage('Description must be at most 500 characters');
+
+const messageContent = body('content')
+  .isString()
+  .trim()
+  .isLength({ min: 1, max: MAX_MESSAGE_LENGTH })
+  .withMessage(`Message must be between 1 and ${MAX_MESSAGE_LENGTH} characters`);
+
+const channelData = (input: Record<string, any>): ChannelInput => ({
+  name: input.name,
+  description: input.description,
+  archived: input.archived,
+});
+
+/**
+ * @swagger
+ * /api/chat/bands/{bandId}/channels:
+ *   get:
+ *     summary: List a band's chat channels
+ *     description: >
+ *       Ordered by name, each with its latest message and how many messages
+ *       from others you haven't read.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: includeThreads
+ *         description: Include rehearsal threads that have been opened
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Channels with their latest message and unread count
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ */
+router.get(
+  '/bands/:bandId/channels',
+  authenticate,
+  [
+    param('bandId').isUUID().withMessage('Invalid band ID'),
+    query('includeArchived').optional().isBoolean().withMessage('includeArchived must be a boolean'),
+    query('includeThreads').optional().isBoolean().withMessage('includeThreads must be a boolean'),
+    validate,
+  ],
+  requireBandPermission(bandFromParam('bandId')),
+  async (req, res, next) => {
+    try {
+      const channels = await listChannels(req.params.bandId, req.user!.id, {
+        includeArchived: req.query.includeArchived === 'true',
+        includeThreads: req.query.includeThreads === 'true',
+      });
+
+      res.status(200).json({
+        success: true,
+        data: channels,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chat/bands/{bandId}/channels:
+ *   post:
+ *     summary: Create a chat channel
+ *     description: Any member can create channels. Names are unique within the band.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: setlist-ideas
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Channel created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       409:
+ *         description: The band already has a channel with this name
+ */
+router.post(
+  '/bands/:bandId/channels',
+  authenticate,
+  [
+    param('bandId').isUUID().withMessage('Invalid band ID'),
+    channelName(),
+    channelDescription,
+    validate,
+  ],
+  requireBandPermission(bandFromParam('bandId')),
+  async (req, res, next) => {
+    try {
+      const channel = await createChannel(req.params.bandId, req.user!.id, {
+        name: req.body.name,
+        description: req.body.description,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Channel created successfully',
+        data: channel,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chat/rehearsals/{rehearsalId}/thread:
+ *   get:
+ *     summary: Get a rehearsal's chat thread
+ *     description: >
+ *       Every rehearsal has one thread, created the first time it is opened.
+ *       Includes how far each member has read it.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: rehearsalId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The thread; post and read messages through its channel ID
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Rehearsal not found
+ */
+router.get(
+  '/rehearsals/:rehearsalId/thread',
+  authenticate,
+  [param('rehearsalId').isUUID().withMessage('Invalid rehearsal ID'), validate],
+  requireBandPermission(bandOfRehearsal('rehearsalId')),
+  async (req, res, next) => {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await getRehearsalThread(req.params.rehearsalId),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chat/channels/{id}:
+ *   get:
+ *     summary: Get a channel
+ *     description: >
+ *       Includes readStates, how far each member has read the channel; a
+ *       message has been read by everyone whose lastReadAt is at or after
+ *       its createdAt.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Channel with read states
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Channel not found
+ */
+router.get(
+  '/channels/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid channel ID'), validate],
+  requireBandPermission(bandOfChannel()),
+  async (req, res, next) => {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await getChannel(req.params.id),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chat/channels/{id}:
+ *   put:
+ *     summary: Update a channel
+ *     description: >
+ *       Rename, describe, archive or unarchive a channel. Archived channels
+ *       are read-only. Allowed for whoever created the channel and members
+ *       with MANAGE_CHAT; rehearsal threads keep the rehearsal's name.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               archived:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Channel updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage the channel (MANAGE_CHAT)
+ *       404:
+ *         description: Channel not found
+ *       409:
+ *         description: The band already has a channel with this name
+ */
+router.put(
+  '/channels/:id',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid channel ID'),
+    channelName().optional(),
+    channelDescription,
+    body('archived').optional().isBoolean().toBoolean().withMessage('archived must be a boolean'),
+    validate,
+  ],
+  requireBandPermission(bandOfChannel()),
+  async (req, res, next) => {
+    try {
+      const channel = await updateChannel(req.params.id, req.bandAccess!, channelData(req.body));
+
+      res.status(200).json({
+        success: true,
+        message: 'Channel updated successfully',
+        data: channel,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chat/channels/{id}/messages:
+ *   get:
+ *     summary: Get a page of messages
+ *     description: >
+ *       The latest messages, or those before the message `before`, oldest
+ *       first. Deleted messages are included with empty content and a
+ *       deletedAt. Each message lists the members it mentions.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: before
+ *         description: ID of the oldest message already loaded
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Messages and whether there are older ones
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Channel or message not found
+ */
+router.get(
+  '/channels/:id/messages',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid channel ID'),
+    query('before').optional().isUUID().withMessage('before must be a message ID'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .toInt()
+      .withMessage('Limit must be between 1 and 100'),
+    validate,
+  ],
+  requireBandPermission(bandOfChannel()),
+  async (req, res, next) => {
+    try {
+      const page = await listMessages(req.params.id, {
+        before: req.query.before as string | undefined,
+        limit: (req.query.limit as unknown as number) || DEFAULT_PAGE_SIZE,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: page.messages,
+        hasMore: page.hasMore,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chat/channels/{id}/messages:
+ *   post:
+ *     summary: Post a message
+ *     description: >
+ *       Active members mentioned as @Name get a CHAT_MENTION notification.
+ *       The message is delivered to connected members over the WebSocket
+ *       at /api/ws.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 example: "@Sam can you bring the spare snare?"
+ *     responses:
+ *       201:
+ *         description: Message posted
+ *       400:
+ *         description: Validation error or the channel is archived
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Channel not found
+ */
+router.post(
+  '/channels/:id/messages',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid channel ID'), messageContent, validate],
+  requireBandPermission(bandOfChannel()),
+  async (req, res, next) => {
+    try {
+      const message = await postMessage(req.params.id, req.user!, req.body.content);
+
+      res.status(201).json({
+        success: true,
+        message: 'Message posted successfully',
+        data: message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chat/channels/{id}/read:
+ *   post:
+ *     summary: Mark a channel as read
+ *     description: >
+ *       Up to the given message, or the latest one. Never moves back. Other
+ *       members are told over the WebSocket, for read receipts.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               messageId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Your read state, null if the channel has no messages
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Channel or message not found
+ */
+router.post(
+  '/channels/:id/read',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid channel ID'),
+    body('messageId').optional().isUUID().withMessage('messageId must be a message ID'),
+    validate,
+  ],
+  requireBandPermission(bandOfChannel()),
+  async (req, res, next) => {
+    try {
+      const readState = await markChannelRead(req.params.id, req.user!.id, req.body.messageId);
+
+      res.status(200).json({
+        success: true,
+        data: readState,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chat/messages/{id}:
+ *   put:
+ *     summary: Edit your message
+ *     description: Members newly @mentioned by the edit are notified.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Message updated
+ *       400:
+ *         description: Validation error, or the message is deleted or its channel archived
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not your message
+ *       404:
+ *         description: Message not found
+ */
+router.put(
+  '/messages/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid message ID'), messageContent, validate],
+  requireBandPermission(bandOfMessage()),
+  async (req, res, next) => {
+    try {
+      const message = await editMessage(req.params.id, req.user!, req.body.content);
+
+      res.status(200).json({
+        success: true,
+        message: 'Message updated successfully',
+        data: message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chat/messages/{id}:
+ *   delete:
+ *     summary: Delete a message
+ *     description: >
+ *       Your own, or anyone's with MANAGE_CHAT. The message is kept as a
+ *       placeholder without its content.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Message deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to delete other members' messages (MANAGE_CHAT)
+ *       404:
+ *         description: Message not found
+ */
+router.delete(
+  '/messages/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid message ID'), validate],
+  requireBandPermission(bandOfMessage()),
+  async (req, res, next) => {
+    try {
+      await deleteMessage(req.params.id, req.bandAccess!);
+
+      res.status(200).json({
+        success: true,
+        message: 'Message deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chat/messages/{id}/read-by:
+ *   get:
+ *     summary: Get who has read a message
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Members other than the author who have read the message
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Message not found
+ */
+router.get(
+  '/messages/:id/read-by',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid message ID'), validate],
+  requireBandPermission(bandOfMessage()),
+  async (req, res, next) => {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await listReadReceipts(req.params.id),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
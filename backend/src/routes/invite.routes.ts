@@ -0,0 +1,164 @@
+import express from 'express';
+import { param } from 'express-validator';
+import { authenticate } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import {
+  acceptInvite,
+  declineInvite,
+  getInvitePreview,
+  listInvitesForEmail,
+} from '../services/invite.service';
+
+const router = express.Router();
+
+const codeValidation = [
+  param('code')
+    .matches(/^[A-Za-z0-9_-]{6,64}$/)
+    .withMessage('Invalid invite code'),
+  validate,
+];
+
+/**
+ * @swagger
+ * /api/invites:
+ *   get:
+ *     summary: Get the open invites sent to the current user's email address
+ *     tags: [Invites]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of invites with their band
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/', authenticate, async (req, res, next) => {
+  try {
+    const invites = await listInvitesForEmail(req.user!.email);
+
+    res.status(200).json({
+      success: true,
+      data: invites,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/invites/{code}:
+ *   get:
+ *     summary: Look up an invite by its code
+ *     description: >
+ *       Public, so the invite page can show the band before the person logs
+ *       in or signs up. The status tells whether it can still be accepted.
+ *     tags: [Invites]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Band, role, expiry and status (OPEN, EXPIRED, REVOKED, DECLINED, USED_UP)
+ *       404:
+ *         description: Invite not found
+ */
+router.get('/:code', codeValidation, async (req, res, next) => {
+  try {
+    const invite = await getInvitePreview(req.params.code);
+
+    res.status(200).json({
+      success: true,
+      data: invite,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/invites/{code}/accept:
+ *   post:
+ *     summary: Accept an invite and join the band
+ *     description: Personal invites can only be accepted with the invited email address.
+ *     tags: [Invites]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Joined the band
+ *       400:
+ *         description: Invite expired, revoked or used up, or email not verified
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Invite was sent to a different email address
+ *       404:
+ *         description: Invite not found
+ *       409:
+ *         description: Already a member of the band
+ */
+router.post('/:code/accept', authenticate, codeValidation, async (req, res, next) => {
+  try {
+    const membership = await acceptInvite(req.params.code, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: `You have joined ${membership.band.name}`,
+      data: membership,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/invites/{code}/decline:
+ *   post:
+ *     summary: Decline a personal invite
+ *     tags: [Invites]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invite declined
+ *       400:
+ *         description: Invite is no longer open or is a shareable link
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Invite was sent to a different email address
+ *       404:
+ *         description: Invite not found
+ */
+router.post('/:code/decline', authenticate, codeValidation, async (req, res, next) => {
+  try {
+    await declineInvite(req.params.code, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Invite declined',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,176 @@
+import express from 'express';
+import { param } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
+import { bandOfMaterial, requireBandPermission } from '../middlewares/permission';
+import { validate } from '../middlewares/validate';
+import { canDeleteMaterial, deleteMaterial } from '../services/material.service';
+import { getStorage } from '../services/storage.service';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /api/materials/{id}:
+ *   get:
+ *     summary: Get a rehearsal material
+ *     tags: [Materials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Material details, including its download URL
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Material not found
+ */
+router.get(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid material ID'), validate],
+  requireBandPermission(bandOfMaterial()),
+  async (req, res, next) => {
+    try {
+      const material = await prisma.rehearsalMaterial.findUniqueOrThrow({
+        where: { id: req.params.id },
+      });
+      const { storageKey, ...details } = material;
+
+      res.status(200).json({
+        success: true,
+        data: { ...details, canDelete: canDeleteMaterial(req.bandAccess!, material) },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/materials/{id}/download:
+ *   get:
+ *     summary: Download the file of a rehearsal material
+ *     description: Requires authentication as an active member of the band.
+ *     tags: [Materials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Material or file not found
+ */
+router.get(
+  '/:id/download',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid material ID'), validate],
+  requireBandPermission(bandOfMaterial()),
+  async (req, res, next) => {
+    try {
+      const material = await prisma.rehearsalMaterial.findUniqueOrThrow({
+        where: { id: req.params.id },
+      });
+      const stored = material.storageKey ? await getStorage().get(material.storageKey) : null;
+
+      if (!stored) {
+        return res.status(404).json({
+          success: false,
+          message: 'This material has no file',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200);
+      // attachment() sets a type from the file name, so the stored type goes last
+      res.attachment(material.fileName || material.name);
+      res.type(material.mimeType || 'application/octet-stream');
+      if (stored.size !== undefined) {
+        res.setHeader('Content-Length', stored.size);
+      }
+
+      stored.body.on('error', (error) => (res.headersSent ? res.destroy(error) : next(error)));
+      stored.body.pipe(res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/materials/{id}:
+ *   delete:
+ *     summary: Delete a rehearsal material
+ *     description: Only the uploader or members with MANAGE_MATERIALS can delete a material.
+ *     tags: [Materials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Material deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not the uploader and lacking MANAGE_MATERIALS
+ *       404:
+ *         description: Material not found
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid material ID'), validate],
+  requireBandPermission(bandOfMaterial()),
+  async (req, res, next) => {
+    try {
+      const material = await prisma.rehearsalMaterial.findUniqueOrThrow({
+        where: { id: req.params.id },
+      });
+
+      if (!canDeleteMaterial(req.bandAccess!, material)) {
+        return res.status(403).json({
+          success: false,
+          message: "Only the uploader or members who manage the band's materials can delete this material",
+          error: 'Forbidden',
+        });
+      }
+
+      await deleteMaterial(material);
+
+      res.status(200).json({
+        success: true,
+        message: 'Material deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,798 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import { isTimeOfDay } from '../utils/time';
+import {
+  NOTIFICATION_TYPES,
+  countUnreadNotifications,
+  enrichNotifications,
+} from '../services/notification.service';
+import { getNotificationPreferences } from '../services/delivery.service';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /api/notifications:
+ *   get:
+ *     summary: List the current user's notifications
+ *     description: >
+ *       Newest first. Each notification includes the band and/or rehearsal
+ *       its relatedId refers to (null if none or since deleted).
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: unread
+ *         description: Only return unread notifications
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: A page of notifications with pagination info and the unread count
+ *       401:
+ *         description: Not authenticated
+ */
+router.get(
+  '/',
+  authenticate,
+  [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .toInt()
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .toInt()
+      .withMessage('Limit must be between 1 and 100'),
+    query('unread').optional().isBoolean().toBoolean().withMessage('unread must be true or false'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+      const unreadOnly = (req.query.unread as unknown as boolean) === true;
+
+      const where = {
+        userId: req.user!.id,
+        ...(unreadOnly ? { isRead: false } : {}),
+      };
+
+      const [notifications, total, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          orderBy: {
+            createdAt: 'desc',
+          },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.notification.count({ where }),
+        countUnreadNotifications(req.user!.id),
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: await enrichNotifications(notifications),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+        unreadCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/notifications/unread-count:
+ *   get:
+ *     summary: Get the number of unread notifications
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread count
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/unread-count', authenticate, async (req, res, next) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: {
+        count: await countUnreadNotifications(req.user!.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/read-all:
+ *   put:
+ *     summary: Mark all of the current user's notifications as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of notifications marked as read
+ *       401:
+ *         description: Not authenticated
+ */
+router.put('/read-all', authenticate, async (req, res, next) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: {
+        userId: req.user!.id,
+        isRead: false,
+      },
+      data: {
+        isRead: true,
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'All notifications marked as read',
+      data: { count },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/preferences:
+ *   get:
+ *     summary: Get the current user's delivery preferences
+ *     description: >
+ *       Which channels (email, SMS, push) each notification type is delivered
+ *       on, plus quiet hours during which SMS and push are held back.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Channels per notification type, quiet hours and phone number
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/preferences', authenticate, async (req, res, next) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: await getNotificationPreferences(req.user!.id),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/preferences:
+ *   put:
+ *     summary: Update the current user's delivery preferences
+ *     description: >
+ *       Only the notification types listed are changed. quietHours uses HH:mm
+ *       in the user's timezone and may wrap midnight; null turns it off.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               types:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - type
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       enum:
+ *                         - NEW_REHEARSAL
+ *                         - REHEARSAL_UPDATED
+ *                         - REHEARSAL_CANCELLED
+ *                         - ATTENDANCE_UPDATE
+ *                         - BAND_INVITATION
+ *                         - BAND_ROLE_UPDATED
+ *                         - BAND_MEMBER_REMOVED
+ *                         - BAND_INVITE_ACCEPTED
+ *                         - BAND_INVITE_DECLINED
+ *                         - REHEARSAL_REMINDER
+ *                         - RSVP_REMINDER
+ *                         - LOW_ATTENDANCE
+ *                         - CHAT_MENTION
+ *                         - NEW_POLL
+ *                     email:
+ *                       type: boolean
+ *                     sms:
+ *                       type: boolean
+ *                     push:
+ *                       type: boolean
+ *               quietHours:
+ *                 type: object
+ *                 nullable: true
+ *                 properties:
+ *                   start:
+ *                     type: string
+ *                     example: "22:00"
+ *                   end:
+ *                     type: string
+ *                     example: "07:00"
+ *               phoneNumber:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "+4915112345678"
+ *     responses:
+ *       200:
+ *         description: Updated preferences
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ */
+router.put(
+  '/preferences',
+  authenticate,
+  [
+    body('types').optional().isArray().withMessage('types must be a list'),
+    body('types.*.type')
+      .isIn(NOTIFICATION_TYPES)
+      .withMessage(`Type must be one of ${NOTIFICATION_TYPES.join(', ')}`),
+    body(['types.*.email', 'types.*.sms', 'types.*.push'])
+      .optional()
+      .isBoolean()
+      .toBoolean()
+      .withMessage('Channel settings must be true or false'),
+    body('quietHours').optional({ values: 'null' }).isObject().withMessage('quietHours must be an object'),
+    body(['quietHours.start', 'quietHours.end'])
+      .if(body('quietHours').exists({ values: 'null' }))
+      .custom((value: string) => isTimeOfDay(value))
+      .withMessage('Quiet hours must be in HH:mm format'),
+    body('phoneNumber')
+      .optional({ values: 'null' })
+      .matches(/^\+[1-9]\d{6,14}$/)
+      .withMessage('Phone number must be in international format, e.g. +4915112345678'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const { types = [], quietHours, phoneNumber } = req.body;
+
+      await prisma.$transaction([
+        ...types.map((preference: { type: string; email?: boolean; sms?: boolean; push?: boolean }) =>
+          prisma.notificationPreference.upsert({
+            where: {
+              userId_type: { userId, type: preference.type },
+            },
+            create: {
+              userId,
+              type: preference.type,
+              email: preference.email,
+              sms: preference.sms,
+              push: preference.push,
+            },
+            update: {
+              email: preference.email,
+              sms: preference.sms,
+              push: preference.push,
+            },
+          })
+        ),
+        prisma.user.update({
+          where: { id: userId },
+          data: {
+            phoneNumber,
+            ...(quietHours !== undefined
+              ? {
+                  quietHoursStart: quietHours ? quietHours.start : null,
+                  quietHoursEnd: quietHours ? quietHours.end : null,
+                }
+              : {}),
+          },
+        }),
+      ]);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notification preferences updated successfully',
+        data: await getNotificationPreferences(userId),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/notifications/push-public-key:
+ *   get:
+ *     summary: Get the VAPID public key for subscribing to web push
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The public key, or null when web push is not configured
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/push-public-key', authenticate, (req, res) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      publicKey: process.env.VAPID_PUBLIC_KEY || null,
+    },
+  });
+});
+
+/**
+ * @swagger
+ * /api/notifications/push-subscriptions:
+ *   post:
+ *     summary: Register a browser for web push
+ *     description: >
+ *       Takes the browser's PushSubscription as JSON. Re-registering an
+ *       endpoint updates its keys.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - endpoint
+ *               - keys
+ *             properties:
+ *               endpoint:
+ *                 type: string
+ *               keys:
+ *                 type: object
+ *                 properties:
+ *                   p256dh:
+ *                     type: string
+ *                   auth:
+ *                     type: string
+ *     responses:
+ *       201:
+ *         description: Subscription saved
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ */
+router.post(
+  '/push-subscriptions',
+  authenticate,
+  [
+    body('endpoint')
+      .isURL({ protocols: ['https'], require_protocol: true })
+      .withMessage('endpoint must be an https URL'),
+    body('keys.p256dh').isString().notEmpty().withMessage('keys.p256dh is required'),
+    body('keys.auth').isString().notEmpty().withMessage('keys.auth is required'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const { endpoint, keys } = req.body;
+      const subscription = {
+        userId: req.user!.id,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userAgent: req.get('user-agent') || null,
+      };
+
+      const saved = await prisma.pushSubscription.upsert({
+        where: { endpoint },
+        create: { endpoint, ...subscription },
+        update: subscription,
+        select: {
+          id: true,
+          endpoint: true,
+          userAgent: true,
+          createdAt: true,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Push subscription saved',
+        data: saved,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/notifications/push-subscriptions:
+ *   delete:
+ *     summary: Unregister a browser from web push
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - endpoint
+ *             properties:
+ *               endpoint:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Subscription removed
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Subscription not found
+ */
+router.delete(
+  '/push-subscriptions',
+  authenticate,
+  [body('endpoint').isString().notEmpty().withMessage('endpoint is required'), validate],
+  async (req, res, next) => {
+    try {
+      const { count } = await prisma.pushSubscription.deleteMany({
+        where: {
+          endpoint: req.body.endpoint,
+          userId: req.user!.id,
+        },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Push subscription not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Push subscription removed',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const deliverySelect = {
+  id: true,
+  channel: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+};
+
+/**
+ * @swagger
+ * /api/notifications/deliveries:
+ *   get:
+ *     summary: Delivery log for the current user's notifications
+ *     description: >
+ *       One entry per notification and channel. PENDING entries are waiting
+ *       for their first attempt, a retry or the end of quiet hours.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, SENT, FAILED, SKIPPED]
+ *     responses:
+ *       200:
+ *         description: A page of deliveries, newest first
+ *       401:
+ *         description: Not authenticated
+ */
+router.get(
+  '/deliveries',
+  authenticate,
+  [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .toInt()
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .toInt()
+      .withMessage('Limit must be between 1 and 100'),
+    query('status')
+      .optional()
+      .isIn(['PENDING', 'SENT', 'FAILED', 'SKIPPED'])
+      .withMessage('Status must be PENDING, SENT, FAILED or SKIPPED'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+
+      const where = {
+        notification: { userId: req.user!.id },
+        ...(req.query.status ? { status: req.query.status as string } : {}),
+      };
+
+      const [deliveries, total] = await Promise.all([
+        prisma.notificationDelivery.findMany({
+          where,
+          select: {
+            ...deliverySelect,
+            notification: {
+              select: {
+                id: true,
+                type: true,
+                content: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.notificationDelivery.count({ where }),
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: deliveries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/notifications/{id}/read:
+ *   put:
+ *     summary: Mark a notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notification marked as read
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Notification not found
+ */
+router.put(
+  '/:id/read',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid notification ID'), validate],
+  async (req, res, next) => {
+    try {
+      const { count } = await prisma.notification.updateMany({
+        where: {
+          id: req.params.id,
+          userId: req.user!.id,
+        },
+        data: {
+          isRead: true,
+        },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Notification not found',
+          error: 'Not Found',
+        });
+      }
+
+      const notification = await prisma.notification.findUniqueOrThrow({
+        where: { id: req.params.id },
+      });
+      const [enriched] = await enrichNotifications([notification]);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notification marked as read',
+        data: enriched,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/notifications/{id}/deliveries:
+ *   get:
+ *     summary: Delivery status of a notification on each channel
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Deliveries of the notification
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Notification not found
+ */
+router.get(
+  '/:id/deliveries',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid notification ID'), validate],
+  async (req, res, next) => {
+    try {
+      const notification = await prisma.notification.findFirst({
+        where: {
+          id: req.params.id,
+          userId: req.user!.id,
+        },
+        select: {
+          id: true,
+          dispatchedAt: true,
+          deliveries: {
+            select: deliverySelect,
+            orderBy: {
+              createdAt: 'asc',
+            },
+          },
+        },
+      });
+
+      if (!notification) {
+        return res.status(404).json({
+          success: false,
+          message: 'Notification not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: notification,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/notifications/{id}:
+ *   delete:
+ *     summary: Delete a notification
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notification deleted
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Notification not found
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid notification ID'), validate],
+  async (req, res, next) => {
+    try {
+      const { count } = await prisma.notification.deleteMany({
+        where: {
+          id: req.params.id,
+          userId: req.user!.id,
+        },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Notification not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Notification deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,543 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
+import {
+  bandFromBody,
+  bandFromQuery,
+  bandOfPoll,
+  requireBandPermission,
+} from '../middlewares/permission';
+import { validate } from '../middlewares/validate';
+import {
+  MAX_POLL_OPTIONS,
+  POLL_TYPES,
+  castVote,
+  closePoll,
+  createPoll,
+  deletePoll,
+  getPoll,
+  listPolls,
+  schedulePollRehearsal,
+} from '../services/poll.service';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /api/polls:
+ *   get:
+ *     summary: List a band's polls
+ *     description: Newest first, each with its results and your own votes.
+ *     tags: [Polls]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, closed]
+ *     responses:
+ *       200:
+ *         description: Polls with results
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ */
+router.get(
+  '/',
+  authenticate,
+  [
+    query('bandId').isUUID().withMessage('Valid band ID is required'),
+    query('status').optional().isIn(['open', 'closed']).withMessage('Status must be open or closed'),
+    validate,
+  ],
+  requireBandPermission(bandFromQuery()),
+  async (req, res, next) => {
+    try {
+      const polls = await listPolls(req.query.bandId as string, req.user!.id, {
+        status: req.query.status as 'open' | 'closed' | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: polls,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/polls:
+ *   post:
+ *     summary: Create a poll
+ *     description: >
+ *       Any member can create polls; the band's other members are notified.
+ *       SINGLE polls take one choice, MULTIPLE polls up to maxChoices. In a
+ *       DATE poll the options are candidate rehearsal times and members
+ *       pick every one that works for them; labels default to the time in
+ *       your timezone.
+ *     tags: [Polls]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bandId
+ *               - question
+ *               - type
+ *               - options
+ *             properties:
+ *               bandId:
+ *                 type: string
+ *               question:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [SINGLE, MULTIPLE, DATE]
+ *               maxChoices:
+ *                 type: integer
+ *                 description: MULTIPLE polls only; omit for no limit
+ *               isAnonymous:
+ *                 type: boolean
+ *                 default: false
+ *               deadline:
+ *                 type: string
+ *                 format: date-time
+ *               options:
+ *                 type: array
+ *                 minItems: 2
+ *                 maxItems: 50
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     label:
+ *                       type: string
+ *                     startDatetime:
+ *                       type: string
+ *                       format: date-time
+ *                     endDatetime:
+ *                       type: string
+ *                       format: date-time
+ *     responses:
+ *       201:
+ *         description: Poll created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ */
+router.post(
+  '/',
+  authenticate,
+  [
+    body('bandId').isUUID().withMessage('Valid band ID is required'),
+    body('question')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 300 })
+      .withMessage('Question must be between 1 and 300 characters'),
+    body('description')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Description must be a string'),
+    body('type').isIn(POLL_TYPES).withMessage(`Type must be one of ${POLL_TYPES.join(', ')}`),
+    body('maxChoices')
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .toInt()
+      .withMessage('maxChoices must be a positive number'),
+    body('isAnonymous').optional().isBoolean().toBoolean().withMessage('isAnonymous must be a boolean'),
+    body('deadline')
+      .optional({ values: 'null' })
+      .isISO8601()
+      .toDate()
+      .withMessage('Deadline must be a valid date/time'),
+    body('options')
+      .isArray({ min: 2, max: MAX_POLL_OPTIONS })
+      .withMessage(`A poll needs between 2 and ${MAX_POLL_OPTIONS} options`),
+    body('options.*.label')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Each option label must be between 1 and 200 characters'),
+    body('options.*.startDatetime')
+      .optional()
+      .isISO8601()
+      .toDate()
+      .withMessage('startDatetime must be a valid date/time'),
+    body('options.*.endDatetime')
+      .optional()
+      .isISO8601()
+      .toDate()
+      .withMessage('endDatetime must be a valid date/time'),
+    validate,
+  ],
+  requireBandPermission(bandFromBody()),
+  async (req, res, next) => {
+    try {
+      const creator = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { timezone: true },
+      });
+
+      const poll = await createPoll(
+        {
+          bandId: req.body.bandId,
+          question: req.body.question,
+          description: req.body.description,
+          type: req.body.type,
+          maxChoices: req.body.maxChoices,
+          isAnonymous: req.body.isAnonymous,
+          deadline: req.body.deadline,
+          options: req.body.options.map((option: Record<string, any>) => ({
+            label: option.label,
+            startDatetime: option.startDatetime,
+            endDatetime: option.endDatetime,
+          })),
+          timezone: creator?.timezone,
+        },
+        req.user!
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Poll created successfully',
+        data: poll,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/polls/{id}:
+ *   get:
+ *     summary: Get a poll with its results
+ *     description: >
+ *       Votes and share of voters per option, the winning option(s) and your
+ *       own votes. Named polls list who voted for each option.
+ *     tags: [Polls]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Poll with results
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Poll not found
+ */
+router.get(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid poll ID'), validate],
+  requireBandPermission(bandOfPoll()),
+  async (req, res, next) => {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await getPoll(req.params.id, req.user!.id),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/polls/{id}:
+ *   delete:
+ *     summary: Delete a poll
+ *     description: Allowed for whoever created the poll and members with MANAGE_POLLS.
+ *     tags: [Polls]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Poll deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage other members' polls (MANAGE_POLLS)
+ *       404:
+ *         description: Poll not found
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid poll ID'), validate],
+  requireBandPermission(bandOfPoll()),
+  async (req, res, next) => {
+    try {
+      await deletePoll(req.params.id, req.bandAccess!);
+
+      res.status(200).json({
+        success: true,
+        message: 'Poll deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/polls/{id}/votes:
+ *   put:
+ *     summary: Vote in a poll
+ *     description: >
+ *       Replaces your earlier vote while the poll is open. An empty list
+ *       withdraws it.
+ *     tags: [Polls]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - optionIds
+ *             properties:
+ *               optionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Poll with updated results
+ *       400:
+ *         description: Validation error, too many options or the poll is closed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Poll not found
+ *       409:
+ *         description: Another vote of yours was saved at the same time; try again
+ */
+router.put(
+  '/:id/votes',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid poll ID'),
+    body('optionIds')
+      .isArray({ max: MAX_POLL_OPTIONS })
+      .withMessage('optionIds must be a list of option IDs'),
+    body('optionIds.*').isUUID().withMessage('Invalid option ID'),
+    validate,
+  ],
+  requireBandPermission(bandOfPoll()),
+  async (req, res, next) => {
+    try {
+      const poll = await castVote(req.params.id, req.user!.id, req.body.optionIds);
+
+      res.status(200).json({
+        success: true,
+        message: poll.myVotes.length > 0 ? 'Vote recorded' : 'Vote withdrawn',
+        data: poll,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/polls/{id}/close:
+ *   post:
+ *     summary: Close a poll before its deadline
+ *     description: Allowed for whoever created the poll and members with MANAGE_POLLS.
+ *     tags: [Polls]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Poll closed, with its final results
+ *       400:
+ *         description: The poll is already closed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage other members' polls (MANAGE_POLLS)
+ *       404:
+ *         description: Poll not found
+ */
+router.post(
+  '/:id/close',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid poll ID'), validate],
+  requireBandPermission(bandOfPoll()),
+  async (req, res, next) => {
+    try {
+      const poll = await closePoll(req.params.id, req.bandAccess!);
+
+      res.status(200).json({
+        success: true,
+        message: 'Poll closed',
+        data: poll,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/polls/{id}/rehearsal:
+ *   post:
+ *     summary: Schedule the winning time of a date poll
+ *     description: >
+ *       Creates a rehearsal at the winning slot of a closed DATE poll (the
+ *       earliest one on a tie), or at optionId, exactly like POST
+ *       /api/rehearsals. Allowed for the poll's creator while they can
+ *       schedule rehearsals and members with MANAGE_REHEARSALS.
+ *     tags: [Polls]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               optionId:
+ *                 type: string
+ *                 description: Another option to schedule instead of the winner
+ *               title:
+ *                 type: string
+ *                 description: Defaults to the poll's question
+ *               description:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *                 description: Required without venueId
+ *               venueId:
+ *                 type: string
+ *               overrideConflicts:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Rehearsal created
+ *       400:
+ *         description: Not a closed date poll, no votes, or the time has passed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to schedule the poll's rehearsal
+ *       404:
+ *         description: Poll or venue not found
+ *       409:
+ *         description: Already scheduled, or the time clashes (see POST /api/rehearsals)
+ */
+router.post(
+  '/:id/rehearsal',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid poll ID'),
+    body('optionId').optional().isUUID().withMessage('Invalid option ID'),
+    body('title')
+      .optional()
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Title must not be empty'),
+    body('description').optional().isString().withMessage('Description must be a string'),
+    body('location').optional().isString().withMessage('Location must be a string'),
+    body('venueId').optional({ values: 'null' }).isUUID().withMessage('Invalid venue ID'),
+    body('overrideConflicts').optional().isBoolean().toBoolean().withMessage('overrideConflicts must be a boolean'),
+    validate,
+  ],
+  requireBandPermission(bandOfPoll(), 'SCHEDULE_REHEARSALS'),
+  async (req, res, next) => {
+    try {
+      const { rehearsal, conflicts, poll } = await schedulePollRehearsal(
+        req.params.id,
+        req.bandAccess!,
+        {
+          optionId: req.body.optionId,
+          title: req.body.title,
+          description: req.body.description,
+          location: req.body.location,
+          venueId: req.body.venueId,
+        },
+        { overrideConflicts: req.body.overrideConflicts }
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Rehearsal created successfully',
+        data: {
+          ...rehearsal,
+          poll,
+          ...(conflicts.length > 0 && { conflicts }),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
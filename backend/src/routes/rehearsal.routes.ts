@@ -2,7 +2,43 @@ import express from 'express';
 import { body, param, query } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticate } from '../middlewares/auth';
+import {
+  bandFromBody,
+  bandFromQuery,
+  bandOfRehearsal,
+  requireBandPermission,
+} from '../middlewares/permission';
+import { singleFileUpload } from '../middlewares/upload';
 import { validate } from '../middlewares/validate';
+import {
+  MATERIAL_TYPES,
+  MAX_MATERIAL_BYTES,
+  createMaterial,
+  materialSelect,
+} from '../services/material.service';
+import { rsvpUpdate } from '../services/attendance.service';
+import {
+  CHECK_IN_STATUSES,
+  createCheckInCode,
+  getCheckInCode,
+  markAttendance,
+  selfCheckIn,
+} from '../services/checkIn.service';
+import { notifyUsers } from '../services/notification.service';
+import { canManageRehearsal, canTakeAttendance } from '../services/permission.service';
+import { findSetlist, planSetlistForRehearsal, setlistInclude } from '../services/setlist.service';
+import { suggestRehearsalTimes } from '../services/scheduling.service';
+import {
+  EDIT_SCOPES,
+  cancelRehearsal,
+  createRehearsal,
+  findRehearsalsForUser,
+  updateRehearsal,
+} from '../services/rehearsal.service';
+import { publishBandUpdate } from '../services/realtime.service';
+import { rateVenue } from '../services/venue.service';
+import { parseRecurrencePattern } from '../utils/recurrence';
+import { isValidTimeZone } from '../utils/time';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -26,7 +62,6 @@ const prisma = new PrismaClient();
  *               - title
  *               - startDatetime
  *               - endDatetime
- *               - location
  *             properties:
  *               bandId:
  *                 type: string
@@ -42,10 +77,33 @@ const prisma = new PrismaClient();
  *                 format: date-time
  *               location:
  *                 type: string
+ *                 description: Required without venueId; defaults to the venue's name
+ *               venueId:
+ *                 type: string
+ *                 description: One of the band's venues or a shared one
  *               isRecurring:
  *                 type: boolean
  *               recurrencePattern:
- *                 type: object
+ *                 description: >
+ *                   Required when isRecurring is true. Either an RRULE string
+ *                   (e.g. "FREQ=WEEKLY;BYDAY=TU;COUNT=10") or an object with
+ *                   frequency (DAILY, WEEKLY, MONTHLY), interval, byDay,
+ *                   count or until, and exceptionDates (YYYY-MM-DD).
+ *                   startDatetime/endDatetime set the time of day, duration
+ *                   and earliest date of the occurrences. Series without
+ *                   count are created about six months ahead and extended
+ *                   as time passes.
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: object
+ *               timezone:
+ *                 type: string
+ *                 description: >
+ *                   IANA timezone the series keeps its wall-clock time in
+ *                   (defaults to the creator's timezone)
+ *               overrideConflicts:
+ *                 type: boolean
+ *                 description: Create the rehearsal even if it clashes with others
  *     responses:
  *       201:
  *         description: Rehearsal created successfully
@@ -55,6 +113,14 @@ const prisma = new PrismaClient();
  *         description: Not authenticated
  *       403:
  *         description: Not authorized to create rehearsals
+ *       404:
+ *         description: Venue not found
+ *       409:
+ *         description: >
+ *           Clashes with rehearsals of the band, at the same location, or of
+ *           other bands its members play in, or with members' imported
+ *           calendars or blackout dates. The conflicts are listed in
+ *           errors; other bands' rehearsals only with their times.
  */
 router.post(
   '/',
@@ -64,11 +130,29 @@ router.post(
     body('title').notEmpty().withMessage('Title is required'),
     body('startDatetime').isISO8601().toDate().withMessage('Valid start date/time is required'),
     body('endDatetime').isISO8601().toDate().withMessage('Valid end date/time is required'),
-    body('location').notEmpty().withMessage('Location is required'),
+    body('location')
+      .if(body('venueId').not().exists({ values: 'null' }))
+      .notEmpty()
+      .withMessage('Location is required when no venue is given'),
+    body('venueId').optional({ values: 'null' }).isUUID().withMessage('Invalid venue ID'),
     body('description').optional().isString().withMessage('Description must be a string'),
     body('isRecurring').optional().isBoolean().withMessage('isRecurring must be a boolean'),
+    body('recurrencePattern')
+      .if(body('isRecurring').equals('true'))
+      .exists({ values: 'null' })
+      .withMessage('recurrencePattern is required for recurring rehearsals')
+      .bail()
+      .custom((value) => Boolean(parseRecurrencePattern(value)))
+      .bail()
+      .customSanitizer((value) => parseRecurrencePattern(value)),
+    body('timezone')
+      .optional()
+      .custom((value: string) => isValidTimeZone(value))
+      .withMessage('Timezone must be a valid IANA timezone'),
+    body('overrideConflicts').optional().isBoolean().toBoolean().withMessage('overrideConflicts must be a boolean'),
     validate,
   ],
+  requireBandPermission(bandFromBody(), 'SCHEDULE_REHEARSALS'),
   async (req, res, next) => {
     try {
       const { 
@@ -78,27 +162,13 @@ router.post(
         startDatetime, 
         endDatetime, 
         location,
+        venueId,
         isRecurring = false,
-        recurrencePattern = null
+        recurrencePattern = null,
+        timezone,
+        overrideConflicts = false,
       } = req.body;
 
-      // Check if user is a band member
-      const userMembership = await prisma.bandMember.findFirst({
-        where: {
-          bandId,
-          userId: req.user!.id,
-          status: 'ACTIVE',
-        },
-      });
-
-      if (!userMembership) {
-        return res.status(403).json({
-          success: false,
-          message: 'You must be a band member to create rehearsals',
-          error: 'Forbidden',
-        });
-      }
-
       // Validate times
       if (new Date(startDatetime) >= new Date(endDatetime)) {
         return res.status(400).json({
@@ -108,56 +178,38 @@ router.post(
         });
       }
 
-      // Create rehearsal
-      const rehearsal = await prisma.rehearsal.create({
-        data: {
+      // Default recurring series to the creator's timezone
+      const creator = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { timezone: true },
+      });
+
+      const { rehearsals, series, conflicts } = await createRehearsal(
+        {
           bandId,
           title,
           description,
           startDatetime: new Date(startDatetime),
           endDatetime: new Date(endDatetime),
           location,
-          isRecurring,
-          recurrencePattern: recurrencePattern ? JSON.stringify(recurrencePattern) : null,
+          venueId,
           createdById: req.user!.id,
+          recurrence: isRecurring ? recurrencePattern : null,
+          timezone: timezone || creator?.timezone,
         },
-      });
-
-      // Create attendance records for all band members
-      const bandMembers = await prisma.bandMember.findMany({
-        where: {
-          bandId,
-          status: 'ACTIVE',
-        },
-        select: {
-          userId: true,
-        },
-      });
-
-      await prisma.rehearsalAttendance.createMany({
-        data: bandMembers.map((member) => ({
-          rehearsalId: rehearsal.id,
-          userId: member.userId,
-          status: 'PENDING',
-        })),
-      });
-
-      // Create notifications for all band members
-      await prisma.notification.createMany({
-        data: bandMembers
-          .filter((member) => member.userId !== req.user!.id) // Don't notify creator
-          .map((member) => ({
-            userId: member.userId,
-            type: 'NEW_REHEARSAL',
-            content: `New rehearsal: ${title}`,
-            relatedId: rehearsal.id,
-          })),
-      });
+        { overrideConflicts }
+      );
 
       res.status(201).json({
         success: true,
-        message: 'Rehearsal created successfully',
-        data: rehearsal,
+        message: series
+          ? `Recurring rehearsal created with ${rehearsals.length} occurrences`
+          : 'Rehearsal created successfully',
+        data: {
+          ...rehearsals[0],
+          ...(series && { series: { ...series, occurrences: rehearsals } }),
+          ...(conflicts.length > 0 && { conflicts }),
+        },
       });
     } catch (error) {
       next(error);
@@ -217,75 +269,137 @@ router.get(
     try {
       const { bandId, upcoming, past, start, end } = req.query;
 
-      // Get bands where the user is a member
-      const userBands = await prisma.bandMember.findMany({
-        where: {
-          userId: req.user!.id,
-          status: 'ACTIVE',
-          ...(bandId && { bandId: bandId as string }),
-        },
-        select: {
-          bandId: true,
-        },
+      const rehearsals = await findRehearsalsForUser(req.user!.id, {
+        bandId: bandId as string | undefined,
+        upcoming: upcoming === 'true',
+        past: past === 'true',
+        start: start ? new Date(start as string) : undefined,
+        end: end ? new Date(end as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: rehearsals,
       });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/rehearsals/suggested-times:
+ *   get:
+ *     summary: Get suggested rehearsal times for a band
+ *     description: >
+ *       Ranks candidate slots using members' declared availability, their
+ *       rehearsals in all of their bands and their past attendance.
+ *     tags: [Rehearsals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the search range (defaults to now)
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the search range (defaults to 14 days after start)
+ *       - in: query
+ *         name: duration
+ *         schema:
+ *           type: integer
+ *           default: 120
+ *         description: Desired rehearsal length in minutes
+ *       - in: query
+ *         name: requiredMembers
+ *         schema:
+ *           type: string
+ *         description: >
+ *           Comma-separated user IDs who must be able to attend; each must
+ *           be an active member of the band
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *     responses:
+ *       200:
+ *         description: Ranked list of suggested times
+ *       400:
+ *         description: Validation error or a required member isn't in the band
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of this band
+ */
+router.get(
+  '/suggested-times',
+  authenticate,
+  [
+    query('bandId').isUUID().withMessage('Valid band ID is required'),
+    query('start').optional().isISO8601().withMessage('Invalid start date'),
+    query('end').optional().isISO8601().withMessage('Invalid end date'),
+    query('duration')
+      .optional()
+      .isInt({ min: 15, max: 720 })
+      .withMessage('Duration must be between 15 and 720 minutes'),
+    query('requiredMembers')
+      .optional()
+      .customSanitizer((value) => String(value).split(',').map((id) => id.trim())),
+    query('requiredMembers.*').isUUID().withMessage('requiredMembers must be a list of user IDs'),
+    query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20'),
+    validate,
+  ],
+  requireBandPermission(bandFromQuery()),
+  async (req, res, next) => {
+    try {
+      const { bandId, start, end, duration, requiredMembers, limit } = req.query;
 
-      if (userBands.length === 0) {
-        return res.status(200).json({
-          success: true,
-          data: [],
+      const rangeStart = start ? new Date(start as string) : new Date();
+      const rangeEnd = end
+        ? new Date(end as string)
+        : new Date(rangeStart.getTime() + 14 * 24 * 60 * 60 * 1000);
+
+      if (rangeStart >= rangeEnd) {
+        return res.status(400).json({
+          success: false,
+          message: 'End of range must be after start of range',
+          error: 'Bad Request',
         });
       }
 
-      // Build query filters
-      const bandIds = userBands.map((band) => band.bandId);
-
-      const dateFilter: any = {};
-      const now = new Date();
-
-      if (upcoming === 'true') {
-        dateFilter.startDatetime = { gte: now };
-      } else if (past === 'true') {
-        dateFilter.endDatetime = { lt: now };
-      } else if (start && end) {
-        dateFilter.AND = [
-          { startDatetime: { gte: new Date(start as string) } },
-          { endDatetime: { lte: new Date(end as string) } },
-        ];
+      if (rangeEnd.getTime() - rangeStart.getTime() > 62 * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({
+          success: false,
+          message: 'Search range cannot exceed 62 days',
+          error: 'Bad Request',
+        });
       }
 
-      // Get rehearsals
-      const rehearsals = await prisma.rehearsal.findMany({
-        where: {
-          bandId: { in: bandIds },
-          ...dateFilter,
-        },
-        include: {
-          band: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-          _count: {
-            select: { attendances: true },
-          },
-          attendances: {
-            where: {
-              userId: req.user!.id,
-            },
-            select: {
-              status: true,
-            },
-          },
-        },
-        orderBy: {
-          startDatetime: upcoming === 'true' ? 'asc' : 'desc',
-        },
+      const suggestedTimes = await suggestRehearsalTimes({
+        bandId: bandId as string,
+        rangeStart,
+        rangeEnd,
+        durationMinutes: duration ? Number(duration) : 120,
+        requiredMemberIds: (requiredMembers as string[] | undefined) || [],
+        limit: limit ? Number(limit) : undefined,
       });
 
       res.status(200).json({
         success: true,
-        data: rehearsals,
+        data: suggestedTimes,
       });
     } catch (error) {
       next(error);
@@ -324,24 +438,17 @@ router.get(
     param('id').isUUID().withMessage('Invalid rehearsal ID'),
     validate,
   ],
+  requireBandPermission(bandOfRehearsal()),
   async (req, res, next) => {
     try {
       const { id } = req.params;
 
       // Get rehearsal with band info
-      const rehearsal = await prisma.rehearsal.findUnique({
+      const rehearsal = await prisma.rehearsal.findUniqueOrThrow({
         where: { id },
         include: {
-          band: {
-            include: {
-              members: {
-                where: {
-                  userId: req.user!.id,
-                  status: 'ACTIVE',
-                },
-              },
-            },
-          },
+          band: true,
+          venue: true,
           attendances: {
             include: {
               user: {
@@ -354,30 +461,15 @@ router.get(
               },
             },
           },
-          materials: true,
+          materials: {
+            select: materialSelect,
+          },
         },
       });
 
-      if (!rehearsal) {
-        return res.status(404).json({
-          success: false,
-          message: 'Rehearsal not found',
-          error: 'Not Found',
-        });
-      }
-
-      // Check if user is a band member
-      if (rehearsal.band.members.length === 0) {
-        return res.status(403).json({
-          success: false,
-          message: 'You are not authorized to view this rehearsal',
-          error: 'Forbidden',
-        });
-      }
-
       res.status(200).json({
         success: true,
-        data: rehearsal,
+        data: { ...rehearsal, canManage: canManageRehearsal(req.bandAccess!, rehearsal) },
       });
     } catch (error) {
       next(error);
@@ -387,9 +479,15 @@ router.get(
 
 /**
  * @swagger
- * /api/rehearsals/{id}/attendance:
+ * /api/rehearsals/{id}:
  *   put:
- *     summary: Update attendance status for a rehearsal
+ *     summary: Update or reschedule a rehearsal
+ *     description: >
+ *       For rehearsals that belong to a recurring series, scope selects
+ *       whether the change applies to this occurrence only, this and the
+ *       following occurrences, or every upcoming occurrence of the series.
+ *       Changing the time resets everyone's attendance to PENDING. Members
+ *       are notified of every change.
  *     tags: [Rehearsals]
  *     security:
  *       - bearerAuth: []
@@ -405,106 +503,111 @@ router.get(
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - status
  *             properties:
- *               status:
+ *               title:
  *                 type: string
- *                 enum: [ATTENDING, NOT_ATTENDING, MAYBE, PENDING]
- *               comment:
+ *               description:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *               venueId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: >
+ *                   Venue to move to (the location becomes its name unless
+ *                   given), or null to keep only the location text
+ *               startDatetime:
+ *                 type: string
+ *                 format: date-time
+ *               endDatetime:
  *                 type: string
+ *                 format: date-time
+ *               scope:
+ *                 type: string
+ *                 enum: [THIS, FOLLOWING, ALL]
+ *                 default: THIS
+ *               overrideConflicts:
+ *                 type: boolean
+ *                 description: Save the move even if it clashes with other rehearsals
  *     responses:
  *       200:
- *         description: Attendance updated successfully
+ *         description: Rehearsal updated successfully
  *       400:
- *         description: Validation error
+ *         description: Validation error or rehearsal is cancelled
  *       401:
  *         description: Not authenticated
+ *       403:
+ *         description: Not authorized to edit this rehearsal
  *       404:
- *         description: Rehearsal or attendance record not found
+ *         description: Rehearsal or venue not found
+ *       409:
+ *         description: >
+ *           The new time, venue or location clashes with other rehearsals,
+ *           imported calendars or blackout dates
  */
 router.put(
-  '/:id/attendance',
+  '/:id',
   authenticate,
   [
     param('id').isUUID().withMessage('Invalid rehearsal ID'),
-    body('status')
-      .isIn(['ATTENDING', 'NOT_ATTENDING', 'MAYBE', 'PENDING'])
-      .withMessage('Status must be one of: ATTENDING, NOT_ATTENDING, MAYBE, PENDING'),
-    body('comment').optional().isString().withMessage('Comment must be a string'),
+    body('title').optional().notEmpty().withMessage('Title cannot be empty'),
+    body('description').optional({ values: 'null' }).isString().withMessage('Description must be a string'),
+    body('location').optional().notEmpty().withMessage('Location cannot be empty'),
+    body('venueId').optional({ values: 'null' }).isUUID().withMessage('Invalid venue ID'),
+    body('startDatetime').optional().isISO8601().toDate().withMessage('Invalid start date/time'),
+    body('endDatetime').optional().isISO8601().toDate().withMessage('Invalid end date/time'),
+    body('scope')
+      .optional()
+      .isIn(EDIT_SCOPES)
+      .withMessage(`Scope must be one of: ${EDIT_SCOPES.join(', ')}`),
+    body('overrideConflicts').optional().isBoolean().toBoolean().withMessage('overrideConflicts must be a boolean'),
     validate,
   ],
+  requireBandPermission(bandOfRehearsal()),
   async (req, res, next) => {
     try {
       const { id } = req.params;
-      const { status, comment } = req.body;
+      const {
+        title,
+        description,
+        location,
+        venueId,
+        startDatetime,
+        endDatetime,
+        scope = 'THIS',
+        overrideConflicts = false,
+      } = req.body;
 
-      // Find attendance record
-      const attendance = await prisma.rehearsalAttendance.findFirst({
-        where: {
-          rehearsalId: id,
-          userId: req.user!.id,
-        },
-        include: {
-          rehearsal: {
-            select: {
-              title: true,
-              bandId: true,
-            },
-          },
-        },
+      const rehearsal = await prisma.rehearsal.findUniqueOrThrow({
+        where: { id },
       });
 
-      if (!attendance) {
-        return res.status(404).json({
+      if (!canManageRehearsal(req.bandAccess!, rehearsal)) {
+        return res.status(403).json({
           success: false,
-          message: 'Attendance record not found',
-          error: 'Not Found',
+          message: "Only the creator or members who manage the band's rehearsals can edit this rehearsal",
+          error: 'Forbidden',
         });
       }
 
-      // Update attendance
-      const updatedAttendance = await prisma.rehearsalAttendance.update({
-        where: {
-          id: attendance.id,
-        },
-        data: {
-          status,
-          comment,
-          updatedAt: new Date(),
-        },
-      });
-
-      // Notify band leader if user is not attending
-      if (status === 'NOT_ATTENDING') {
-        // Find band leader
-        const bandLeader = await prisma.bandMember.findFirst({
-          where: {
-            bandId: attendance.rehearsal.bandId,
-            role: 'LEADER',
-            status: 'ACTIVE',
-          },
-          select: {
-            userId: true,
-          },
-        });
-
-        if (bandLeader && bandLeader.userId !== req.user!.id) {
-          await prisma.notification.create({
-            data: {
-              userId: bandLeader.userId,
-              type: 'ATTENDANCE_UPDATE',
-              content: `${req.user!.name} can't attend ${attendance.rehearsal.title}`,
-              relatedId: id,
-            },
-          });
-        }
-      }
+      const { rehearsals: updated, conflicts } = await updateRehearsal(
+        rehearsal,
+        { title, description, location, venueId, startDatetime, endDatetime },
+        scope,
+        { overrideConflicts, actorId: req.user!.id }
+      );
 
       res.status(200).json({
         success: true,
-        message: 'Attendance updated successfully',
-        data: updatedAttendance,
+        message:
+          updated.length > 1
+            ? `${updated.length} rehearsals updated successfully`
+            : 'Rehearsal updated successfully',
+        data: {
+          ...updated.find((item) => item.id === id),
+          ...(updated.length > 1 && { updatedOccurrences: updated }),
+          ...(conflicts.length > 0 && { conflicts }),
+        },
       });
     } catch (error) {
       next(error);
@@ -514,120 +617,881 @@ router.put(
 
 /**
  * @swagger
- * /api/rehearsals/suggested-times:
- *   get:
- *     summary: Get suggested rehearsal times for a band
+ * /api/rehearsals/{id}/cancel:
+ *   post:
+ *     summary: Cancel a rehearsal
+ *     description: >
+ *       Soft-cancels the rehearsal, keeping it (and its attendance) for
+ *       history. For recurring series, scope selects which occurrences are
+ *       cancelled; FOLLOWING and ALL also end the series, so no further
+ *       occurrences are created. Members are notified.
  *     tags: [Rehearsals]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: query
- *         name: bandId
+ *       - in: path
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *               scope:
+ *                 type: string
+ *                 enum: [THIS, FOLLOWING, ALL]
+ *                 default: THIS
  *     responses:
  *       200:
- *         description: List of suggested times
+ *         description: Rehearsal cancelled successfully
  *       400:
- *         description: Validation error
+ *         description: Validation error or already cancelled
  *       401:
  *         description: Not authenticated
  *       403:
- *         description: Not a member of this band
+ *         description: Not authorized to cancel this rehearsal
+ *       404:
+ *         description: Rehearsal not found
  */
-router.get(
-  '/suggested-times',
+router.post(
+  '/:id/cancel',
   authenticate,
   [
-    query('bandId').isUUID().withMessage('Valid band ID is required'),
+    param('id').isUUID().withMessage('Invalid rehearsal ID'),
+    body('reason').optional().isString().withMessage('Reason must be a string'),
+    body('scope')
+      .optional()
+      .isIn(EDIT_SCOPES)
+      .withMessage(`Scope must be one of: ${EDIT_SCOPES.join(', ')}`),
     validate,
   ],
+  requireBandPermission(bandOfRehearsal()),
   async (req, res, next) => {
     try {
-      const { bandId } = req.query;
+      const { id } = req.params;
+      const { reason, scope = 'THIS' } = req.body;
 
-      // Check if user is a band member
-      const userMembership = await prisma.bandMember.findFirst({
-        where: {
-          bandId: bandId as string,
-          userId: req.user!.id,
-          status: 'ACTIVE',
-        },
+      const rehearsal = await prisma.rehearsal.findUniqueOrThrow({
+        where: { id },
       });
 
-      if (!userMembership) {
+      if (!canManageRehearsal(req.bandAccess!, rehearsal)) {
         return res.status(403).json({
           success: false,
-          message: 'You must be a band member to get suggested times',
+          message: "Only the creator or members who manage the band's rehearsals can cancel this rehearsal",
           error: 'Forbidden',
         });
       }
 
-      // Get band members availability
-      // This is a simplified placeholder - in a real implementation,
-      // you would analyze members' availability, past attendance patterns,
-      // and preferences to suggest optimal times
+      const cancelled = await cancelRehearsal(rehearsal, reason, scope, req.user!.id);
 
-      // Generate sample suggested times
-      const now = new Date();
-      const suggestedTimes = [
-        // Next Saturday, 7 PM
-        {
-          startDatetime: new Date(
-            now.getFullYear(),
-            now.getMonth(),
-            now.getDate() + ((6 - now.getDay() + 7) % 7),
-            19, 0, 0
-          ),
-          endDatetime: new Date(
-            now.getFullYear(),
-            now.getMonth(),
-            now.getDate() + ((6 - now.getDay() + 7) % 7),
-            22, 0, 0
-          ),
-          confidence: 0.9,
-          message: 'All members are typically available',
+      res.status(200).json({
+        success: true,
+        message:
+          cancelled.length > 1
+            ? `${cancelled.length} rehearsals cancelled successfully`
+            : 'Rehearsal cancelled successfully',
+        data: {
+          ...cancelled.find((item) => item.id === id),
+          ...(cancelled.length > 1 && { cancelledOccurrences: cancelled }),
         },
-        // Next Sunday, 2 PM
-        {
-          startDatetime: new Date(
-            now.getFullYear(),
-            now.getMonth(),
-            now.getDate() + ((0 - now.getDay() + 7) % 7),
-            14, 0, 0
-          ),
-          endDatetime: new Date(
-            now.getFullYear(),
-            now.getMonth(),
-            now.getDate() + ((0 - now.getDay() + 7) % 7),
-            17, 0, 0
-          ),
-          confidence: 0.8,
-          message: 'Most members are typically available',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/rehearsals/{id}/attendance:
+ *   put:
+ *     summary: Update attendance status for a rehearsal
+ *     tags: [Rehearsals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [ATTENDING, NOT_ATTENDING, MAYBE, PENDING]
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Attendance updated successfully
+ *       400:
+ *         description: Validation error or rehearsal is cancelled
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Rehearsal or attendance record not found
+ */
+router.put(
+  '/:id/attendance',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid rehearsal ID'),
+    body('status')
+      .isIn(['ATTENDING', 'NOT_ATTENDING', 'MAYBE', 'PENDING'])
+      .withMessage('Status must be one of: ATTENDING, NOT_ATTENDING, MAYBE, PENDING'),
+    body('comment').optional().isString().withMessage('Comment must be a string'),
+    validate,
+  ],
+  requireBandPermission(bandOfRehearsal()),
+  async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const { status, comment } = req.body;
+
+      // Find attendance record
+      const attendance = await prisma.rehearsalAttendance.findFirst({
+        where: {
+          rehearsalId: id,
+          userId: req.user!.id,
         },
-        // Next Tuesday, 6 PM
-        {
-          startDatetime: new Date(
-            now.getFullYear(),
-            now.getMonth(),
-            now.getDate() + ((2 - now.getDay() + 7) % 7),
-            18, 0, 0
-          ),
-          endDatetime: new Date(
-            now.getFullYear(),
-            now.getMonth(),
-            now.getDate() + ((2 - now.getDay() + 7) % 7),
-            21, 0, 0
-          ),
-          confidence: 0.7,
-          message: 'Some members might have conflicts',
+        include: {
+          rehearsal: {
+            select: {
+              title: true,
+              bandId: true,
+              status: true,
+            },
+          },
+        },
+      });
+
+      if (!attendance) {
+        return res.status(404).json({
+          success: false,
+          message: 'Attendance record not found',
+          error: 'Not Found',
+        });
+      }
+
+      if (attendance.rehearsal.status === 'CANCELLED') {
+        return res.status(400).json({
+          success: false,
+          message: 'This rehearsal has been cancelled',
+          error: 'Bad Request',
+        });
+      }
+
+      // Update attendance
+      const updatedAttendance = await prisma.rehearsalAttendance.update({
+        where: {
+          id: attendance.id,
+        },
+        data: {
+          ...rsvpUpdate(attendance, status),
+          comment,
+          // Answering again after rejoining the band
+          memberLeftAt: null,
         },
-      ];
+      });
+
+      await publishBandUpdate({
+        type: 'attendance.changed',
+        data: { bandId: attendance.rehearsal.bandId, attendance: updatedAttendance },
+      });
+
+      // Notify band leader if user is not attending
+      if (status === 'NOT_ATTENDING') {
+        // Find band leader
+        const bandLeader = await prisma.bandMember.findFirst({
+          where: {
+            bandId: attendance.rehearsal.bandId,
+            role: 'LEADER',
+            status: 'ACTIVE',
+          },
+          select: {
+            userId: true,
+          },
+        });
+
+        if (bandLeader && bandLeader.userId !== req.user!.id) {
+          await notifyUsers([
+            {
+              userId: bandLeader.userId,
+              type: 'ATTENDANCE_UPDATE',
+              content: `${req.user!.name} can't attend ${attendance.rehearsal.title}`,
+              relatedId: id,
+            },
+          ]);
+        }
+      }
 
       res.status(200).json({
         success: true,
-        data: suggestedTimes,
+        message: 'Attendance updated successfully',
+        data: updatedAttendance,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/rehearsals/{id}/check-in-code:
+ *   post:
+ *     summary: Generate a check-in code for a rehearsal
+ *     description: >
+ *       Replaces the current code. Show the code, or the url as a QR code,
+ *       at the rehearsal so members can check themselves in. Codes last
+ *       CHECK_IN_CODE_TTL (default 15m) and only work while check-in is open,
+ *       from CHECK_IN_OPENS_BEFORE (default 30m) before the start until the
+ *       end. Needs TAKE_ATTENDANCE or the right to manage the rehearsal.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Code, expiry and check-in url
+ *       400:
+ *         description: Check-in is not open or the rehearsal is cancelled
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to take attendance
+ *       404:
+ *         description: Rehearsal not found
+ *   get:
+ *     summary: Get the rehearsal's current check-in code
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Code, expiry and check-in url, or null when there is no valid code
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to take attendance
+ *       404:
+ *         description: Rehearsal not found
+ */
+router.post(
+  '/:id/check-in-code',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid rehearsal ID'), validate],
+  requireBandPermission(bandOfRehearsal()),
+  async (req, res, next) => {
+    try {
+      const rehearsal = await prisma.rehearsal.findUniqueOrThrow({
+        where: { id: req.params.id },
+      });
+
+      if (!canTakeAttendance(req.bandAccess!, rehearsal)) {
+        return res.status(403).json({
+          success: false,
+          message: 'You are not authorized to take attendance for this rehearsal',
+          error: 'Forbidden',
+        });
+      }
+
+      const checkInCode = await createCheckInCode(rehearsal.id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Check-in code created',
+        data: checkInCode,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/:id/check-in-code',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid rehearsal ID'), validate],
+  requireBandPermission(bandOfRehearsal()),
+  async (req, res, next) => {
+    try {
+      const rehearsal = await prisma.rehearsal.findUniqueOrThrow({
+        where: { id: req.params.id },
+      });
+
+      if (!canTakeAttendance(req.bandAccess!, rehearsal)) {
+        return res.status(403).json({
+          success: false,
+          message: 'You are not authorized to take attendance for this rehearsal',
+          error: 'Forbidden',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: await getCheckInCode(rehearsal.id),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/rehearsals/{id}/check-in:
+ *   post:
+ *     summary: Check yourself in at a rehearsal
+ *     description: >
+ *       With the code shown at the rehearsal. Checking in later than
+ *       CHECK_IN_GRACE (default 10m) after the start records you as LATE.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Checked in, with the attendance record
+ *       400:
+ *         description: Invalid or expired code, check-in not open, or rehearsal cancelled
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Rehearsal not found
+ */
+router.post(
+  '/:id/check-in',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid rehearsal ID'),
+    body('code')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 20 })
+      .withMessage('Check-in code is required'),
+    validate,
+  ],
+  requireBandPermission(bandOfRehearsal()),
+  async (req, res, next) => {
+    try {
+      const attendance = await selfCheckIn(req.params.id, req.user!.id, req.body.code);
+
+      res.status(200).json({
+        success: true,
+        message: attendance.checkInStatus === 'LATE' ? 'Checked in (late)' : 'Checked in',
+        data: attendance,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/rehearsals/{id}/check-ins/{userId}:
+ *   put:
+ *     summary: Mark a member present, late or absent
+ *     description: >
+ *       Records or overrides a member's actual attendance, from when check-in
+ *       opens onwards (also after the rehearsal). Members not marked at a
+ *       rehearsal where attendance was taken count as absent in reports.
+ *       Needs TAKE_ATTENDANCE or the right to manage the rehearsal.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [PRESENT, LATE, ABSENT]
+ *     responses:
+ *       200:
+ *         description: Attendance record
+ *       400:
+ *         description: Validation error, check-in not open yet, or rehearsal cancelled
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to take attendance
+ *       404:
+ *         description: Rehearsal or member not found
+ */
+router.put(
+  '/:id/check-ins/:userId',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid rehearsal ID'),
+    param('userId').isUUID().withMessage('Invalid user ID'),
+    body('status')
+      .isIn(CHECK_IN_STATUSES)
+      .withMessage(`Status must be one of: ${CHECK_IN_STATUSES.join(', ')}`),
+    validate,
+  ],
+  requireBandPermission(bandOfRehearsal()),
+  async (req, res, next) => {
+    try {
+      const rehearsal = await prisma.rehearsal.findUniqueOrThrow({
+        where: { id: req.params.id },
+      });
+
+      if (!canTakeAttendance(req.bandAccess!, rehearsal)) {
+        return res.status(403).json({
+          success: false,
+          message: 'You are not authorized to take attendance for this rehearsal',
+          error: 'Forbidden',
+        });
+      }
+
+      const attendance = await markAttendance(rehearsal, req.params.userId, req.body.status);
+
+      res.status(200).json({
+        success: true,
+        message: 'Attendance recorded',
+        data: attendance,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/rehearsals/{id}/venue-rating:
+ *   put:
+ *     summary: Rate the venue of a rehearsal you were at
+ *     description: >
+ *       Once the rehearsal is over. Rating again replaces your earlier rating
+ *       for this rehearsal.
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               feedback:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Rating saved
+ *       400:
+ *         description: Validation error, rehearsal not over, cancelled or without a venue
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band or wasn't at the rehearsal
+ *       404:
+ *         description: Rehearsal not found
+ */
+router.put(
+  '/:id/venue-rating',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid rehearsal ID'),
+    body('rating').isInt({ min: 1, max: 5 }).toInt().withMessage('Rating must be between 1 and 5'),
+    body('feedback')
+      .optional({ values: 'null' })
+      .isString()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Feedback must be at most 2000 characters'),
+    validate,
+  ],
+  requireBandPermission(bandOfRehearsal()),
+  async (req, res, next) => {
+    try {
+      const rating = await rateVenue(req.params.id, req.user!.id, {
+        rating: req.body.rating,
+        feedback: req.body.feedback,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Venue rated',
+        data: rating,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/rehearsals/{id}/materials:
+ *   post:
+ *     summary: Add a material (setlist, sheet music, recording, ...) to a rehearsal
+ *     description: >
+ *       Upload a file, provide text content, or both. Allowed file types and
+ *       sizes depend on the material type: SETLIST documents up to 5 MB,
+ *       SHEET_MUSIC PDF/images/MusicXML up to 25 MB, AUDIO up to 100 MB,
+ *       VIDEO up to 500 MB, OTHER documents/images/zip up to 25 MB. The
+ *       file's content must match its declared type.
+ *     tags: [Materials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [SETLIST, SHEET_MUSIC, AUDIO, VIDEO, OTHER]
+ *               name:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Material added
+ *       400:
+ *         description: >
+ *           Validation error, file type/size not allowed, or the content
+ *           doesn't match the type
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to upload materials (UPLOAD_MATERIALS)
+ *       404:
+ *         description: Rehearsal not found
+ */
+router.post(
+  '/:id/materials',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid rehearsal ID'), validate],
+  // Only accept the upload once we know the user may add materials here
+  requireBandPermission(bandOfRehearsal(), 'UPLOAD_MATERIALS'),
+  singleFileUpload('file', MAX_MATERIAL_BYTES),
+  [
+    body('type')
+      .isIn(MATERIAL_TYPES)
+      .withMessage(`Type must be one of: ${MATERIAL_TYPES.join(', ')}`),
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Name must be between 1 and 200 characters'),
+    body('content').optional().isString().withMessage('Content must be a string'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const material = await createMaterial({
+        rehearsalId: req.params.id,
+        uploadedById: req.user!.id,
+        type: req.body.type,
+        name: req.body.name,
+        content: req.body.content,
+        file: req.file,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Material added successfully',
+        data: material,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/rehearsals/{id}/materials:
+ *   get:
+ *     summary: List the materials of a rehearsal
+ *     tags: [Materials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [SETLIST, SHEET_MUSIC, AUDIO, VIDEO, OTHER]
+ *     responses:
+ *       200:
+ *         description: Materials, newest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Rehearsal not found
+ */
+router.get(
+  '/:id/materials',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid rehearsal ID'),
+    query('type')
+      .optional()
+      .isIn(MATERIAL_TYPES)
+      .withMessage(`Type must be one of: ${MATERIAL_TYPES.join(', ')}`),
+    validate,
+  ],
+  requireBandPermission(bandOfRehearsal()),
+  async (req, res, next) => {
+    try {
+      const materials = await prisma.rehearsalMaterial.findMany({
+        where: {
+          rehearsalId: req.params.id,
+          ...(req.query.type ? { type: req.query.type as string } : {}),
+        },
+        select: materialSelect,
+        orderBy: {
+          createdAt: 'desc',
+        },
+      });
+
+      res.status(200).json({
+        success: true,
+        data: materials,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/rehearsals/{id}/setlist:
+ *   get:
+ *     summary: Get the rehearsal's setlist laid out over the rehearsal
+ *     description: >
+ *       Each song gets a planned start and end from the rehearsal start, and
+ *       the total running time is compared to the rehearsal window.
+ *     tags: [Setlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Setlist with timing, or null when none is attached
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Rehearsal not found
+ */
+router.get(
+  '/:id/setlist',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid rehearsal ID'), validate],
+  requireBandPermission(bandOfRehearsal()),
+  async (req, res, next) => {
+    try {
+      const rehearsal = await prisma.rehearsal.findUniqueOrThrow({
+        where: { id: req.params.id },
+        include: {
+          setlist: {
+            include: setlistInclude,
+          },
+        },
+      });
+
+      res.status(200).json({
+        success: true,
+        data: rehearsal.setlist ? planSetlistForRehearsal(rehearsal.setlist, rehearsal) : null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/rehearsals/{id}/setlist:
+ *   put:
+ *     summary: Attach a setlist to a rehearsal, or detach it with null
+ *     description: >
+ *       The same setlist can be attached to any number of rehearsals of the
+ *       band. Only the rehearsal creator or members with MANAGE_REHEARSALS
+ *       can change it.
+ *     tags: [Setlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - setlistId
+ *             properties:
+ *               setlistId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Setlist attached, with timing
+ *       400:
+ *         description: Validation error or setlist of another band
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized to update this rehearsal
+ *       404:
+ *         description: Rehearsal or setlist not found
+ */
+router.put(
+  '/:id/setlist',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid rehearsal ID'),
+    body('setlistId').exists().withMessage('setlistId is required (null to detach)'),
+    body('setlistId').optional({ values: 'null' }).isUUID().withMessage('Invalid setlist ID'),
+    validate,
+  ],
+  requireBandPermission(bandOfRehearsal()),
+  async (req, res, next) => {
+    try {
+      const rehearsal = await prisma.rehearsal.findUniqueOrThrow({
+        where: { id: req.params.id },
+      });
+
+      if (!canManageRehearsal(req.bandAccess!, rehearsal)) {
+        return res.status(403).json({
+          success: false,
+          message: 'You are not authorized to update this rehearsal',
+          error: 'Forbidden',
+        });
+      }
+
+      const { setlistId } = req.body;
+      const setlist = setlistId ? await findSetlist(setlistId) : null;
+
+      if (setlist && setlist.bandId !== rehearsal.bandId) {
+        return res.status(400).json({
+          success: false,
+          message: 'The setlist belongs to another band',
+          error: 'Bad Request',
+        });
+      }
+
+      const updatedRehearsal = await prisma.rehearsal.update({
+        where: { id: rehearsal.id },
+        data: { setlistId: setlist ? setlist.id : null },
+      });
+
+      res.status(200).json({
+        success: true,
+        message: setlist ? 'Setlist attached successfully' : 'Setlist detached successfully',
+        data: setlist ? planSetlistForRehearsal(setlist, updatedRehearsal) : null,
       });
     } catch (error) {
       next(error);
@@ -0,0 +1,446 @@
+import express, { Request } from 'express';
+import { param, query } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
+import { bandFromParam, requireBandPermission } from '../middlewares/permission';
+import { validate } from '../middlewares/validate';
+import {
+  AttendanceSummary,
+  ReportRange,
+  TREND_INTERVALS,
+  TrendInterval,
+  buildAttendanceTrend,
+  buildBandAttendanceReport,
+  buildMemberAttendanceReport,
+} from '../services/attendance.service';
+import { can } from '../services/permission.service';
+import { toCsv } from '../utils/csv';
+import { DAY_MS, isValidTimeZone } from '../utils/time';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_RANGE_DAYS = 731;
+
+const rangeValidators = [
+  query('start').optional().isISO8601().withMessage('Invalid start date'),
+  query('end').optional().isISO8601().withMessage('Invalid end date'),
+  query('format').optional().isIn(['json', 'csv']).withMessage('Format must be json or csv'),
+];
+
+// Defaults to the last 90 days
+const reportRange = (req: Request): ReportRange | null => {
+  const end = req.query.end ? new Date(req.query.end as string) : new Date();
+  const start = req.query.start
+    ? new Date(req.query.start as string)
+    : new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+  if (start >= end || end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    return null;
+  }
+
+  return { start, end };
+};
+
+const invalidRange = {
+  success: false,
+  message: `Start must be before end and the range cannot exceed ${MAX_RANGE_DAYS} days`,
+  error: 'Bad Request',
+};
+
+// Columns shared by every CSV export
+const summaryColumns = <T extends AttendanceSummary>(): [string, (row: T) => unknown][] => [
+  ['expected', (row) => row.expected],
+  ['attending', (row) => row.attending],
+  ['maybe', (row) => row.maybe],
+  ['not_attending', (row) => row.notAttending],
+  ['no_response', (row) => row.noResponse],
+  ['attendance_rate', (row) => row.attendanceRate],
+  ['tracked', (row) => row.tracked],
+  ['present', (row) => row.present],
+  ['late', (row) => row.late],
+  ['absent', (row) => row.absent],
+  ['actual_attendance_rate', (row) => row.actualAttendanceRate],
+  ['late_rate', (row) => row.lateRate],
+  ['no_shows', (row) => row.noShows],
+  ['no_show_rate', (row) => row.noShowRate],
+  ['unannounced', (row) => row.unannounced],
+  ['late_cancellations', (row) => row.lateCancellations],
+  ['late_cancellation_rate', (row) => row.lateCancellationRate],
+  ['average_response_hours', (row) => row.averageResponseHours],
+  ['median_response_hours', (row) => row.medianResponseHours],
+];
+
+/**
+ * @swagger
+ * /api/reports/bands/{bandId}/attendance:
+ *   get:
+ *     summary: Attendance report for a band
+ *     description: >
+ *       Per-member and overall attendance for rehearsals that took place in
+ *       the range (cancelled rehearsals excluded). Attendance rate is the
+ *       share of ATTENDING answers and the actual attendance rate the share
+ *       of members present or late where attendance was taken (members not
+ *       checked in there count as absent). A no-show said ATTENDING but was
+ *       absent, unannounced members came without saying ATTENDING, and
+ *       noResponse counts RSVPs never answered. A late cancellation is a yes
+ *       or maybe turned into a no within LATE_CANCELLATION_WINDOW (default
+ *       24h) of the start, and response time runs from the RSVP request to
+ *       the first answer.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to 90 days before end
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to now
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Report, or a CSV with one row per member
+ *         content:
+ *           application/json: {}
+ *           text/csv: {}
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to view attendance reports (VIEW_ATTENDANCE_REPORTS)
+ */
+router.get(
+  '/bands/:bandId/attendance',
+  authenticate,
+  [param('bandId').isUUID().withMessage('Invalid band ID'), ...rangeValidators, validate],
+  requireBandPermission(bandFromParam('bandId'), 'VIEW_ATTENDANCE_REPORTS'),
+  async (req, res, next) => {
+    try {
+      const range = reportRange(req);
+
+      if (!range) {
+        return res.status(400).json(invalidRange);
+      }
+
+      const report = await buildBandAttendanceReport(req.params.bandId, range);
+
+      if (req.query.format === 'csv') {
+        type Row = (typeof report.members)[number];
+        const csv = toCsv<Row>(
+          [
+            ['user_id', (row) => row.user.id],
+            ['name', (row) => row.user.name],
+            ['email', (row) => row.user.email],
+            ['membership_status', (row) => row.membershipStatus],
+            ...summaryColumns<Row>(),
+          ],
+          report.members
+        );
+
+        return res
+          .status(200)
+          .type('text/csv; charset=utf-8')
+          .attachment('attendance-report.csv')
+          .send(csv);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/reports/bands/{bandId}/attendance/trend:
+ *   get:
+ *     summary: Attendance trend for a band or one of its members
+ *     description: >
+ *       The attendance report's figures per week (starting Monday) or
+ *       calendar month, in the requesting user's timezone unless given.
+ *       Members can see their own trend; the band's or other members'
+ *       trends need VIEW_ATTENDANCE_REPORTS.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [week, month]
+ *           default: week
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: timezone
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: One entry per period
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to view this report
+ */
+router.get(
+  '/bands/:bandId/attendance/trend',
+  authenticate,
+  [
+    param('bandId').isUUID().withMessage('Invalid band ID'),
+    query('interval')
+      .optional()
+      .isIn(TREND_INTERVALS)
+      .withMessage(`Interval must be one of: ${TREND_INTERVALS.join(', ')}`),
+    query('userId').optional().isUUID().withMessage('Invalid user ID'),
+    query('timezone')
+      .optional()
+      .custom((value: string) => isValidTimeZone(value))
+      .withMessage('Timezone must be a valid IANA timezone'),
+    ...rangeValidators,
+    validate,
+  ],
+  requireBandPermission(bandFromParam('bandId')),
+  async (req, res, next) => {
+    try {
+      const userId = req.query.userId as string | undefined;
+
+      if (userId !== req.user!.id && !can(req.bandAccess!, 'VIEW_ATTENDANCE_REPORTS')) {
+        return res.status(403).json({
+          success: false,
+          message: "You don't have permission to view attendance reports (VIEW_ATTENDANCE_REPORTS)",
+          error: 'Forbidden',
+        });
+      }
+
+      const range = reportRange(req);
+
+      if (!range) {
+        return res.status(400).json(invalidRange);
+      }
+
+      const timezone =
+        (req.query.timezone as string | undefined) ||
+        (
+          await prisma.user.findUniqueOrThrow({
+            where: { id: req.user!.id },
+            select: { timezone: true },
+          })
+        ).timezone;
+
+      const trend = await buildAttendanceTrend(
+        req.params.bandId,
+        range,
+        (req.query.interval as TrendInterval | undefined) || 'week',
+        timezone,
+        userId
+      );
+
+      if (req.query.format === 'csv') {
+        type Row = (typeof trend.series)[number];
+        const csv = toCsv<Row>(
+          [
+            ['period_start', (row) => row.periodStart],
+            ['period_end', (row) => row.periodEnd],
+            ['rehearsals', (row) => row.rehearsals],
+            ...summaryColumns<Row>(),
+          ],
+          trend.series
+        );
+
+        return res
+          .status(200)
+          .type('text/csv; charset=utf-8')
+          .attachment('attendance-trend.csv')
+          .send(csv);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: trend,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/reports/bands/{bandId}/members/{userId}/attendance:
+ *   get:
+ *     summary: Attendance report for one member of a band
+ *     description: >
+ *       The member's figures plus their RSVP and actual attendance for each
+ *       rehearsal. Members can see their own report; others' need
+ *       VIEW_ATTENDANCE_REPORTS.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Report, or a CSV with one row per rehearsal
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to view this report
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  '/bands/:bandId/members/:userId/attendance',
+  authenticate,
+  [
+    param('bandId').isUUID().withMessage('Invalid band ID'),
+    param('userId').isUUID().withMessage('Invalid user ID'),
+    ...rangeValidators,
+    validate,
+  ],
+  requireBandPermission(bandFromParam('bandId')),
+  async (req, res, next) => {
+    try {
+      const { bandId, userId } = req.params;
+
+      if (userId !== req.user!.id && !can(req.bandAccess!, 'VIEW_ATTENDANCE_REPORTS')) {
+        return res.status(403).json({
+          success: false,
+          message: "You don't have permission to view attendance reports (VIEW_ATTENDANCE_REPORTS)",
+          error: 'Forbidden',
+        });
+      }
+
+      const range = reportRange(req);
+
+      if (!range) {
+        return res.status(400).json(invalidRange);
+      }
+
+      const report = await buildMemberAttendanceReport(bandId, userId, range);
+
+      if (!report.user) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found',
+          error: 'Not Found',
+        });
+      }
+
+      if (req.query.format === 'csv') {
+        type Row = (typeof report.rehearsals)[number];
+        const csv = toCsv<Row>(
+          [
+            ['rehearsal_id', (row) => row.id],
+            ['title', (row) => row.title],
+            ['start', (row) => row.startDatetime],
+            ['rsvp', (row) => row.rsvp],
+            ['requested_at', (row) => row.requestedAt],
+            ['responded_at', (row) => row.respondedAt],
+            ['response_hours', (row) => row.responseHours],
+            ['cancelled_at', (row) => row.cancelledAt],
+            ['late_cancellation', (row) => row.lateCancellation],
+            ['attendance_taken', (row) => row.attendanceTaken],
+            ['actual', (row) => row.actual],
+            ['check_in_source', (row) => row.checkInSource],
+            ['checked_in_at', (row) => row.checkedInAt],
+            ['no_show', (row) => row.noShow],
+            ['unannounced', (row) => row.unannounced],
+          ],
+          report.rehearsals
+        );
+
+        return res
+          .status(200)
+          .type('text/csv; charset=utf-8')
+          .attachment('member-attendance.csv')
+          .send(csv);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,417 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
+import {
+  bandFromBody,
+  bandFromQuery,
+  bandOfSetlist,
+  requireBandPermission,
+} from '../middlewares/permission';
+import { validate } from '../middlewares/validate';
+import {
+  createSetlist,
+  duplicateSetlist,
+  findSetlist,
+  setlistInclude,
+  updateSetlist,
+  withRunningTime,
+} from '../services/setlist.service';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Ordered list of { songId, notes }; the array order is the setlist order
+const itemValidators = [
+  body('items')
+    .optional()
+    .isArray({ max: 200 })
+    .withMessage('Items must be a list of at most 200 songs'),
+  body('items.*.songId').isUUID().withMessage('Each item needs a valid songId'),
+  body('items.*.notes')
+    .optional({ values: 'null' })
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Item notes must be at most 500 characters'),
+];
+
+/**
+ * @swagger
+ * /api/setlists:
+ *   get:
+ *     summary: List a band's setlists
+ *     tags: [Setlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Setlists with their songs and running time, most recently updated first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ */
+router.get(
+  '/',
+  authenticate,
+  [query('bandId').isUUID().withMessage('Valid band ID is required'), validate],
+  requireBandPermission(bandFromQuery()),
+  async (req, res, next) => {
+    try {
+      const bandId = req.query.bandId as string;
+
+      const setlists = await prisma.setlist.findMany({
+        where: { bandId },
+        include: setlistInclude,
+        orderBy: {
+          updatedAt: 'desc',
+        },
+      });
+
+      res.status(200).json({
+        success: true,
+        data: setlists.map(withRunningTime),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/setlists:
+ *   post:
+ *     summary: Create a setlist
+ *     tags: [Setlists]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bandId
+ *               - name
+ *             properties:
+ *               bandId:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     songId:
+ *                       type: string
+ *                     notes:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Setlist created
+ *       400:
+ *         description: Validation error or song not in the band library
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage songs and setlists (MANAGE_REPERTOIRE)
+ */
+router.post(
+  '/',
+  authenticate,
+  [
+    body('bandId').isUUID().withMessage('Valid band ID is required'),
+    body('name')
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Name is required (max 200 characters)'),
+    body('description').optional().isString().withMessage('Description must be a string'),
+    ...itemValidators,
+    validate,
+  ],
+  requireBandPermission(bandFromBody(), 'MANAGE_REPERTOIRE'),
+  async (req, res, next) => {
+    try {
+      const { bandId, name, description, items } = req.body;
+
+      const setlist = await createSetlist({
+        bandId,
+        createdById: req.user!.id,
+        name,
+        description,
+        items,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Setlist created successfully',
+        data: withRunningTime(setlist),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/setlists/{id}:
+ *   get:
+ *     summary: Get a setlist with its songs in order
+ *     tags: [Setlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Setlist, running time and the rehearsals it is attached to
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Setlist not found
+ */
+router.get(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid setlist ID'), validate],
+  requireBandPermission(bandOfSetlist()),
+  async (req, res, next) => {
+    try {
+      const setlist = await findSetlist(req.params.id);
+
+      const rehearsals = await prisma.rehearsal.findMany({
+        where: { setlistId: setlist.id },
+        select: {
+          id: true,
+          title: true,
+          startDatetime: true,
+          endDatetime: true,
+          status: true,
+        },
+        orderBy: {
+          startDatetime: 'asc',
+        },
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { ...withRunningTime(setlist), rehearsals },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/setlists/{id}:
+ *   put:
+ *     summary: Update a setlist
+ *     description: >
+ *       When items is given it replaces the whole song list, so reordering is
+ *       done by sending the songs in their new order.
+ *     tags: [Setlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     songId:
+ *                       type: string
+ *                     notes:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Setlist updated
+ *       400:
+ *         description: Validation error or song not in the band library
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage songs and setlists (MANAGE_REPERTOIRE)
+ *       404:
+ *         description: Setlist not found
+ */
+router.put(
+  '/:id',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid setlist ID'),
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Name must be between 1 and 200 characters'),
+    body('description')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Description must be a string'),
+    ...itemValidators,
+    validate,
+  ],
+  requireBandPermission(bandOfSetlist(), 'MANAGE_REPERTOIRE'),
+  async (req, res, next) => {
+    try {
+      const setlist = await findSetlist(req.params.id);
+
+      const { name, description, items } = req.body;
+      const updatedSetlist = await updateSetlist(setlist, { name, description, items });
+
+      res.status(200).json({
+        success: true,
+        message: 'Setlist updated successfully',
+        data: withRunningTime(updatedSetlist),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/setlists/{id}/duplicate:
+ *   post:
+ *     summary: Copy a setlist to reuse it for another rehearsal
+ *     tags: [Setlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Copy created
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage songs and setlists (MANAGE_REPERTOIRE)
+ *       404:
+ *         description: Setlist not found
+ */
+router.post(
+  '/:id/duplicate',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid setlist ID'),
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Name must be between 1 and 200 characters'),
+    validate,
+  ],
+  requireBandPermission(bandOfSetlist(), 'MANAGE_REPERTOIRE'),
+  async (req, res, next) => {
+    try {
+      const setlist = await findSetlist(req.params.id);
+
+      const copy = await duplicateSetlist(setlist, req.user!.id, req.body.name);
+
+      res.status(201).json({
+        success: true,
+        message: 'Setlist duplicated successfully',
+        data: withRunningTime(copy),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/setlists/{id}:
+ *   delete:
+ *     summary: Delete a setlist
+ *     description: Rehearsals using the setlist are left without one.
+ *     tags: [Setlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Setlist deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage songs and setlists (MANAGE_REPERTOIRE)
+ *       404:
+ *         description: Setlist not found
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid setlist ID'), validate],
+  requireBandPermission(bandOfSetlist(), 'MANAGE_REPERTOIRE'),
+  async (req, res, next) => {
+    try {
+      const setlist = await findSetlist(req.params.id);
+
+      await prisma.setlist.delete({ where: { id: setlist.id } });
+
+      res.status(200).json({
+        success: true,
+        message: 'Setlist deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
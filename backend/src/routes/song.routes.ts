@@ -0,0 +1,360 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
+import {
+  bandFromBody,
+  bandFromQuery,
+  bandOfSong,
+  requireBandPermission,
+} from '../middlewares/permission';
+import { validate } from '../middlewares/validate';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Optional song attributes shared by create and update; null clears a field
+const songFields = [
+  body('artist')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Artist must be at most 200 characters'),
+  body('key')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 20 })
+    .withMessage('Key must be at most 20 characters'),
+  body('tempo')
+    .optional({ values: 'null' })
+    .isInt({ min: 20, max: 400 })
+    .toInt()
+    .withMessage('Tempo must be between 20 and 400 BPM'),
+  body('durationSeconds')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 4 * 60 * 60 })
+    .toInt()
+    .withMessage('durationSeconds must be between 1 and 14400'),
+  body('tuning')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Tuning must be at most 50 characters'),
+  body('notes')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Notes must be a string'),
+];
+
+const songData = (input: Record<string, unknown>) => ({
+  title: input.title as string | undefined,
+  artist: input.artist as string | null | undefined,
+  key: input.key as string | null | undefined,
+  tempo: input.tempo as number | null | undefined,
+  durationSeconds: input.durationSeconds as number | null | undefined,
+  tuning: input.tuning as string | null | undefined,
+  notes: input.notes as string | null | undefined,
+});
+
+const findSong = async (id: string) => prisma.song.findUniqueOrThrow({ where: { id } });
+
+/**
+ * @swagger
+ * /api/songs:
+ *   get:
+ *     summary: List a band's song library
+ *     tags: [Songs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: search
+ *         description: Matches title or artist
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Songs ordered by title
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ */
+router.get(
+  '/',
+  authenticate,
+  [
+    query('bandId').isUUID().withMessage('Valid band ID is required'),
+    query('search').optional().isString().trim(),
+    validate,
+  ],
+  requireBandPermission(bandFromQuery()),
+  async (req, res, next) => {
+    try {
+      const bandId = req.query.bandId as string;
+      const search = req.query.search as string | undefined;
+
+      const songs = await prisma.song.findMany({
+        where: {
+          bandId,
+          ...(search
+            ? {
+                OR: [
+                  { title: { contains: search, mode: 'insensitive' as const } },
+                  { artist: { contains: search, mode: 'insensitive' as const } },
+                ],
+              }
+            : {}),
+        },
+        orderBy: {
+          title: 'asc',
+        },
+      });
+
+      res.status(200).json({
+        success: true,
+        data: songs,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/songs:
+ *   post:
+ *     summary: Add a song to a band's library
+ *     tags: [Songs]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bandId
+ *               - title
+ *             properties:
+ *               bandId:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               artist:
+ *                 type: string
+ *               key:
+ *                 type: string
+ *               tempo:
+ *                 type: integer
+ *                 description: BPM
+ *               durationSeconds:
+ *                 type: integer
+ *               tuning:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Song created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage songs and setlists (MANAGE_REPERTOIRE)
+ */
+router.post(
+  '/',
+  authenticate,
+  [
+    body('bandId').isUUID().withMessage('Valid band ID is required'),
+    body('title')
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Title is required (max 200 characters)'),
+    ...songFields,
+    validate,
+  ],
+  requireBandPermission(bandFromBody(), 'MANAGE_REPERTOIRE'),
+  async (req, res, next) => {
+    try {
+      const { bandId } = req.body;
+
+      const song = await prisma.song.create({
+        data: {
+          ...songData(req.body),
+          title: req.body.title,
+          bandId,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Song created successfully',
+        data: song,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/songs/{id}:
+ *   get:
+ *     summary: Get a song
+ *     tags: [Songs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Song details
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ *       404:
+ *         description: Song not found
+ */
+router.get(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid song ID'), validate],
+  requireBandPermission(bandOfSong()),
+  async (req, res, next) => {
+    try {
+      const song = await findSong(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: song,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/songs/{id}:
+ *   put:
+ *     summary: Update a song
+ *     description: Fields set to null are cleared.
+ *     tags: [Songs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Song updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage songs and setlists (MANAGE_REPERTOIRE)
+ *       404:
+ *         description: Song not found
+ */
+router.put(
+  '/:id',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid song ID'),
+    body('title')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Title must be between 1 and 200 characters'),
+    ...songFields,
+    validate,
+  ],
+  requireBandPermission(bandOfSong(), 'MANAGE_REPERTOIRE'),
+  async (req, res, next) => {
+    try {
+      const song = await findSong(req.params.id);
+
+      const updatedSong = await prisma.song.update({
+        where: { id: song.id },
+        data: songData(req.body),
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Song updated successfully',
+        data: updatedSong,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/songs/{id}:
+ *   delete:
+ *     summary: Delete a song
+ *     description: The song is also removed from every setlist it appears in.
+ *     tags: [Songs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Song deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage songs and setlists (MANAGE_REPERTOIRE)
+ *       404:
+ *         description: Song not found
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid song ID'), validate],
+  requireBandPermission(bandOfSong(), 'MANAGE_REPERTOIRE'),
+  async (req, res, next) => {
+    try {
+      const song = await findSong(req.params.id);
+
+      await prisma.song.delete({ where: { id: song.id } });
+
+      res.status(200).json({
+        success: true,
+        message: 'Song deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,458 @@
+import path from 'path';
+import express from 'express';
+import { body, param } from 'express-validator';
+import bcrypt from 'bcrypt';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
+import { singleFileUpload } from '../middlewares/upload';
+import { validate } from '../middlewares/validate';
+import { isValidTimeZone } from '../utils/time';
+import { revokeAllSessions } from '../services/session.service';
+import { getStorage } from '../services/storage.service';
+import {
+  CONTACT_METHODS,
+  PROFILE_IMAGE_MAX_BYTES,
+  deleteAccount,
+  profileSelect,
+  removeProfileImage,
+  setProfileImage,
+} from '../services/user.service';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /api/users/me:
+ *   get:
+ *     summary: Get the current user's profile
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profile, including instruments and contact preferences
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/me', authenticate, async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.id },
+      select: profileSelect,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/users/me:
+ *   put:
+ *     summary: Update the current user's profile
+ *     description: Only the fields given are changed.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               timezone:
+ *                 type: string
+ *                 example: Europe/Berlin
+ *               instruments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [Guitar, Vocals]
+ *               phoneNumber:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "+4915112345678"
+ *               preferredContactMethod:
+ *                 type: string
+ *                 enum: [EMAIL, PHONE, SMS]
+ *     responses:
+ *       200:
+ *         description: Profile updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ */
+router.put(
+  '/me',
+  authenticate,
+  [
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Name must be between 1 and 100 characters'),
+    body('timezone')
+      .optional()
+      .isString()
+      .custom((value: string) => isValidTimeZone(value))
+      .withMessage('Timezone must be a valid IANA timezone'),
+    body('instruments')
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage('Instruments must be a list of at most 20 entries'),
+    body('instruments.*')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('Each instrument must be between 1 and 50 characters'),
+    body('phoneNumber')
+      .optional({ values: 'null' })
+      .matches(/^\+[1-9]\d{6,14}$/)
+      .withMessage('Phone number must be in international format, e.g. +4915112345678'),
+    body('preferredContactMethod')
+      .optional()
+      .isIn(CONTACT_METHODS)
+      .withMessage(`Preferred contact method must be one of ${CONTACT_METHODS.join(', ')}`),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const { name, timezone, instruments, phoneNumber, preferredContactMethod } = req.body;
+
+      if (preferredContactMethod && preferredContactMethod !== 'EMAIL') {
+        const current = await prisma.user.findUniqueOrThrow({
+          where: { id: req.user!.id },
+          select: { phoneNumber: true },
+        });
+
+        if (!(phoneNumber !== undefined ? phoneNumber : current.phoneNumber)) {
+          return res.status(400).json({
+            success: false,
+            message: 'A phone number is required to be contacted by phone or SMS',
+            error: 'Bad Request',
+          });
+        }
+      }
+
+      const user = await prisma.user.update({
+        where: { id: req.user!.id },
+        data: {
+          name,
+          timezone,
+          instruments: instruments && [...new Set(instruments as string[])],
+          phoneNumber,
+          preferredContactMethod,
+        },
+        select: profileSelect,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Profile updated successfully',
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/users/me/password:
+ *   put:
+ *     summary: Change the current user's password
+ *     description: Other sessions are logged out; the current one stays valid.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 format: password
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *       400:
+ *         description: Validation error or wrong current password
+ *       401:
+ *         description: Not authenticated
+ */
+router.put(
+  '/me/password',
+  authenticate,
+  [
+    body('currentPassword').notEmpty().withMessage('Current password is required'),
+    body('newPassword')
+      .isLength({ min: 8 })
+      .withMessage('Password must be at least 8 characters long'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+
+      const user = await prisma.user.findUniqueOrThrow({
+        where: { id: req.user!.id },
+        select: { password: true },
+      });
+
+      if (!(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Current password is incorrect',
+          error: 'Bad Request',
+        });
+      }
+
+      const salt = await bcrypt.genSalt(10);
+      const hashedPassword = await bcrypt.hash(newPassword, salt);
+
+      await prisma.user.update({
+        where: { id: req.user!.id },
+        data: { password: hashedPassword },
+      });
+
+      await revokeAllSessions(req.user!.id, 'PASSWORD_CHANGE', req.sessionId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Password changed successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/users/me/profile-image:
+ *   put:
+ *     summary: Upload a profile image
+ *     description: JPEG, PNG, WebP or GIF up to 5 MB. Replaces the current image.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Profile with the new profileImageUrl
+ *       400:
+ *         description: Missing file, unsupported type or file too large
+ *       401:
+ *         description: Not authenticated
+ */
+router.put(
+  '/me/profile-image',
+  authenticate,
+  singleFileUpload('image', PROFILE_IMAGE_MAX_BYTES),
+  async (req, res, next) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: 'An image file is required',
+          error: 'Bad Request',
+        });
+      }
+
+      const user = await setProfileImage(req.user!.id, req.file);
+
+      res.status(200).json({
+        success: true,
+        message: 'Profile image updated successfully',
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/users/me/profile-image:
+ *   delete:
+ *     summary: Remove the current user's profile image
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profile image removed
+ *       401:
+ *         description: Not authenticated
+ */
+router.delete('/me/profile-image', authenticate, async (req, res, next) => {
+  try {
+    const user = await removeProfileImage(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Profile image removed',
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/users/me:
+ *   delete:
+ *     summary: Delete the current user's account
+ *     description: >
+ *       Bands the user leads alone get a new leader (the longest-standing
+ *       active member) first. Bands without any other active member are
+ *       deleted. Rehearsals the user created are handed to another member.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Account deleted, with the bands whose leadership moved or that were deleted
+ *       400:
+ *         description: Validation error or wrong password
+ *       401:
+ *         description: Not authenticated
+ */
+router.delete(
+  '/me',
+  authenticate,
+  [body('password').notEmpty().withMessage('Password is required to delete your account'), validate],
+  async (req, res, next) => {
+    try {
+      const user = await prisma.user.findUniqueOrThrow({
+        where: { id: req.user!.id },
+        select: { password: true },
+      });
+
+      if (!(await bcrypt.compare(req.body.password, user.password))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Password is incorrect',
+          error: 'Bad Request',
+        });
+      }
+
+      const result = await deleteAccount(req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account deleted successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/profile-image:
+ *   get:
+ *     summary: Get a user's uploaded profile image
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The image
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: User or image not found
+ */
+router.get(
+  '/:id/profile-image',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid user ID'), validate],
+  async (req, res, next) => {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: req.params.id },
+        select: { profileImageKey: true },
+      });
+      const stored = user?.profileImageKey ? await getStorage().get(user.profileImageKey) : null;
+
+      if (!stored) {
+        return res.status(404).json({
+          success: false,
+          message: 'Profile image not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200);
+      // Keys end in an extension matching the image type
+      res.type(path.extname(user!.profileImageKey!));
+      // Each upload gets a new URL, so the image can be cached for long
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      if (stored.size !== undefined) {
+        res.setHeader('Content-Length', stored.size);
+      }
+
+      stored.body.on('error', (error) => (res.headersSent ? res.destroy(error) : next(error)));
+      stored.body.pipe(res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
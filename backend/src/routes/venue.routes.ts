@@ -0,0 +1,775 @@
+import express, { Request } from 'express';
+import { body, param, query } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate } from '../middlewares/auth';
+import {
+  bandFromBody,
+  bandFromQuery,
+  bandOfVenue,
+  requireBandPermission,
+} from '../middlewares/permission';
+import { validate } from '../middlewares/validate';
+import { Interval } from '../services/availability.service';
+import {
+  createVenueBlock,
+  deleteVenueBlock,
+  findFreeSlots,
+  getVenueCalendar,
+} from '../services/booking.service';
+import {
+  VenueInput,
+  createVenue,
+  getVenueForUser,
+  listVenueRatings,
+  listVenues,
+  updateVenue,
+} from '../services/venue.service';
+import { DAY_MS, MINUTE_MS, isTimeOfDay, isValidTimeZone } from '../utils/time';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const DEFAULT_CALENDAR_DAYS = 14;
+const MAX_CALENDAR_DAYS = 92;
+
+// Optional venue attributes shared by create and update; null clears a field
+const venueFields = [
+  body('address')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Address must be at most 500 characters'),
+  body('capacity')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 100000 })
+    .toInt()
+    .withMessage('Capacity must be a positive number'),
+  body('hourlyCostCents')
+    .optional({ values: 'null' })
+    .isInt({ min: 0 })
+    .toInt()
+    .withMessage('hourlyCostCents must be zero or more'),
+  body('currency')
+    .optional({ values: 'null' })
+    .isISO4217()
+    .withMessage('Currency must be an ISO 4217 code'),
+  body('equipment').optional().isArray({ max: 100 }).withMessage('Equipment must be a list'),
+  body('equipment.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Each equipment item must be between 1 and 100 characters'),
+  body('accessNotes')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Access notes must be a string'),
+  body('timezone')
+    .optional()
+    .custom((value: string) => isValidTimeZone(value))
+    .withMessage('Timezone must be a valid IANA timezone'),
+  body('isShared').optional().isBoolean().toBoolean().withMessage('isShared must be a boolean'),
+  body('openingHours').optional().isArray({ max: 50 }).withMessage('Opening hours must be a list'),
+  body('openingHours.*.dayOfWeek')
+    .isInt({ min: 0, max: 6 })
+    .toInt()
+    .withMessage('dayOfWeek must be between 0 (Sunday) and 6 (Saturday)'),
+  body('openingHours.*.startTime')
+    .custom((value: string) => isTimeOfDay(value))
+    .withMessage('startTime must be in HH:mm format'),
+  body('openingHours.*.endTime')
+    .custom((value: string) => isTimeOfDay(value))
+    .withMessage('endTime must be in HH:mm format'),
+];
+
+const venueData = (input: Record<string, any>): VenueInput => ({
+  name: input.name,
+  address: input.address,
+  capacity: input.capacity,
+  hourlyCostCents: input.hourlyCostCents,
+  currency: input.currency && input.currency.toUpperCase(),
+  equipment: input.equipment,
+  accessNotes: input.accessNotes,
+  timezone: input.timezone,
+  isShared: input.isShared,
+  openingHours: input.openingHours?.map((hours: Record<string, any>) => ({
+    dayOfWeek: hours.dayOfWeek,
+    startTime: hours.startTime,
+    endTime: hours.endTime,
+  })),
+});
+
+/**
+ * @swagger
+ * /api/venues:
+ *   get:
+ *     summary: List the venues a band can use
+ *     description: The band's own venues plus venues other bands share, with their average rating.
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: bandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeShared
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *       - in: query
+ *         name: search
+ *         description: Matches name or address
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Venues ordered by name
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not a member of the band
+ */
+router.get(
+  '/',
+  authenticate,
+  [
+    query('bandId').isUUID().withMessage('Valid band ID is required'),
+    query('includeShared').optional().isBoolean().withMessage('includeShared must be a boolean'),
+    query('search').optional().isString().trim(),
+    validate,
+  ],
+  requireBandPermission(bandFromQuery()),
+  async (req, res, next) => {
+    try {
+      const venues = await listVenues(req.query.bandId as string, {
+        includeShared: req.query.includeShared !== 'false',
+        search: req.query.search as string | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: venues,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/venues:
+ *   post:
+ *     summary: Register a venue for a band
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bandId
+ *               - name
+ *             properties:
+ *               bandId:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               capacity:
+ *                 type: integer
+ *               hourlyCostCents:
+ *                 type: integer
+ *                 description: Hourly cost in the smallest unit of currency
+ *               currency:
+ *                 type: string
+ *                 example: EUR
+ *               equipment:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["drum kit", "PA", "bass amp"]
+ *               accessNotes:
+ *                 type: string
+ *               timezone:
+ *                 type: string
+ *                 description: IANA timezone of the opening hours (default UTC)
+ *               isShared:
+ *                 type: boolean
+ *                 description: Let every band find and use the venue
+ *               openingHours:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     dayOfWeek:
+ *                       type: integer
+ *                       description: 0 = Sunday
+ *                     startTime:
+ *                       type: string
+ *                       example: "10:00"
+ *                     endTime:
+ *                       type: string
+ *                       example: "23:00"
+ *     responses:
+ *       201:
+ *         description: Venue created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage the band's venues (MANAGE_VENUES)
+ */
+router.post(
+  '/',
+  authenticate,
+  [
+    body('bandId').isUUID().withMessage('Valid band ID is required'),
+    body('name')
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Name is required (max 200 characters)'),
+    ...venueFields,
+    validate,
+  ],
+  requireBandPermission(bandFromBody(), 'MANAGE_VENUES'),
+  async (req, res, next) => {
+    try {
+      const venue = await createVenue(req.body.bandId, {
+        ...venueData(req.body),
+        name: req.body.name,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Venue created successfully',
+        data: venue,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/venues/{id}:
+ *   get:
+ *     summary: Get a venue
+ *     description: Venues of your bands and shared venues, with opening hours and average rating.
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Venue details
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Venue not found
+ */
+router.get(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid venue ID'), validate],
+  async (req, res, next) => {
+    try {
+      const venue = await getVenueForUser(req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: venue,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/venues/{id}:
+ *   put:
+ *     summary: Update a venue
+ *     description: >
+ *       Fields set to null are cleared. openingHours, when given, replaces
+ *       all opening hours. Only the band that registered the venue can
+ *       change it.
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Venue updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage the band's venues (MANAGE_VENUES)
+ *       404:
+ *         description: Venue not found
+ */
+router.put(
+  '/:id',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid venue ID'),
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Name must be between 1 and 200 characters'),
+    ...venueFields,
+    validate,
+  ],
+  requireBandPermission(bandOfVenue(), 'MANAGE_VENUES'),
+  async (req, res, next) => {
+    try {
+      const venue = await updateVenue(req.params.id, venueData(req.body));
+
+      res.status(200).json({
+        success: true,
+        message: 'Venue updated successfully',
+        data: venue,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/venues/{id}:
+ *   delete:
+ *     summary: Delete a venue
+ *     description: >
+ *       Rehearsals at the venue, including other bands' at a shared venue,
+ *       keep their location text.
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Venue deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage the band's venues (MANAGE_VENUES)
+ *       404:
+ *         description: Venue not found
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid venue ID'), validate],
+  requireBandPermission(bandOfVenue(), 'MANAGE_VENUES'),
+  async (req, res, next) => {
+    try {
+      await prisma.venue.delete({ where: { id: req.params.id } });
+
+      res.status(200).json({
+        success: true,
+        message: 'Venue deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/venues/{id}/ratings:
+ *   get:
+ *     summary: Get the ratings and feedback members left for a venue
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Ratings with the member and rehearsal, newest first
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Venue not found
+ */
+router.get(
+  '/:id/ratings',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid venue ID'), validate],
+  async (req, res, next) => {
+    try {
+      const venue = await getVenueForUser(req.params.id, req.user!.id);
+      const ratings = await listVenueRatings(venue.id);
+
+      res.status(200).json({
+        success: true,
+        data: ratings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const rangeValidators = [
+  query('start').optional().isISO8601().withMessage('Invalid start date'),
+  query('end').optional().isISO8601().withMessage('Invalid end date'),
+];
+
+// From now for two weeks unless given; at most MAX_CALENDAR_DAYS long
+const calendarRange = (req: Request): Interval | null => {
+  const start = req.query.start ? new Date(req.query.start as string) : new Date();
+  const end = req.query.end
+    ? new Date(req.query.end as string)
+    : new Date(start.getTime() + DEFAULT_CALENDAR_DAYS * DAY_MS);
+
+  if (start >= end || end.getTime() - start.getTime() > MAX_CALENDAR_DAYS * DAY_MS) {
+    return null;
+  }
+
+  return { start, end };
+};
+
+const invalidRange = {
+  success: false,
+  message: `Start must be before end and the range cannot exceed ${MAX_CALENDAR_DAYS} days`,
+  error: 'Bad Request',
+};
+
+/**
+ * @swagger
+ * /api/venues/{id}/calendar:
+ *   get:
+ *     summary: Get a venue's booking calendar
+ *     description: >
+ *       Opening times, rehearsals booked by any band (titles only for your
+ *       own bands) and blocked-out periods in the range.
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to now
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to two weeks after start (at most 92 days)
+ *     responses:
+ *       200:
+ *         description: Open times, bookings and blocks
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Venue not found
+ */
+router.get(
+  '/:id/calendar',
+  authenticate,
+  [param('id').isUUID().withMessage('Invalid venue ID'), ...rangeValidators, validate],
+  async (req, res, next) => {
+    try {
+      const venue = await getVenueForUser(req.params.id, req.user!.id);
+      const range = calendarRange(req);
+
+      if (!range) {
+        return res.status(400).json(invalidRange);
+      }
+
+      const memberships = await prisma.bandMember.findMany({
+        where: { userId: req.user!.id, status: 'ACTIVE' },
+        select: { bandId: true },
+      });
+
+      const calendar = await getVenueCalendar(
+        venue.id,
+        range,
+        memberships.map((membership) => membership.bandId)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: calendar,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/venues/{id}/free-slots:
+ *   get:
+ *     summary: Find when a venue is free
+ *     description: >
+ *       Stretches of at least `duration` minutes in the range when the venue
+ *       is open, not booked by any band and not blocked out.
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: duration
+ *         schema:
+ *           type: integer
+ *           default: 60
+ *         description: Minimum length in minutes
+ *     responses:
+ *       200:
+ *         description: Free periods in time order
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Venue not found
+ */
+router.get(
+  '/:id/free-slots',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid venue ID'),
+    ...rangeValidators,
+    query('duration')
+      .optional()
+      .isInt({ min: 15, max: 24 * 60 })
+      .toInt()
+      .withMessage('Duration must be between 15 and 1440 minutes'),
+    validate,
+  ],
+  async (req, res, next) => {
+    try {
+      const venue = await getVenueForUser(req.params.id, req.user!.id);
+      const range = calendarRange(req);
+
+      if (!range) {
+        return res.status(400).json(invalidRange);
+      }
+
+      const duration = (req.query.duration as unknown as number | undefined) || 60;
+      const slots = await findFreeSlots(venue.id, range, duration * MINUTE_MS);
+
+      res.status(200).json({
+        success: true,
+        data: slots,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/venues/{id}/blocks:
+ *   post:
+ *     summary: Block out a period at a venue, e.g. for maintenance
+ *     description: >
+ *       No band can book the venue during the period. Rehearsals already
+ *       booked then are kept and listed in the response.
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDatetime
+ *               - endDatetime
+ *             properties:
+ *               startDatetime:
+ *                 type: string
+ *                 format: date-time
+ *               endDatetime:
+ *                 type: string
+ *                 format: date-time
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Block created, with the rehearsals it affects
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage the band's venues (MANAGE_VENUES)
+ *       404:
+ *         description: Venue not found
+ */
+router.post(
+  '/:id/blocks',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid venue ID'),
+    body('startDatetime').isISO8601().toDate().withMessage('Valid start date/time is required'),
+    body('endDatetime').isISO8601().toDate().withMessage('Valid end date/time is required'),
+    body('reason')
+      .optional({ values: 'null' })
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage('Reason must be at most 200 characters'),
+    validate,
+  ],
+  requireBandPermission(bandOfVenue(), 'MANAGE_VENUES'),
+  async (req, res, next) => {
+    try {
+      const { startDatetime, endDatetime, reason } = req.body;
+
+      if (startDatetime >= endDatetime) {
+        return res.status(400).json({
+          success: false,
+          message: 'End time must be after start time',
+          error: 'Bad Request',
+        });
+      }
+
+      const { block, affectedRehearsals } = await createVenueBlock(req.params.id, {
+        startDatetime,
+        endDatetime,
+        reason,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Venue blocked out successfully',
+        data: { ...block, affectedRehearsals },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/venues/{id}/blocks/{blockId}:
+ *   delete:
+ *     summary: Remove a blocked-out period
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: blockId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Block removed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not allowed to manage the band's venues (MANAGE_VENUES)
+ *       404:
+ *         description: Venue or block not found
+ */
+router.delete(
+  '/:id/blocks/:blockId',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Invalid venue ID'),
+    param('blockId').isUUID().withMessage('Invalid block ID'),
+    validate,
+  ],
+  requireBandPermission(bandOfVenue(), 'MANAGE_VENUES'),
+  async (req, res, next) => {
+    try {
+      const deleted = await deleteVenueBlock(req.params.id, req.params.blockId);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          message: 'Block not found',
+          error: 'Not Found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Block removed successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -3,6 +3,13 @@ dotenv.config();
 
 import app from './app';
 import { logger } from './utils/logger';
+import { startDeliveryWorker } from './services/delivery.service';
+import { startReminderWorker } from './services/reminder.service';
+import { extendRecurringSeries } from './services/rehearsal.service';
+import { attachRealtimeServer } from './services/realtime.service';
+import { purgeOldSessions } from './services/session.service';
+import { scheduleJob } from './utils/scheduler';
+import { HOUR_MS } from './utils/time';
 
 const PORT = process.env.PORT || 8000;
 
@@ -11,6 +18,19 @@ const server = app.listen(PORT, () => {
   logger.info(`API Documentation available at http://localhost:${PORT}/api-docs`);
 });
 
+// WebSocket endpoint for realtime chat delivery
+attachRealtimeServer(server);
+
+// Background jobs: rehearsal reminders, notification delivery by email, SMS
+// and push, extending open-ended rehearsal series and cleanup of old login
+// sessions
+if (process.env.NODE_ENV !== 'test') {
+  startReminderWorker(Number(process.env.REMINDER_POLL_INTERVAL_MS) || 60000);
+  startDeliveryWorker(Number(process.env.NOTIFICATION_POLL_INTERVAL_MS) || 15000);
+  scheduleJob('series extension', HOUR_MS, extendRecurringSeries);
+  scheduleJob('session cleanup', HOUR_MS, purgeOldSessions);
+}
+
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (err: Error) => {
   logger.error('Unhandled Rejection:', err);
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { PrismaClient } from '@prisma/client';
+import { badRequest } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { DAY_MS, HOUR_MS } from '../utils/time';
+import { appLink, sendEmail } from './mail.service';
+import { hashToken, revokeAllSessions } from './session.service';
+
+const prisma = new PrismaClient();
+
+export type AccountTokenType = 'PASSWORD_RESET' | 'EMAIL_VERIFICATION';
+
+const TOKEN_TTL_MS: Record<AccountTokenType, number> = {
+  PASSWORD_RESET: HOUR_MS,
+  EMAIL_VERIFICATION: 2 * DAY_MS,
+};
+
+interface AccountUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Issue a new token of the given type, invalidating any unused ones so
+ * only the most recent email works.
+ */
+const issueAccountToken = async (userId: string, type: AccountTokenType) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await prisma.$transaction([
+    prisma.accountToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.accountToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type]),
+      },
+    }),
+  ]);
+
+  return token;
+};
+
+/**
+ * Mark a token as used and return its user id. Fails for unknown, expired
+ * and already used tokens.
+ */
+const consumeAccountToken = async (token: string, type: AccountTokenType): Promise<string> => {
+  const stored = await prisma.accountToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!stored || stored.type !== type || stored.expiresAt <= new Date()) {
+    throw badRequest('Invalid or expired token');
+  }
+
+  const { count } = await prisma.accountToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw badRequest('Invalid or expired token');
+  }
+
+  return stored.userId;
+};
+
+export const sendVerificationEmail = async (user: AccountUser): Promise<void> => {
+  const token = await issueAccountToken(user.id, 'EMAIL_VERIFICATION');
+
+  await sendEmail(user, {
+    subject: 'Verify your email address',
+    text: `Hi ${user.name}, please confirm your email address to start joining bands. The link is valid for 48 hours.`,
+    url: appLink(`/verify-email?token=${token}`),
+  });
+};
+
+export const verifyEmail = async (token: string) => {
+  const userId = await consumeAccountToken(token, 'EMAIL_VERIFICATION');
+
+  return prisma.user.update({
+    where: { id: userId },
+    data: { emailVerifiedAt: new Date() },
+    select: {
+      id: true,
+      email: true,
+      emailVerifiedAt: true,
+    },
+  });
+};
+
+/**
+ * Email a password reset link if the address belongs to a user. Callers
+ * respond the same either way so the endpoint can't be used to probe for
+ * accounts; for that reason mail failures are logged rather than thrown,
+ * and the email is sent without waiting for it.
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  });
+
+  if (!user) {
+    logger.debug(`Password reset requested for unknown email ${email}`);
+    return;
+  }
+
+  const token = await issueAccountToken(user.id, 'PASSWORD_RESET');
+
+  sendEmail(user, {
+    subject: 'Reset your password',
+    text: `Hi ${user.name}, use this link to choose a new password. It is valid for 1 hour. If you didn't ask for this, you can ignore this email.`,
+    url: appLink(`/reset-password?token=${token}`),
+  }).catch((error) =>
+    logger.error(`Failed to send password reset email to ${user.email}: ${error.message}`)
+  );
+};
+
+/**
+ * Set a new password from a reset token and log out every session, since
+ * whoever knew the old password may still be logged in.
+ */
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+  const userId = await consumeAccountToken(token, 'PASSWORD_RESET');
+
+  const salt = await bcrypt.genSalt(10);
+  const hashedPassword = await bcrypt.hash(password, salt);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { password: hashedPassword },
+  });
+
+  // Receiving the email proves the address too
+  await prisma.user.updateMany({
+    where: { id: userId, emailVerifiedAt: null },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  await revokeAllSessions(userId, 'PASSWORD_RESET');
+};
@@ -0,0 +1,318 @@
+import { PrismaClient, RehearsalAttendance } from '@prisma/client';
+import { HOUR_MS, getZonedParts, parseDuration, zonedTimeToUtc } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+// Dropping out closer than this to the start counts as a late cancellation
+const lateCancellationWindowMs = () =>
+  parseDuration(process.env.LATE_CANCELLATION_WINDOW || '24h');
+
+/**
+ * The fields to write when a member answers an RSVP, keeping track of when
+ * they first answered and when a yes or maybe turned into a no.
+ */
+export const rsvpUpdate = (
+  previous: Pick<RehearsalAttendance, 'status' | 'respondedAt' | 'cancelledAt'>,
+  status: string,
+  now = new Date()
+) => ({
+  status,
+  respondedAt: previous.respondedAt ?? (status === 'PENDING' ? null : now),
+  cancelledAt:
+    status !== 'NOT_ATTENDING'
+      ? null
+      : ['ATTENDING', 'MAYBE'].includes(previous.status)
+        ? now
+        : previous.cancelledAt,
+});
+
+export interface ReportRange {
+  start: Date;
+  end: Date;
+}
+
+export type TrendInterval = 'week' | 'month';
+
+export const TREND_INTERVALS: TrendInterval[] = ['week', 'month'];
+
+const recordSelect = {
+  userId: true,
+  status: true,
+  requestedAt: true,
+  respondedAt: true,
+  cancelledAt: true,
+  checkInStatus: true,
+  checkInSource: true,
+  checkedInAt: true,
+  rehearsal: {
+    select: {
+      id: true,
+      title: true,
+      startDatetime: true,
+      // Check-ins recorded at the rehearsal; none means attendance wasn't taken
+      _count: {
+        select: {
+          attendances: {
+            where: { checkInStatus: { not: null } },
+          },
+        },
+      },
+    },
+  },
+};
+
+type AttendanceRecord = Awaited<ReturnType<typeof loadRecords>>[number];
+
+/**
+ * RSVPs for the band's rehearsals that took place in the range. Cancelled
+ * and upcoming rehearsals don't count, nor do RSVPs cancelled because the
+ * member left the band.
+ */
+const loadRecords = (bandId: string, range: ReportRange, userId?: string) =>
+  prisma.rehearsalAttendance.findMany({
+    where: {
+      userId,
+      memberLeftAt: null,
+      rehearsal: {
+        bandId,
+        status: { not: 'CANCELLED' },
+        startDatetime: {
+          gte: range.start,
+          lt: new Date(Math.min(range.end.getTime(), Date.now())),
+        },
+      },
+    },
+    select: recordSelect,
+    orderBy: {
+      rehearsal: { startDatetime: 'asc' },
+    },
+  });
+
+/**
+ * What actually happened: the recorded check-in, ABSENT for members without
+ * one at rehearsals where attendance was taken, and null where it wasn't.
+ */
+const actualAttendance = (record: AttendanceRecord): string | null =>
+  record.rehearsal._count.attendances > 0 ? (record.checkInStatus ?? 'ABSENT') : null;
+
+const classify = (record: AttendanceRecord, windowMs: number) => {
+  const actual = actualAttendance(record);
+
+  return {
+    actual,
+    // Said they'd come and didn't
+    noShow: actual === 'ABSENT' && record.status === 'ATTENDING',
+    // Came without having said they would
+    unannounced: (actual === 'PRESENT' || actual === 'LATE') && record.status !== 'ATTENDING',
+    lateCancellation:
+      record.status === 'NOT_ATTENDING' &&
+      record.cancelledAt !== null &&
+      record.rehearsal.startDatetime.getTime() - record.cancelledAt.getTime() < windowMs,
+    responseHours: record.respondedAt
+      ? Math.max(0, record.respondedAt.getTime() - record.requestedAt.getTime()) / HOUR_MS
+      : null,
+  };
+};
+
+const ratio = (count: number, total: number) =>
+  total === 0 ? null : Math.round((count / total) * 1000) / 1000;
+
+const roundHours = (hours: number | null) => (hours === null ? null : Math.round(hours * 10) / 10);
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Aggregate RSVPs and check-ins. `expected` counts the rehearsals members
+ * were asked to RSVP for and RSVP rates are shares of it; `tracked` counts
+ * those where attendance was taken and actual attendance rates are shares
+ * of that. The no-show rate is the share of tracked "attending" RSVPs that
+ * didn't turn up. Rates are null when there is nothing to divide by.
+ */
+export const summarizeAttendance = (records: AttendanceRecord[], windowMs = lateCancellationWindowMs()) => {
+  const count = (status: string) => records.filter((record) => record.status === status).length;
+  const classified = records.map((record) => classify(record, windowMs));
+  const responseHours = classified
+    .map((item) => item.responseHours)
+    .filter((hours): hours is number => hours !== null);
+  const actual = (status: string) => classified.filter((item) => item.actual === status).length;
+  const tracked = classified.filter((item) => item.actual !== null).length;
+  const trackedAttending = records.filter(
+    (record, index) => classified[index].actual !== null && record.status === 'ATTENDING'
+  ).length;
+  const noShows = classified.filter((item) => item.noShow).length;
+  const lateCancellations = classified.filter((item) => item.lateCancellation).length;
+
+  return {
+    expected: records.length,
+    attending: count('ATTENDING'),
+    maybe: count('MAYBE'),
+    notAttending: count('NOT_ATTENDING'),
+    noResponse: count('PENDING'),
+    attendanceRate: ratio(count('ATTENDING'), records.length),
+    tracked,
+    present: actual('PRESENT'),
+    late: actual('LATE'),
+    absent: actual('ABSENT'),
+    actualAttendanceRate: ratio(actual('PRESENT') + actual('LATE'), tracked),
+    lateRate: ratio(actual('LATE'), tracked),
+    noShows,
+    noShowRate: ratio(noShows, trackedAttending),
+    unannounced: classified.filter((item) => item.unannounced).length,
+    lateCancellations,
+    lateCancellationRate: ratio(lateCancellations, records.length),
+    averageResponseHours: roundHours(
+      responseHours.length ? responseHours.reduce((sum, hours) => sum + hours, 0) / responseHours.length : null
+    ),
+    medianResponseHours: roundHours(median(responseHours)),
+  };
+};
+
+export type AttendanceSummary = ReturnType<typeof summarizeAttendance>;
+
+/**
+ * Attendance of a whole band over a range: totals plus one summary per
+ * member who was asked to RSVP, including former members.
+ */
+export const buildBandAttendanceReport = async (bandId: string, range: ReportRange) => {
+  const records = await loadRecords(bandId, range);
+  const windowMs = lateCancellationWindowMs();
+
+  const users = await prisma.user.findMany({
+    where: {
+      id: { in: [...new Set(records.map((record) => record.userId))] },
+    },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      bandMembers: {
+        where: { bandId },
+        select: { status: true },
+      },
+    },
+    orderBy: {
+      name: 'asc',
+    },
+  });
+
+  return {
+    range,
+    lateCancellationWindowHours: windowMs / HOUR_MS,
+    summary: {
+      rehearsals: new Set(records.map((record) => record.rehearsal.id)).size,
+      ...summarizeAttendance(records, windowMs),
+    },
+    members: users.map(({ bandMembers, ...user }) => ({
+      user,
+      membershipStatus: bandMembers[0]?.status ?? null,
+      ...summarizeAttendance(
+        records.filter((record) => record.userId === user.id),
+        windowMs
+      ),
+    })),
+  };
+};
+
+/**
+ * One member's attendance in a band over a range, with their RSVP for
+ * each rehearsal.
+ */
+export const buildMemberAttendanceReport = async (
+  bandId: string,
+  userId: string,
+  range: ReportRange
+) => {
+  const records = await loadRecords(bandId, range, userId);
+  const windowMs = lateCancellationWindowMs();
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  });
+
+  return {
+    user,
+    range,
+    lateCancellationWindowHours: windowMs / HOUR_MS,
+    summary: summarizeAttendance(records, windowMs),
+    rehearsals: records.map((record) => {
+      const { _count, ...rehearsal } = record.rehearsal;
+      const { responseHours, ...flags } = classify(record, windowMs);
+
+      return {
+        ...rehearsal,
+        attendanceTaken: _count.attendances > 0,
+        rsvp: record.status,
+        requestedAt: record.requestedAt,
+        respondedAt: record.respondedAt,
+        cancelledAt: record.cancelledAt,
+        responseHours: roundHours(responseHours),
+        checkInSource: record.checkInSource,
+        checkedInAt: record.checkedInAt,
+        ...flags,
+      };
+    }),
+  };
+};
+
+// Start of the week (Monday) or month containing `date`, on the given wall clock
+const periodStart = (date: Date, interval: TrendInterval, timeZone: string): Date => {
+  const { year, month, day, dayOfWeek } = getZonedParts(date, timeZone);
+
+  return interval === 'month'
+    ? zonedTimeToUtc({ year, month, day: 1, hour: 0, minute: 0 }, timeZone)
+    : zonedTimeToUtc({ year, month, day: day - ((dayOfWeek + 6) % 7), hour: 0, minute: 0 }, timeZone);
+};
+
+const nextPeriodStart = (start: Date, interval: TrendInterval, timeZone: string): Date => {
+  const { year, month, day } = getZonedParts(start, timeZone);
+
+  return interval === 'month'
+    ? zonedTimeToUtc({ year, month: month + 1, day: 1, hour: 0, minute: 0 }, timeZone)
+    : zonedTimeToUtc({ year, month, day: day + 7, hour: 0, minute: 0 }, timeZone);
+};
+
+/**
+ * Attendance summaries per week (starting Monday) or calendar month in the
+ * given timezone, for the band or, with `userId`, one member.
+ */
+export const buildAttendanceTrend = async (
+  bandId: string,
+  range: ReportRange,
+  interval: TrendInterval,
+  timeZone: string,
+  userId?: string
+) => {
+  const records = await loadRecords(bandId, range, userId);
+  const windowMs = lateCancellationWindowMs();
+  const series: (AttendanceSummary & { periodStart: Date; periodEnd: Date; rehearsals: number })[] = [];
+
+  for (
+    let start = periodStart(range.start, interval, timeZone);
+    start < range.end;
+    start = nextPeriodStart(start, interval, timeZone)
+  ) {
+    const end = nextPeriodStart(start, interval, timeZone);
+    const inPeriod = records.filter(
+      (record) => record.rehearsal.startDatetime >= start && record.rehearsal.startDatetime < end
+    );
+
+    series.push({
+      periodStart: start,
+      periodEnd: end,
+      rehearsals: new Set(inPeriod.map((record) => record.rehearsal.id)).size,
+      ...summarizeAttendance(inPeriod, windowMs),
+    });
+  }
+
+  return { range, interval, timezone: timeZone, userId: userId ?? null, series };
+};
@@ -0,0 +1,235 @@
+import { PrismaClient } from '@prisma/client';
+import { MINUTE_MS, getZonedDayAndMinutes, overlaps, parseTimeOfDay } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+/**
+ * BUSY: committed to another rehearsal. CALENDAR: busy in an imported calendar.
+ */
+export type UnavailableReason = 'BUSY' | 'CALENDAR' | 'BLACKOUT' | 'OUTSIDE_AVAILABILITY';
+
+/**
+ * AVAILABLE: inside a declared weekly window and not otherwise blocked.
+ * UNKNOWN: not blocked, but the member has not declared any weekly windows.
+ */
+export type AvailabilityState = 'AVAILABLE' | 'UNKNOWN' | UnavailableReason;
+
+export interface Interval {
+  start: Date;
+  end: Date;
+}
+
+export interface WeeklyWindow {
+  dayOfWeek: number;
+  start: number;
+  end: number;
+}
+
+export interface MemberAvailability {
+  id: string;
+  name: string;
+  timezone: string;
+  windows: WeeklyWindow[];
+  blackouts: Interval[];
+  busy: Interval[];
+  calendarBusy: Interval[];
+}
+
+export interface HeatmapSlot {
+  startDatetime: Date;
+  endDatetime: Date;
+  available: number;
+  unknown: number;
+  unavailable: number;
+  availableMemberIds: string[];
+}
+
+const toWeeklyWindows = (
+  windows: { dayOfWeek: number; startTime: string; endTime: string }[]
+): WeeklyWindow[] =>
+  windows.map((window) => ({
+    dayOfWeek: window.dayOfWeek,
+    start: parseTimeOfDay(window.startTime),
+    end: parseTimeOfDay(window.endTime),
+  }));
+
+/**
+ * Whether the slot sits entirely inside one of the member's weekly windows,
+ * read on the member's own wall clock. Slots crossing midnight are never
+ * considered covered.
+ */
+const isCoveredByWindows = (member: MemberAvailability, slot: Interval): boolean => {
+  const start = getZonedDayAndMinutes(slot.start, member.timezone);
+  const durationMinutes = (slot.end.getTime() - slot.start.getTime()) / MINUTE_MS;
+  const endMinutes = start.minutes + durationMinutes;
+
+  return member.windows.some(
+    (window) =>
+      window.dayOfWeek === start.dayOfWeek &&
+      window.start <= start.minutes &&
+      endMinutes <= window.end
+  );
+};
+
+/**
+ * Load everything needed to decide when the active members of a band are
+ * free between rangeStart and rangeEnd: weekly windows, blackout dates,
+ * imported calendar events and rehearsals they are committed to in any of
+ * their bands.
+ */
+export const loadBandAvailability = async (
+  bandId: string,
+  rangeStart: Date,
+  rangeEnd: Date
+): Promise<MemberAvailability[]> => {
+  const members = await prisma.bandMember.findMany({
+    where: {
+      bandId,
+      status: 'ACTIVE',
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          timezone: true,
+          availabilityWindows: true,
+          availabilityBlackouts: {
+            where: {
+              startDatetime: { lt: rangeEnd },
+              endDatetime: { gt: rangeStart },
+            },
+          },
+          busyBlocks: {
+            where: {
+              startDatetime: { lt: rangeEnd },
+              endDatetime: { gt: rangeStart },
+            },
+            select: {
+              startDatetime: true,
+              endDatetime: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const memberIds = members.map((member) => member.userId);
+
+  // Rehearsals the members are committed to, across every band they play in
+  const commitments = await prisma.rehearsalAttendance.findMany({
+    where: {
+      userId: { in: memberIds },
+      status: { not: 'NOT_ATTENDING' },
+      rehearsal: {
+        status: { not: 'CANCELLED' },
+        startDatetime: { lt: rangeEnd },
+        endDatetime: { gt: rangeStart },
+      },
+    },
+    select: {
+      userId: true,
+      rehearsal: {
+        select: {
+          startDatetime: true,
+          endDatetime: true,
+        },
+      },
+    },
+  });
+
+  return members.map((member) => ({
+    id: member.user.id,
+    name: member.user.name,
+    timezone: member.user.timezone,
+    windows: toWeeklyWindows(member.user.availabilityWindows),
+    blackouts: member.user.availabilityBlackouts.map((blackout) => ({
+      start: blackout.startDatetime,
+      end: blackout.endDatetime,
+    })),
+    busy: commitments
+      .filter((commitment) => commitment.userId === member.userId)
+      .map((commitment) => ({
+        start: commitment.rehearsal.startDatetime,
+        end: commitment.rehearsal.endDatetime,
+      })),
+    calendarBusy: member.user.busyBlocks.map((block) => ({
+      start: block.startDatetime,
+      end: block.endDatetime,
+    })),
+  }));
+};
+
+export const getAvailabilityState = (
+  member: MemberAvailability,
+  slot: Interval
+): AvailabilityState => {
+  const hits = (intervals: Interval[]) =>
+    intervals.some((interval) => overlaps(interval.start, interval.end, slot.start, slot.end));
+
+  if (hits(member.blackouts)) {
+    return 'BLACKOUT';
+  }
+
+  if (hits(member.busy)) {
+    return 'BUSY';
+  }
+
+  if (hits(member.calendarBusy)) {
+    return 'CALENDAR';
+  }
+
+  if (member.windows.length === 0) {
+    return 'UNKNOWN';
+  }
+
+  return isCoveredByWindows(member, slot) ? 'AVAILABLE' : 'OUTSIDE_AVAILABILITY';
+};
+
+/**
+ * Aggregate "who is free when" for a band, split into fixed-size slots
+ * aligned to the start of the range.
+ */
+export const buildAvailabilityHeatmap = async (
+  bandId: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  slotMinutes: number
+): Promise<{ members: { id: string; name: string; timezone: string }[]; slots: HeatmapSlot[] }> => {
+  const members = await loadBandAvailability(bandId, rangeStart, rangeEnd);
+  const slotMs = slotMinutes * MINUTE_MS;
+  const slots: HeatmapSlot[] = [];
+
+  for (let cursor = rangeStart.getTime(); cursor + slotMs <= rangeEnd.getTime(); cursor += slotMs) {
+    const slot = { start: new Date(cursor), end: new Date(cursor + slotMs) };
+    const heatmapSlot: HeatmapSlot = {
+      startDatetime: slot.start,
+      endDatetime: slot.end,
+      available: 0,
+      unknown: 0,
+      unavailable: 0,
+      availableMemberIds: [],
+    };
+
+    members.forEach((member) => {
+      const state = getAvailabilityState(member, slot);
+
+      if (state === 'AVAILABLE') {
+        heatmapSlot.available += 1;
+        heatmapSlot.availableMemberIds.push(member.id);
+      } else if (state === 'UNKNOWN') {
+        heatmapSlot.unknown += 1;
+      } else {
+        heatmapSlot.unavailable += 1;
+      }
+    });
+
+    slots.push(heatmapSlot);
+  }
+
+  return {
+    members: members.map(({ id, name, timezone }) => ({ id, name, timezone })),
+    slots,
+  };
+};
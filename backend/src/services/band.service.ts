@@ -0,0 +1,32 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { deleteStoredFiles } from './storage.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Delete a band and everything that cascades from it (members, rehearsals,
+ * songs, setlists, ...). Returns the storage keys of its uploaded files,
+ * which the caller removes once the transaction has committed.
+ */
+export const deleteBandRecords = async (
+  tx: Prisma.TransactionClient,
+  bandId: string
+): Promise<string[]> => {
+  const materials = await tx.rehearsalMaterial.findMany({
+    where: {
+      rehearsal: { bandId },
+      storageKey: { not: null },
+    },
+    select: { storageKey: true },
+  });
+
+  await tx.band.delete({ where: { id: bandId } });
+
+  return materials.map((material) => material.storageKey!);
+};
+
+export const deleteBand = async (bandId: string): Promise<void> => {
+  const files = await prisma.$transaction((tx) => deleteBandRecords(tx, bandId));
+
+  await deleteStoredFiles(files);
+};
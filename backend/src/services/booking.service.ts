@@ -0,0 +1,378 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Interval } from './availability.service';
+import { conflict, notFound } from '../utils/errors';
+import { DAY_MS, getZonedParts, overlaps, parseTimeOfDay, zonedTimeToUtc } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+/**
+ * BOOKED: another band has a rehearsal at the venue then.
+ * BLOCKED: the venue is blocked out, e.g. for maintenance.
+ * CLOSED: outside the venue's opening hours.
+ */
+export type VenueUnavailableReason = 'BOOKED' | 'BLOCKED' | 'CLOSED';
+
+export interface VenueUnavailability {
+  type: VenueUnavailableReason;
+  slot: {
+    startDatetime: Date;
+    endDatetime: Date;
+  };
+  // Other bands' rehearsal titles are private, so only the band and time are exposed
+  booking?: {
+    bandId: string;
+    bandName: string;
+    startDatetime: Date;
+    endDatetime: Date;
+  };
+  block?: {
+    id: string;
+    reason: string | null;
+    startDatetime: Date;
+    endDatetime: Date;
+  };
+}
+
+export interface VenueBlockInput {
+  startDatetime: Date;
+  endDatetime: Date;
+  reason?: string | null;
+}
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+interface VenueHours {
+  timezone: string;
+  openingHours: { dayOfWeek: number; startTime: string; endTime: string }[];
+}
+
+const loadVenue = async (db: Db, venueId: string) => {
+  const venue = await db.venue.findUnique({
+    where: { id: venueId },
+    include: { openingHours: true },
+  });
+
+  if (!venue) {
+    throw notFound('Venue not found');
+  }
+
+  return venue;
+};
+
+const mergeIntervals = (intervals: Interval[]): Interval[] => {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: Interval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * When the venue is open within the range, as merged intervals, so opening
+ * hours running past midnight into the next day's hours join up. Venues
+ * without opening hours are always open.
+ */
+export const openIntervals = (venue: VenueHours, range: Interval): Interval[] => {
+  if (venue.openingHours.length === 0) {
+    return [{ start: range.start, end: range.end }];
+  }
+
+  const first = getZonedParts(new Date(range.start.getTime() - DAY_MS), venue.timezone);
+  const days = Math.ceil((range.end.getTime() - range.start.getTime()) / DAY_MS) + 2;
+  const intervals: Interval[] = [];
+
+  for (let offset = 0; offset <= days; offset++) {
+    const date = { year: first.year, month: first.month, day: first.day + offset };
+    const midday = zonedTimeToUtc({ ...date, hour: 12, minute: 0 }, venue.timezone);
+    const { dayOfWeek } = getZonedParts(midday, venue.timezone);
+
+    const at = (time: string) => {
+      const minutes = parseTimeOfDay(time);
+      return zonedTimeToUtc(
+        { ...date, hour: Math.floor(minutes / 60), minute: minutes % 60 },
+        venue.timezone
+      );
+    };
+
+    for (const hours of venue.openingHours.filter((item) => item.dayOfWeek === dayOfWeek)) {
+      intervals.push({ start: at(hours.startTime), end: at(hours.endTime) });
+    }
+  }
+
+  return mergeIntervals(intervals)
+    .filter((interval) => overlaps(interval.start, interval.end, range.start, range.end))
+    .map((interval) => ({
+      start: interval.start < range.start ? range.start : interval.start,
+      end: interval.end > range.end ? range.end : interval.end,
+    }));
+};
+
+const isOpen = (venue: VenueHours, slot: Interval): boolean =>
+  openIntervals(venue, slot).some(
+    (interval) => interval.start <= slot.start && slot.end <= interval.end
+  );
+
+/**
+ * Why the venue can't be booked by the band for each of the slots: other
+ * bands' rehearsals, blocked-out periods and opening hours. The band's own
+ * rehearsals are left to the scheduling conflict check.
+ */
+export const findVenueUnavailability = async (
+  db: Db,
+  venueId: string,
+  bandId: string,
+  slots: Interval[],
+  excludeRehearsalIds: string[] = []
+): Promise<VenueUnavailability[]> => {
+  if (slots.length === 0) {
+    return [];
+  }
+
+  const venue = await loadVenue(db, venueId);
+  const rangeStart = new Date(Math.min(...slots.map((slot) => slot.start.getTime())));
+  const rangeEnd = new Date(Math.max(...slots.map((slot) => slot.end.getTime())));
+
+  const [bookings, blocks] = await Promise.all([
+    db.rehearsal.findMany({
+      where: {
+        venueId,
+        bandId: { not: bandId },
+        id: { notIn: excludeRehearsalIds },
+        status: { not: 'CANCELLED' },
+        startDatetime: { lt: rangeEnd },
+        endDatetime: { gt: rangeStart },
+      },
+      select: {
+        bandId: true,
+        band: { select: { name: true } },
+        startDatetime: true,
+        endDatetime: true,
+      },
+    }),
+    db.venueBlock.findMany({
+      where: {
+        venueId,
+        startDatetime: { lt: rangeEnd },
+        endDatetime: { gt: rangeStart },
+      },
+    }),
+  ]);
+
+  const problems: VenueUnavailability[] = [];
+
+  for (const slot of slots) {
+    const at = { startDatetime: slot.start, endDatetime: slot.end };
+
+    if (!isOpen(venue, slot)) {
+      problems.push({ type: 'CLOSED', slot: at });
+    }
+
+    for (const booking of bookings) {
+      if (overlaps(slot.start, slot.end, booking.startDatetime, booking.endDatetime)) {
+        problems.push({
+          type: 'BOOKED',
+          slot: at,
+          booking: {
+            bandId: booking.bandId,
+            bandName: booking.band.name,
+            startDatetime: booking.startDatetime,
+            endDatetime: booking.endDatetime,
+          },
+        });
+      }
+    }
+
+    for (const block of blocks) {
+      if (overlaps(slot.start, slot.end, block.startDatetime, block.endDatetime)) {
+        problems.push({
+          type: 'BLOCKED',
+          slot: at,
+          block: {
+            id: block.id,
+            reason: block.reason,
+            startDatetime: block.startDatetime,
+            endDatetime: block.endDatetime,
+          },
+        });
+      }
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Check that the venue is free for the band at every slot, inside the
+ * transaction that saves the rehearsals. Run it in a serializable
+ * transaction so two bands can't book the same time concurrently. Unlike
+ * scheduling conflicts this can't be overridden.
+ */
+export const reserveVenue = async (
+  tx: Prisma.TransactionClient,
+  venueId: string,
+  bandId: string,
+  slots: Interval[],
+  excludeRehearsalIds: string[] = []
+): Promise<void> => {
+  const problems = await findVenueUnavailability(tx, venueId, bandId, slots, excludeRehearsalIds);
+
+  if (problems.length > 0) {
+    throw conflict('The venue is not available at the requested time', problems);
+  }
+};
+
+/**
+ * Everything that occupies the venue in the range: rehearsals of every band
+ * (titles only for the viewer's own bands), blocked-out periods and the
+ * opening hours.
+ */
+export const getVenueCalendar = async (venueId: string, range: Interval, viewerBandIds: string[]) => {
+  const venue = await loadVenue(prisma, venueId);
+
+  const [rehearsals, blocks] = await Promise.all([
+    prisma.rehearsal.findMany({
+      where: {
+        venueId,
+        status: { not: 'CANCELLED' },
+        startDatetime: { lt: range.end },
+        endDatetime: { gt: range.start },
+      },
+      select: {
+        id: true,
+        title: true,
+        bandId: true,
+        band: { select: { name: true } },
+        startDatetime: true,
+        endDatetime: true,
+      },
+      orderBy: { startDatetime: 'asc' },
+    }),
+    prisma.venueBlock.findMany({
+      where: {
+        venueId,
+        startDatetime: { lt: range.end },
+        endDatetime: { gt: range.start },
+      },
+      orderBy: { startDatetime: 'asc' },
+    }),
+  ]);
+
+  return {
+    timezone: venue.timezone,
+    openingHours: venue.openingHours,
+    open: openIntervals(venue, range).map((interval) => ({
+      startDatetime: interval.start,
+      endDatetime: interval.end,
+    })),
+    bookings: rehearsals.map(({ band, title, id, ...booking }) => ({
+      ...booking,
+      bandName: band.name,
+      ...(viewerBandIds.includes(booking.bandId) && { rehearsalId: id, title }),
+    })),
+    blocks,
+  };
+};
+
+/**
+ * Stretches of at least `minDurationMs` in the range when the venue is
+ * open and neither booked by any band nor blocked out.
+ */
+export const findFreeSlots = async (venueId: string, range: Interval, minDurationMs: number) => {
+  const venue = await loadVenue(prisma, venueId);
+
+  const busy = await Promise.all([
+    prisma.rehearsal.findMany({
+      where: {
+        venueId,
+        status: { not: 'CANCELLED' },
+        startDatetime: { lt: range.end },
+        endDatetime: { gt: range.start },
+      },
+      select: { startDatetime: true, endDatetime: true },
+    }),
+    prisma.venueBlock.findMany({
+      where: {
+        venueId,
+        startDatetime: { lt: range.end },
+        endDatetime: { gt: range.start },
+      },
+      select: { startDatetime: true, endDatetime: true },
+    }),
+  ]).then(([rehearsals, blocks]) =>
+    mergeIntervals(
+      [...rehearsals, ...blocks].map((item) => ({ start: item.startDatetime, end: item.endDatetime }))
+    )
+  );
+
+  const free: Interval[] = [];
+
+  for (const open of openIntervals(venue, range)) {
+    let cursor = open.start;
+
+    for (const taken of busy) {
+      if (taken.end <= cursor || taken.start >= open.end) continue;
+      if (taken.start > cursor) free.push({ start: cursor, end: taken.start });
+      if (taken.end > cursor) cursor = taken.end;
+    }
+
+    if (cursor < open.end) free.push({ start: cursor, end: open.end });
+  }
+
+  return free
+    .filter((interval) => interval.end.getTime() - interval.start.getTime() >= minDurationMs)
+    .map((interval) => ({ startDatetime: interval.start, endDatetime: interval.end }));
+};
+
+/**
+ * Block out part of the venue's calendar. Rehearsals already booked in the
+ * period are kept and returned, so whoever blocked it can sort them out.
+ */
+export const createVenueBlock = async (venueId: string, input: VenueBlockInput) => {
+  const block = await prisma.venueBlock.create({
+    data: {
+      venueId,
+      startDatetime: input.startDatetime,
+      endDatetime: input.endDatetime,
+      reason: input.reason,
+    },
+  });
+
+  const affectedRehearsals = await prisma.rehearsal.findMany({
+    where: {
+      venueId,
+      status: { not: 'CANCELLED' },
+      startDatetime: { lt: block.endDatetime },
+      endDatetime: { gt: block.startDatetime },
+    },
+    select: {
+      id: true,
+      bandId: true,
+      band: { select: { name: true } },
+      startDatetime: true,
+      endDatetime: true,
+    },
+    orderBy: { startDatetime: 'asc' },
+  });
+
+  return { block, affectedRehearsals };
+};
+
+/**
+ * Remove a blocked-out period. Returns false if it doesn't exist.
+ */
+export const deleteVenueBlock = async (venueId: string, blockId: string): Promise<boolean> => {
+  const { count } = await prisma.venueBlock.deleteMany({
+    where: { id: blockId, venueId },
+  });
+
+  return count > 0;
+};
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { findRehearsalsForUser } from './rehearsal.service';
+import { ICalAttendee, buildICalendar } from '../utils/ical';
+import { DAY_MS } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+// Feeds include recent history so calendars don't drop last week's rehearsals
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 2 * 365;
+const UID_DOMAIN = 'rehearsal-scheduler';
+
+const PARTSTATS: Record<string, ICalAttendee['partstat']> = {
+  ATTENDING: 'ACCEPTED',
+  NOT_ATTENDING: 'DECLINED',
+  MAYBE: 'TENTATIVE',
+  PENDING: 'NEEDS-ACTION',
+};
+
+export const generateCalendarToken = (): string => crypto.randomBytes(24).toString('hex');
+
+/**
+ * Return the user's feed token, creating one on first use.
+ */
+export const getOrCreateCalendarToken = async (userId: string): Promise<string> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { calendarToken: true },
+  });
+
+  if (user?.calendarToken) {
+    return user.calendarToken;
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { calendarToken: generateCalendarToken() },
+    select: { calendarToken: true },
+  });
+
+  return updated.calendarToken!;
+};
+
+/**
+ * Build a VCALENDAR of the user's rehearsals, optionally limited to one band
+ * or a date range. Each event carries the user's own RSVP as an ATTENDEE.
+ */
+export const buildRehearsalCalendar = async (
+  user: { id: string; name: string; email: string },
+  filters: { bandId?: string; start?: Date; end?: Date } = {}
+): Promise<string> => {
+  const now = Date.now();
+  const rehearsals = await findRehearsalsForUser(user.id, {
+    bandId: filters.bandId,
+    start: filters.start ?? new Date(now - FEED_PAST_DAYS * DAY_MS),
+    end: filters.end ?? new Date(now + FEED_FUTURE_DAYS * DAY_MS),
+  });
+
+  const bandName = filters.bandId ? rehearsals[0]?.band.name : undefined;
+
+  return buildICalendar({
+    name: bandName ? `${bandName} rehearsals` : 'Rehearsals',
+    description: 'Rehearsals from Music Rehearsal Scheduler',
+    events: rehearsals.map((rehearsal) => {
+      const rsvp = rehearsal.attendances[0]?.status;
+
+      return {
+        uid: `${rehearsal.id}@${UID_DOMAIN}`,
+        sequence: rehearsal.sequence,
+        start: rehearsal.startDatetime,
+        end: rehearsal.endDatetime,
+        summary: `${rehearsal.band.name}: ${rehearsal.title}`,
+        description:
+          rehearsal.status === 'CANCELLED' && rehearsal.cancellationReason
+            ? `Cancelled: ${rehearsal.cancellationReason}`
+            : rehearsal.description,
+        location: rehearsal.venue?.address
+          ? `${rehearsal.location}, ${rehearsal.venue.address}`
+          : rehearsal.location,
+        status: rehearsal.status === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED',
+        created: rehearsal.createdAt,
+        lastModified: rehearsal.updatedAt,
+        categories: [rehearsal.band.name],
+        attendees: rsvp
+          ? [{ name: user.name, email: user.email, partstat: PARTSTATS[rsvp] || 'NEEDS-ACTION' }]
+          : [],
+      };
+    }),
+  });
+};
@@ -0,0 +1,227 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { badRequest, notFound } from '../utils/errors';
+import { ParsedICalEvent, parseICalendar } from '../utils/ical';
+import { PublicFetchError, fetchPublicUrl } from '../utils/publicFetch';
+import { expandRecurrence, parseRecurrencePattern } from '../utils/recurrence';
+import { DAY_MS } from '../utils/time';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export type CalendarSourceType = 'UPLOAD' | 'URL' | 'FILE';
+
+// Busy blocks are only kept for the window rehearsals are scheduled in
+const IMPORT_PAST_DAYS = 1;
+const IMPORT_FUTURE_DAYS = 180;
+const MAX_BLOCKS_PER_SOURCE = 5000;
+const MAX_ICS_BYTES = 2 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+
+export interface BusyInterval {
+  uid: string;
+  summary?: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Turn parsed events into busy intervals inside [rangeStart, rangeEnd).
+ * Recurring events are expanded, EXDATEs dropped and RECURRENCE-ID
+ * overrides replace the occurrence they modify. Cancelled and transparent
+ * ("show as free") events do not block time.
+ */
+export const toBusyIntervals = (
+  events: ParsedICalEvent[],
+  rangeStart: Date,
+  rangeEnd: Date
+): BusyInterval[] => {
+  const overrides = new Map<string, ParsedICalEvent[]>();
+
+  events
+    .filter((event) => event.recurrenceId)
+    .forEach((event) => {
+      overrides.set(event.uid, [...(overrides.get(event.uid) || []), event]);
+    });
+
+  const intervals: BusyInterval[] = [];
+  const push = (event: ParsedICalEvent, start: Date, end: Date) => {
+    if (event.cancelled || event.transparent) return;
+    if (end <= rangeStart || start >= rangeEnd || end <= start) return;
+    intervals.push({ uid: event.uid, summary: event.summary, start, end });
+  };
+
+  events
+    .filter((event) => !event.recurrenceId)
+    .forEach((event) => {
+      const durationMs = event.end.getTime() - event.start.getTime();
+
+      if (!event.rrule) {
+        push(event, event.start, event.end);
+        return;
+      }
+
+      let starts: Date[];
+
+      try {
+        const rule = parseRecurrencePattern(event.rrule, { maxCount: Number.MAX_SAFE_INTEGER });
+        starts = expandRecurrence(rule, event.start, event.timeZone, {
+          horizon: rangeEnd,
+          after: new Date(rangeStart.getTime() - durationMs),
+          maxOccurrences: MAX_BLOCKS_PER_SOURCE,
+        });
+      } catch (error) {
+        // Rules outside the supported subset (e.g. YEARLY) only block their first occurrence
+        logger.debug(`Unsupported RRULE in imported event ${event.uid}: ${event.rrule}`);
+        starts = [event.start];
+      }
+
+      const excluded = new Set(event.exdates.map((date) => date.getTime()));
+      const replaced = new Set(
+        (overrides.get(event.uid) || []).map((override) => override.recurrenceId!.getTime())
+      );
+
+      starts
+        .filter((start) => !excluded.has(start.getTime()) && !replaced.has(start.getTime()))
+        .forEach((start) => push(event, start, new Date(start.getTime() + durationMs)));
+    });
+
+  events
+    .filter((event) => event.recurrenceId)
+    .forEach((event) => push(event, event.start, event.end));
+
+  return intervals
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .slice(0, MAX_BLOCKS_PER_SOURCE);
+};
+
+/**
+ * Resolve a FILE source path. Only files below ICS_IMPORT_DIR can be read,
+ * so API users cannot make the server read arbitrary files.
+ */
+export const resolveImportPath = (filePath: string): string => {
+  const importDir = process.env.ICS_IMPORT_DIR;
+
+  if (!importDir) {
+    throw badRequest('Local calendar files are not enabled on this server');
+  }
+
+  const root = path.resolve(importDir);
+  const resolved = path.resolve(root, filePath);
+
+  if (resolved !== root && !resolved.startsWith(`${root}${path.sep}`)) {
+    throw badRequest(`Calendar files must be located inside ${root}`);
+  }
+
+  return resolved;
+};
+
+const readSource = async (type: CalendarSourceType, location: string): Promise<string> => {
+  if (type === 'FILE') {
+    const filePath = resolveImportPath(location);
+    const stats = await fs.stat(filePath);
+
+    if (stats.size > MAX_ICS_BYTES) {
+      throw new Error('Calendar file is too large');
+    }
+
+    return fs.readFile(filePath, 'utf8');
+  }
+
+  try {
+    return await fetchPublicUrl(location.replace(/^webcal:/i, 'https:'), {
+      accept: 'text/calendar',
+      maxBytes: MAX_ICS_BYTES,
+      timeoutMs: FETCH_TIMEOUT_MS,
+    });
+  } catch (error) {
+    if (error instanceof PublicFetchError) throw error;
+
+    // Network errors would tell the user what the server can reach
+    logger.debug(`Calendar URL ${location} could not be fetched: ${(error as Error).message}`);
+    throw new Error('The calendar URL could not be reached');
+  }
+};
+
+/**
+ * Replace the busy blocks of a source with the events of an iCalendar
+ * document. Returns the number of blocks stored.
+ */
+export const importCalendarText = async (
+  source: { id: string; userId: string },
+  text: string
+): Promise<number> => {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw badRequest('File is not an iCalendar (.ics) document');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: source.userId },
+    select: { timezone: true },
+  });
+
+  const now = Date.now();
+  const intervals = toBusyIntervals(
+    parseICalendar(text, user?.timezone || 'UTC'),
+    new Date(now - IMPORT_PAST_DAYS * DAY_MS),
+    new Date(now + IMPORT_FUTURE_DAYS * DAY_MS)
+  );
+
+  await prisma.$transaction([
+    prisma.busyBlock.deleteMany({ where: { sourceId: source.id } }),
+    prisma.busyBlock.createMany({
+      data: intervals.map((interval) => ({
+        userId: source.userId,
+        sourceId: source.id,
+        uid: interval.uid,
+        summary: interval.summary,
+        startDatetime: interval.start,
+        endDatetime: interval.end,
+      })),
+    }),
+    prisma.calendarSource.update({
+      where: { id: source.id },
+      data: { lastSyncedAt: new Date(), lastError: null },
+    }),
+  ]);
+
+  return intervals.length;
+};
+
+/**
+ * Re-read a URL or FILE source. Read failures are recorded on the source
+ * and rethrown as 400s; existing blocks are kept until a sync succeeds.
+ */
+export const syncCalendarSource = async (sourceId: string, userId: string) => {
+  const source = await prisma.calendarSource.findFirst({
+    where: { id: sourceId, userId },
+  });
+
+  if (!source) {
+    throw notFound('Calendar source not found');
+  }
+
+  if (source.type === 'UPLOAD' || !source.location) {
+    throw badRequest('Uploaded calendars cannot be synced; upload the file again instead');
+  }
+
+  let text: string;
+
+  try {
+    text = await readSource(source.type as CalendarSourceType, source.location);
+  } catch (error) {
+    if ((error as { statusCode?: number }).statusCode) throw error;
+
+    const message = (error as Error).message || 'Calendar could not be read';
+    await prisma.calendarSource.update({
+      where: { id: source.id },
+      data: { lastError: message },
+    });
+    throw badRequest(`Calendar could not be read: ${message}`);
+  }
+
+  const imported = await importCalendarText(source, text);
+
+  return { source, imported };
+};
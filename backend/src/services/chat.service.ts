@@ -0,0 +1,625 @@
+import { ChatChannel, ChatMessage, Prisma, PrismaClient } from '@prisma/client';
+import { badRequest, conflict, forbidden, notFound } from '../utils/errors';
+import { createNotifications, publishNotifications } from './notification.service';
+import { BandAccess, can } from './permission.service';
+import { publishToBand } from './realtime.service';
+
+const prisma = new PrismaClient();
+
+export const MAX_MESSAGE_LENGTH = 4000;
+
+// Mention notifications quote the start of the message
+const MENTION_EXCERPT_LENGTH = 100;
+
+export interface ChannelInput {
+  name?: string;
+  description?: string | null;
+  archived?: boolean;
+}
+
+const userSelect = {
+  id: true,
+  name: true,
+  profileImageUrl: true,
+};
+
+const channelInclude = {
+  rehearsal: {
+    select: {
+      id: true,
+      title: true,
+      startDatetime: true,
+      status: true,
+    },
+  },
+};
+
+const messageInclude = {
+  author: {
+    select: userSelect,
+  },
+  mentions: {
+    select: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+};
+
+type MessageWithMentions = Prisma.ChatMessageGetPayload<{ include: typeof messageInclude }>;
+
+const presentMessage = ({ mentions, ...message }: MessageWithMentions) => ({
+  ...message,
+  mentions: mentions.map((mention) => mention.user),
+});
+
+const isWordChar = (char: string | undefined) =>
+  char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+
+/**
+ * Members @mentioned in a message by name, case-insensitively. Where names
+ * share a prefix the longest match wins, so "@Anna Lena" isn't read as
+ * "@Anna". An @ inside a word, as in an email address, isn't a mention.
+ */
+export const findMentions = (content: string, members: { id: string; name: string }[]): string[] => {
+  const lower = content.toLowerCase();
+  const candidates = members
+    .filter((member) => member.name.trim())
+    .sort((a, b) => b.name.length - a.name.length);
+  const mentioned = new Set<string>();
+
+  for (let index = lower.indexOf('@'); index !== -1; index = lower.indexOf('@', index + 1)) {
+    if (isWordChar(content[index - 1])) continue;
+
+    const member = candidates.find((candidate) => {
+      const name = candidate.name.toLowerCase();
+      return lower.startsWith(name, index + 1) && !isWordChar(content[index + 1 + name.length]);
+    });
+
+    if (member) {
+      mentioned.add(member.id);
+    }
+  }
+
+  return [...mentioned];
+};
+
+const excerpt = (content: string) =>
+  content.length > MENTION_EXCERPT_LENGTH
+    ? `${content.slice(0, MENTION_EXCERPT_LENGTH - 1)}…`
+    : content;
+
+/**
+ * Record who a message mentions and notify those who weren't mentioned in
+ * it before. Only active members of the band other than the author count.
+ * Returns the notifications, to publish once the transaction commits.
+ */
+const syncMentions = async (
+  tx: Prisma.TransactionClient,
+  channel: ChatChannel & { rehearsal: { title: string } | null },
+  message: ChatMessage,
+  author: { id: string; name: string }
+) => {
+  const members = await tx.bandMember.findMany({
+    where: {
+      bandId: channel.bandId,
+      status: 'ACTIVE',
+      userId: { not: author.id },
+    },
+    select: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  });
+
+  const mentioned = findMentions(
+    message.content,
+    members.map((member) => member.user)
+  );
+  const existing = await tx.chatMention.findMany({
+    where: { messageId: message.id },
+    select: { userId: true },
+  });
+  const previous = existing.map((mention) => mention.userId);
+  const added = mentioned.filter((userId) => !previous.includes(userId));
+
+  await tx.chatMention.deleteMany({
+    where: {
+      messageId: message.id,
+      userId: { notIn: mentioned },
+    },
+  });
+
+  if (added.length === 0) {
+    return [];
+  }
+
+  await tx.chatMention.createMany({
+    data: added.map((userId) => ({ messageId: message.id, userId })),
+  });
+
+  const where = channel.rehearsal ? `the chat for ${channel.rehearsal.title}` : `#${channel.name}`;
+
+  return createNotifications(
+    tx,
+    added.map((userId) => ({
+      userId,
+      type: 'CHAT_MENTION',
+      content: `${author.name} mentioned you in ${where}: ${excerpt(message.content)}`,
+      relatedId: channel.rehearsalId ?? channel.bandId,
+    }))
+  );
+};
+
+export const findChannel = async (channelId: string) => {
+  const channel = await prisma.chatChannel.findUnique({
+    where: { id: channelId },
+    include: channelInclude,
+  });
+
+  if (!channel) {
+    throw notFound('Channel not found');
+  }
+
+  return channel;
+};
+
+export const findMessage = async (messageId: string) => {
+  const message = await prisma.chatMessage.findUnique({
+    where: { id: messageId },
+    include: {
+      channel: {
+        include: channelInclude,
+      },
+    },
+  });
+
+  if (!message) {
+    throw notFound('Message not found');
+  }
+
+  return message;
+};
+
+const assertWritable = (channel: ChatChannel) => {
+  if (channel.archivedAt) {
+    throw badRequest('This channel is archived');
+  }
+};
+
+/**
+ * How many messages from others the user hasn't read in each channel.
+ */
+const countUnread = async (channelIds: string[], userId: string) => {
+  const readStates = await prisma.chatReadState.findMany({
+    where: { channelId: { in: channelIds }, userId },
+  });
+
+  return Promise.all(
+    channelIds.map((channelId) =>
+      prisma.chatMessage.count({
+        where: {
+          channelId,
+          deletedAt: null,
+          authorId: { not: userId },
+          createdAt: {
+            gt: readStates.find((state) => state.channelId === channelId)?.lastReadAt,
+          },
+        },
+      })
+    )
+  );
+};
+
+/**
+ * The band's channels by name, with the latest message and the user's
+ * unread count. Rehearsal threads are left out unless `includeThreads`.
+ */
+export const listChannels = async (
+  bandId: string,
+  userId: string,
+  options: { includeArchived?: boolean; includeThreads?: boolean } = {}
+) => {
+  const channels = await prisma.chatChannel.findMany({
+    where: {
+      bandId,
+      ...(!options.includeArchived && { archivedAt: null }),
+      ...(!options.includeThreads && { rehearsalId: null }),
+    },
+    include: {
+      ...channelInclude,
+      messages: {
+        where: { deletedAt: null },
+        include: messageInclude,
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+    orderBy: {
+      name: 'asc',
+    },
+  });
+
+  const unread = await countUnread(
+    channels.map((channel) => channel.id),
+    userId
+  );
+
+  return channels.map(({ messages, ...channel }, index) => ({
+    ...channel,
+    lastMessage: messages[0] ? presentMessage(messages[0]) : null,
+    unreadCount: unread[index],
+  }));
+};
+
+/**
+ * A channel with how far each member has read it, for read receipts.
+ */
+export const getChannel = async (channelId: string) => {
+  const channel = await findChannel(channelId);
+
+  const readStates = await prisma.chatReadState.findMany({
+    where: { channelId },
+    select: {
+      lastReadMessageId: true,
+      lastReadAt: true,
+      user: {
+        select: userSelect,
+      },
+    },
+  });
+
+  return { ...channel, readStates };
+};
+
+const checkChannelName = async (bandId: string, name: string, channelId?: string) => {
+  const existing = await prisma.chatChannel.findFirst({
+    where: {
+      bandId,
+      rehearsalId: null,
+      name: { equals: name, mode: 'insensitive' },
+      id: channelId && { not: channelId },
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw conflict('The band already has a channel with this name');
+  }
+};
+
+export const createChannel = async (
+  bandId: string,
+  userId: string,
+  input: { name: string; description?: string | null }
+) => {
+  await checkChannelName(bandId, input.name);
+
+  const channel = await prisma.chatChannel.create({
+    data: {
+      bandId,
+      name: input.name,
+      description: input.description,
+      createdById: userId,
+    },
+    include: channelInclude,
+  });
+
+  await publishToBand(bandId, { type: 'chat.channel.created', data: channel });
+
+  return channel;
+};
+
+/**
+ * Rename, describe, archive or unarchive a channel: the member who created
+ * it, or anyone with MANAGE_CHAT. Rehearsal threads can't be renamed.
+ */
+export const updateChannel = async (channelId: string, access: BandAccess, input: ChannelInput) => {
+  const channel = await findChannel(channelId);
+
+  if (channel.createdById !== access.userId && !can(access, 'MANAGE_CHAT')) {
+    throw forbidden("You don't have permission to manage this channel (MANAGE_CHAT)");
+  }
+
+  if (input.name !== undefined) {
+    if (channel.rehearsalId) {
+      throw badRequest('Rehearsal threads are named after the rehearsal');
+    }
+
+    await checkChannelName(channel.bandId, input.name, channel.id);
+  }
+
+  const updated = await prisma.chatChannel.update({
+    where: { id: channelId },
+    data: {
+      name: input.name,
+      description: input.description,
+      ...(input.archived !== undefined && {
+        archivedAt: input.archived ? (channel.archivedAt ?? new Date()) : null,
+      }),
+    },
+    include: channelInclude,
+  });
+
+  await publishToBand(updated.bandId, { type: 'chat.channel.updated', data: updated });
+
+  return updated;
+};
+
+/**
+ * The rehearsal's thread, created the first time anyone opens it.
+ */
+export const getRehearsalThread = async (rehearsalId: string) => {
+  const rehearsal = await prisma.rehearsal.findUnique({
+    where: { id: rehearsalId },
+    select: { id: true, bandId: true, title: true },
+  });
+
+  if (!rehearsal) {
+    throw notFound('Rehearsal not found');
+  }
+
+  const thread = await prisma.chatChannel.upsert({
+    where: { rehearsalId },
+    create: {
+      bandId: rehearsal.bandId,
+      rehearsalId,
+      name: rehearsal.title,
+    },
+    update: {},
+    include: channelInclude,
+  });
+
+  return getChannel(thread.id);
+};
+
+/**
+ * A page of messages in chronological order, the latest ones or those
+ * before the message `before`. Deleted messages keep their place without
+ * their content.
+ */
+export const listMessages = async (
+  channelId: string,
+  options: { before?: string; limit: number }
+) => {
+  let before: Date | undefined;
+
+  if (options.before) {
+    const cursor = await prisma.chatMessage.findFirst({
+      where: { id: options.before, channelId },
+      select: { createdAt: true },
+    });
+
+    if (!cursor) {
+      throw notFound('Message not found');
+    }
+
+    before = cursor.createdAt;
+  }
+
+  const messages = await prisma.chatMessage.findMany({
+    where: {
+      channelId,
+      createdAt: { lt: before },
+    },
+    include: messageInclude,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: options.limit + 1,
+  });
+
+  return {
+    messages: messages.slice(0, options.limit).reverse().map(presentMessage),
+    hasMore: messages.length > options.limit,
+  };
+};
+
+const moveReadState = async (
+  tx: Prisma.TransactionClient | PrismaClient,
+  message: Pick<ChatMessage, 'id' | 'channelId' | 'createdAt'>,
+  userId: string
+) => {
+  const existing = await tx.chatReadState.findUnique({
+    where: { channelId_userId: { channelId: message.channelId, userId } },
+  });
+
+  // Reading an older message doesn't unread the newer ones
+  if (existing && existing.lastReadAt >= message.createdAt) {
+    return existing;
+  }
+
+  const data = { lastReadMessageId: message.id, lastReadAt: message.createdAt };
+
+  return tx.chatReadState.upsert({
+    where: { channelId_userId: { channelId: message.channelId, userId } },
+    create: { ...data, channelId: message.channelId, userId },
+    update: data,
+  });
+};
+
+/**
+ * Post a message, notify the members it @mentions and deliver it to the
+ * band's connected members.
+ */
+export const postMessage = async (
+  channelId: string,
+  author: { id: string; name: string },
+  content: string
+) => {
+  const channel = await findChannel(channelId);
+  assertWritable(channel);
+
+  const { message, notifications } = await prisma.$transaction(async (tx) => {
+    const created = await tx.chatMessage.create({
+      data: {
+        channelId,
+        authorId: author.id,
+        content,
+      },
+    });
+
+    const notifications = await syncMentions(tx, channel, created, author);
+    // Your own messages count as read
+    await moveReadState(tx, created, author.id);
+
+    const message = await tx.chatMessage.findUniqueOrThrow({
+      where: { id: created.id },
+      include: messageInclude,
+    });
+
+    return { message, notifications };
+  });
+
+  const presented = presentMessage(message);
+  await publishToBand(channel.bandId, { type: 'chat.message.created', data: presented });
+  await publishNotifications(notifications);
+
+  return presented;
+};
+
+/**
+ * Change the text of your own message. Members newly @mentioned are
+ * notified; those no longer mentioned aren't notified again.
+ */
+export const editMessage = async (
+  messageId: string,
+  author: { id: string; name: string },
+  content: string
+) => {
+  const message = await findMessage(messageId);
+
+  if (message.authorId !== author.id) {
+    throw forbidden('You can only edit your own messages');
+  }
+
+  if (message.deletedAt) {
+    throw badRequest('This message has been deleted');
+  }
+
+  assertWritable(message.channel);
+
+  const { updated, notifications } = await prisma.$transaction(async (tx) => {
+    const saved = await tx.chatMessage.update({
+      where: { id: messageId },
+      data: {
+        content,
+        editedAt: new Date(),
+      },
+    });
+
+    const notifications = await syncMentions(tx, message.channel, saved, author);
+    const updated = await tx.chatMessage.findUniqueOrThrow({
+      where: { id: messageId },
+      include: messageInclude,
+    });
+
+    return { updated, notifications };
+  });
+
+  const presented = presentMessage(updated);
+  await publishToBand(message.channel.bandId, { type: 'chat.message.updated', data: presented });
+  await publishNotifications(notifications);
+
+  return presented;
+};
+
+/**
+ * Delete a message: your own, or anyone's with MANAGE_CHAT. The message
+ * stays in the channel as a placeholder without content or mentions.
+ */
+export const deleteMessage = async (messageId: string, access: BandAccess) => {
+  const message = await findMessage(messageId);
+
+  if (message.authorId !== access.userId && !can(access, 'MANAGE_CHAT')) {
+    throw forbidden("You don't have permission to delete other members' messages (MANAGE_CHAT)");
+  }
+
+  if (message.deletedAt) {
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.chatMention.deleteMany({ where: { messageId } }),
+    prisma.chatMessage.update({
+      where: { id: messageId },
+      data: {
+        content: '',
+        deletedAt: new Date(),
+      },
+    }),
+  ]);
+
+  await publishToBand(message.channel.bandId, {
+    type: 'chat.message.deleted',
+    data: { id: messageId, channelId: message.channelId },
+  });
+};
+
+/**
+ * Mark the channel read up to a message, or up to its latest message, and
+ * let the band know for read receipts.
+ */
+export const markChannelRead = async (channelId: string, userId: string, messageId?: string) => {
+  const channel = await findChannel(channelId);
+
+  const message = await prisma.chatMessage.findFirst({
+    where: {
+      channelId,
+      ...(messageId && { id: messageId }),
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    select: { id: true, channelId: true, createdAt: true },
+  });
+
+  if (!message) {
+    if (messageId) {
+      throw notFound('Message not found');
+    }
+
+    return null;
+  }
+
+  const readState = await moveReadState(prisma, message, userId);
+
+  await publishToBand(channel.bandId, {
+    type: 'chat.read',
+    data: {
+      channelId,
+      userId,
+      lastReadMessageId: readState.lastReadMessageId,
+      lastReadAt: readState.lastReadAt,
+    },
+  });
+
+  return readState;
+};
+
+/**
+ * Members other than the author who have read the channel as far as this
+ * message.
+ */
+export const listReadReceipts = async (messageId: string) => {
+  const message = await findMessage(messageId);
+
+  const readStates = await prisma.chatReadState.findMany({
+    where: {
+      channelId: message.channelId,
+      lastReadAt: { gte: message.createdAt },
+      userId: message.authorId ? { not: message.authorId } : undefined,
+    },
+    select: {
+      user: {
+        select: userSelect,
+      },
+    },
+  });
+
+  return readStates.map((state) => state.user);
+};
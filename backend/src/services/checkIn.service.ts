@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import { PrismaClient, Rehearsal } from '@prisma/client';
+import { badRequest, notFound } from '../utils/errors';
+import { parseDuration } from '../utils/time';
+import { appLink } from './mail.service';
+import { publishBandUpdate } from './realtime.service';
+
+const prisma = new PrismaClient();
+
+export type CheckInStatus = 'PRESENT' | 'LATE' | 'ABSENT';
+
+export const CHECK_IN_STATUSES: CheckInStatus[] = ['PRESENT', 'LATE', 'ABSENT'];
+
+// No 0/O or 1/I/L, so codes can be read out and typed in
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_LENGTH = 6;
+
+const checkInOpensBeforeMs = () => parseDuration(process.env.CHECK_IN_OPENS_BEFORE || '30m');
+
+// Checking in later than this after the start counts as late
+const checkInGraceMs = () => parseDuration(process.env.CHECK_IN_GRACE || '10m');
+
+const checkInCodeTtlMs = () => parseDuration(process.env.CHECK_IN_CODE_TTL || '15m');
+
+/**
+ * Members can check themselves in from CHECK_IN_OPENS_BEFORE (default 30m)
+ * before the start until the rehearsal ends.
+ */
+export const checkInWindow = (rehearsal: Pick<Rehearsal, 'startDatetime' | 'endDatetime'>) => ({
+  opensAt: new Date(rehearsal.startDatetime.getTime() - checkInOpensBeforeMs()),
+  closesAt: rehearsal.endDatetime,
+});
+
+const generateCode = () =>
+  Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join('');
+
+const sameCode = (a: string, b: string) =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+// Code plus the link to show as a QR code
+const withUrl = <T extends { rehearsalId: string; code: string }>(checkInCode: T) => ({
+  ...checkInCode,
+  url: appLink(`/rehearsals/${checkInCode.rehearsalId}/check-in?code=${checkInCode.code}`),
+});
+
+const findOpenRehearsal = async (rehearsalId: string, now: Date) => {
+  const rehearsal = await prisma.rehearsal.findUnique({
+    where: { id: rehearsalId },
+  });
+
+  if (!rehearsal) {
+    throw notFound('Rehearsal not found');
+  }
+
+  if (rehearsal.status === 'CANCELLED') {
+    throw badRequest('This rehearsal has been cancelled');
+  }
+
+  const { opensAt, closesAt } = checkInWindow(rehearsal);
+
+  if (now < opensAt || now >= closesAt) {
+    throw badRequest(
+      `Check-in is open from ${opensAt.toISOString()} until ${closesAt.toISOString()}`
+    );
+  }
+
+  return rehearsal;
+};
+
+/**
+ * Generate a new check-in code for a rehearsal, replacing the current one.
+ * Codes last CHECK_IN_CODE_TTL (default 15m) and never outlive the
+ * check-in window, so they have to be shown at the rehearsal itself.
+ */
+export const createCheckInCode = async (rehearsalId: string, now = new Date()) => {
+  const rehearsal = await findOpenRehearsal(rehearsalId, now);
+  const expiresAt = new Date(
+    Math.min(now.getTime() + checkInCodeTtlMs(), checkInWindow(rehearsal).closesAt.getTime())
+  );
+  const code = generateCode();
+
+  const checkInCode = await prisma.rehearsalCheckInCode.upsert({
+    where: { rehearsalId },
+    create: { rehearsalId, code, expiresAt },
+    update: { code, expiresAt, createdAt: now },
+  });
+
+  return withUrl(checkInCode);
+};
+
+/**
+ * The rehearsal's check-in code while it is valid, or null.
+ */
+export const getCheckInCode = async (rehearsalId: string, now = new Date()) => {
+  const checkInCode = await prisma.rehearsalCheckInCode.findFirst({
+    where: {
+      rehearsalId,
+      expiresAt: { gt: now },
+    },
+  });
+
+  return checkInCode && withUrl(checkInCode);
+};
+
+/**
+ * Check a member in with the rehearsal's current code, as LATE when past
+ * the CHECK_IN_GRACE period (default 10m) after the start. Checking in
+ * again keeps the first check-in; it does replace an ABSENT mark.
+ */
+export const selfCheckIn = async (
+  rehearsalId: string,
+  userId: string,
+  code: string,
+  now = new Date()
+) => {
+  const rehearsal = await findOpenRehearsal(rehearsalId, now);
+  const checkInCode = await prisma.rehearsalCheckInCode.findUnique({
+    where: { rehearsalId },
+  });
+
+  if (!checkInCode || checkInCode.expiresAt <= now || !sameCode(code.toUpperCase(), checkInCode.code)) {
+    throw badRequest('Invalid or expired check-in code');
+  }
+
+  const existing = await prisma.rehearsalAttendance.findUnique({
+    where: { rehearsalId_userId: { rehearsalId, userId } },
+  });
+
+  if (existing?.checkInStatus === 'PRESENT' || existing?.checkInStatus === 'LATE') {
+    return existing;
+  }
+
+  const checkIn = {
+    checkInStatus:
+      now.getTime() > rehearsal.startDatetime.getTime() + checkInGraceMs() ? 'LATE' : 'PRESENT',
+    checkInSource: 'SELF',
+    checkedInAt: now,
+  };
+
+  // Members who joined after the rehearsal was scheduled have no RSVP yet
+  const attendance = await prisma.rehearsalAttendance.upsert({
+    where: { rehearsalId_userId: { rehearsalId, userId } },
+    create: { rehearsalId, userId, status: 'PENDING', ...checkIn },
+    update: checkIn,
+  });
+
+  await publishBandUpdate({
+    type: 'attendance.changed',
+    data: { bandId: rehearsal.bandId, attendance },
+  });
+
+  return attendance;
+};
+
+/**
+ * Record or override whether a member was present, late or absent. Works
+ * from when check-in opens, including after the rehearsal, for anyone who
+ * was asked to RSVP or is an active member of the band.
+ */
+export const markAttendance = async (
+  rehearsal: Rehearsal,
+  userId: string,
+  status: CheckInStatus,
+  now = new Date()
+) => {
+  if (rehearsal.status === 'CANCELLED') {
+    throw badRequest('This rehearsal has been cancelled');
+  }
+
+  if (now < checkInWindow(rehearsal).opensAt) {
+    throw badRequest('Attendance can only be taken once check-in opens');
+  }
+
+  const [attendance, membership] = await Promise.all([
+    prisma.rehearsalAttendance.findUnique({
+      where: { rehearsalId_userId: { rehearsalId: rehearsal.id, userId } },
+    }),
+    prisma.bandMember.findFirst({
+      where: { bandId: rehearsal.bandId, userId, status: 'ACTIVE' },
+      select: { id: true },
+    }),
+  ]);
+
+  if (!attendance && !membership) {
+    throw notFound('Member not found');
+  }
+
+  const checkIn = {
+    checkInStatus: status,
+    checkInSource: 'LEADER',
+    checkedInAt: status === 'ABSENT' ? null : (attendance?.checkedInAt ?? now),
+  };
+
+  const marked = await prisma.rehearsalAttendance.upsert({
+    where: { rehearsalId_userId: { rehearsalId: rehearsal.id, userId } },
+    create: { rehearsalId: rehearsal.id, userId, status: 'PENDING', ...checkIn },
+    update: checkIn,
+  });
+
+  await publishBandUpdate({
+    type: 'attendance.changed',
+    data: { bandId: rehearsal.bandId, attendance: marked },
+  });
+
+  return marked;
+};
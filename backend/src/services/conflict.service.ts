@@ -0,0 +1,260 @@
+import { PrismaClient } from '@prisma/client';
+import { Interval } from './availability.service';
+import { overlaps } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+/**
+ * BAND: the band already rehearses at that time.
+ * LOCATION: another rehearsal uses the same venue or location.
+ * MEMBER: members of the band are committed to a rehearsal of another band.
+ * CALENDAR: a member is busy in a calendar they imported.
+ * BLACKOUT: a member declared themselves unavailable then (tour, holiday, ...).
+ */
+export type ConflictType = 'BAND' | 'LOCATION' | 'MEMBER' | 'CALENDAR' | 'BLACKOUT';
+
+export interface ConflictCheck {
+  bandId: string;
+  location?: string;
+  venueId?: string | null;
+  slots: Interval[];
+  excludeRehearsalIds?: string[];
+}
+
+export interface SchedulingConflict {
+  types: ConflictType[];
+  slot: {
+    startDatetime: Date;
+    endDatetime: Date;
+  };
+  // Other bands' rehearsals are private, so only their time is exposed
+  rehearsal?:
+    | {
+        id: string;
+        title: string;
+        bandId: string;
+        bandName: string;
+        location: string;
+        venueId: string | null;
+        startDatetime: Date;
+        endDatetime: Date;
+      }
+    | {
+        startDatetime: Date;
+        endDatetime: Date;
+      };
+  // Event titles of imported calendars are private, so only the time is exposed
+  busyBlock?: {
+    id: string;
+    startDatetime: Date;
+    endDatetime: Date;
+  };
+  // Blackout reasons are private to the member too
+  blackout?: {
+    id: string;
+    startDatetime: Date;
+    endDatetime: Date;
+  };
+  affectedMembers: {
+    id: string;
+    name: string;
+  }[];
+}
+
+const normaliseLocation = (location: string) => location.trim().toLowerCase();
+
+/**
+ * Find existing rehearsals that clash with any of the proposed slots for a
+ * band, either through the band itself, the venue or location, or any
+ * active member who has not declined the other rehearsal, plus imported
+ * calendar events and blackout dates of active members.
+ */
+export const detectConflicts = async (check: ConflictCheck): Promise<SchedulingConflict[]> => {
+  const { bandId, location, venueId, slots, excludeRehearsalIds = [] } = check;
+
+  if (slots.length === 0) {
+    return [];
+  }
+
+  const members = await prisma.bandMember.findMany({
+    where: {
+      bandId,
+      status: 'ACTIVE',
+    },
+    select: {
+      userId: true,
+    },
+  });
+  const memberIds = members.map((member) => member.userId);
+
+  const rangeStart = new Date(Math.min(...slots.map((slot) => slot.start.getTime())));
+  const rangeEnd = new Date(Math.max(...slots.map((slot) => slot.end.getTime())));
+
+  const candidates = await prisma.rehearsal.findMany({
+    where: {
+      id: { notIn: excludeRehearsalIds },
+      status: { not: 'CANCELLED' },
+      startDatetime: { lt: rangeEnd },
+      endDatetime: { gt: rangeStart },
+      OR: [
+        { bandId },
+        ...(location ? [{ location: { equals: location.trim(), mode: 'insensitive' as const } }] : []),
+        ...(venueId ? [{ venueId }] : []),
+        {
+          attendances: {
+            some: {
+              userId: { in: memberIds },
+              status: { not: 'NOT_ATTENDING' },
+            },
+          },
+        },
+      ],
+    },
+    include: {
+      band: {
+        select: {
+          name: true,
+        },
+      },
+      attendances: {
+        where: {
+          userId: { in: memberIds },
+          status: { not: 'NOT_ATTENDING' },
+        },
+        select: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      },
+    },
+    orderBy: {
+      startDatetime: 'asc',
+    },
+  });
+
+  const memberTimeQuery = {
+    where: {
+      userId: { in: memberIds },
+      startDatetime: { lt: rangeEnd },
+      endDatetime: { gt: rangeStart },
+    },
+    select: {
+      id: true,
+      startDatetime: true,
+      endDatetime: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+    orderBy: {
+      startDatetime: 'asc' as const,
+    },
+  };
+
+  const [busyBlocks, blackouts] = await Promise.all([
+    prisma.busyBlock.findMany(memberTimeQuery),
+    prisma.availabilityBlackout.findMany(memberTimeQuery),
+  ]);
+
+  const conflicts: SchedulingConflict[] = [];
+
+  for (const slot of slots) {
+    for (const candidate of candidates) {
+      if (!overlaps(slot.start, slot.end, candidate.startDatetime, candidate.endDatetime)) {
+        continue;
+      }
+
+      const types: ConflictType[] = [];
+      const affectedMembers = candidate.attendances.map((attendance) => attendance.user);
+
+      if (candidate.bandId === bandId) {
+        types.push('BAND');
+      }
+      if (
+        (venueId && candidate.venueId === venueId) ||
+        (location && normaliseLocation(candidate.location) === normaliseLocation(location))
+      ) {
+        types.push('LOCATION');
+      }
+      if (candidate.bandId !== bandId && affectedMembers.length > 0) {
+        types.push('MEMBER');
+      }
+
+      if (types.length === 0) continue;
+
+      conflicts.push({
+        types,
+        slot: {
+          startDatetime: slot.start,
+          endDatetime: slot.end,
+        },
+        rehearsal:
+          candidate.bandId === bandId
+            ? {
+                id: candidate.id,
+                title: candidate.title,
+                bandId: candidate.bandId,
+                bandName: candidate.band.name,
+                location: candidate.location,
+                venueId: candidate.venueId,
+                startDatetime: candidate.startDatetime,
+                endDatetime: candidate.endDatetime,
+              }
+            : {
+                startDatetime: candidate.startDatetime,
+                endDatetime: candidate.endDatetime,
+              },
+        affectedMembers,
+      });
+    }
+
+    for (const block of busyBlocks) {
+      if (!overlaps(slot.start, slot.end, block.startDatetime, block.endDatetime)) {
+        continue;
+      }
+
+      conflicts.push({
+        types: ['CALENDAR'],
+        slot: {
+          startDatetime: slot.start,
+          endDatetime: slot.end,
+        },
+        busyBlock: {
+          id: block.id,
+          startDatetime: block.startDatetime,
+          endDatetime: block.endDatetime,
+        },
+        affectedMembers: [block.user],
+      });
+    }
+
+    for (const blackout of blackouts) {
+      if (!overlaps(slot.start, slot.end, blackout.startDatetime, blackout.endDatetime)) {
+        continue;
+      }
+
+      conflicts.push({
+        types: ['BLACKOUT'],
+        slot: {
+          startDatetime: slot.start,
+          endDatetime: slot.end,
+        },
+        blackout: {
+          id: blackout.id,
+          startDatetime: blackout.startDatetime,
+          endDatetime: blackout.endDatetime,
+        },
+        affectedMembers: [blackout.user],
+      });
+    }
+  }
+
+  return conflicts;
+};
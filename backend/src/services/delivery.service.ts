@@ -0,0 +1,306 @@
+import { Notification, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { scheduleJob } from '../utils/scheduler';
+import { DAY_MS, MINUTE_MS, getZonedDayAndMinutes, parseTimeOfDay } from '../utils/time';
+import {
+  ChannelRecipient,
+  DELIVERY_CHANNELS,
+  DeliveryChannel,
+  PermanentDeliveryError,
+  getChannelAdapters,
+} from './notificationChannel.service';
+import {
+  NOTIFICATION_SUBJECTS,
+  NOTIFICATION_TYPES,
+  enrichNotifications,
+} from './notification.service';
+
+const prisma = new PrismaClient();
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Channels that can wake someone up are held back during quiet hours
+const QUIET_HOURS_CHANNELS: DeliveryChannel[] = ['SMS', 'PUSH'];
+
+// Notifications older than this are never delivered, e.g. rows that existed
+// before delivery was introduced
+const MAX_DISPATCH_AGE_MS = DAY_MS;
+
+// A claimed delivery is retried after this long if the worker dies mid-send
+const DELIVERY_LEASE_MS = 5 * MINUTE_MS;
+
+const BATCH_SIZE = 50;
+
+export type ChannelPreferences = Record<'email' | 'sms' | 'push', boolean>;
+
+// Used for notification types the user has not configured
+export const DEFAULT_CHANNEL_PREFERENCES: ChannelPreferences = {
+  email: true,
+  sms: false,
+  push: true,
+};
+
+const PREFERENCE_KEYS: Record<DeliveryChannel, keyof ChannelPreferences> = {
+  EMAIL: 'email',
+  SMS: 'sms',
+  PUSH: 'push',
+};
+
+/**
+ * A user's channel choice for every notification type (defaults filled in),
+ * quiet hours and SMS number.
+ */
+export const getNotificationPreferences = async (userId: string) => {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      phoneNumber: true,
+      quietHoursStart: true,
+      quietHoursEnd: true,
+      notificationPreferences: true,
+      _count: {
+        select: { pushSubscriptions: true },
+      },
+    },
+  });
+
+  return {
+    types: NOTIFICATION_TYPES.map((type) => {
+      const preference = user.notificationPreferences.find((row) => row.type === type);
+
+      return {
+        type,
+        email: preference ? preference.email : DEFAULT_CHANNEL_PREFERENCES.email,
+        sms: preference ? preference.sms : DEFAULT_CHANNEL_PREFERENCES.sms,
+        push: preference ? preference.push : DEFAULT_CHANNEL_PREFERENCES.push,
+      };
+    }),
+    quietHours:
+      user.quietHoursStart && user.quietHoursEnd
+        ? { start: user.quietHoursStart, end: user.quietHoursEnd }
+        : null,
+    phoneNumber: user.phoneNumber,
+    pushSubscriptionCount: user._count.pushSubscriptions,
+  };
+};
+
+/**
+ * Minutes from `now` until the user's quiet hours end, or 0 outside quiet
+ * hours. Quiet hours may wrap midnight (e.g. 22:00-07:00).
+ */
+export const minutesUntilQuietHoursEnd = (
+  user: { timezone: string; quietHoursStart: string | null; quietHoursEnd: string | null },
+  now: Date
+): number => {
+  if (!user.quietHoursStart || !user.quietHoursEnd) {
+    return 0;
+  }
+
+  const start = parseTimeOfDay(user.quietHoursStart);
+  const end = parseTimeOfDay(user.quietHoursEnd);
+  const { minutes } = getZonedDayAndMinutes(now, user.timezone);
+  const inQuietHours =
+    start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+
+  return inQuietHours ? (end - minutes + 24 * 60) % (24 * 60) : 0;
+};
+
+// 1, 4, 16, 64 minutes
+const retryDelayMs = (attempts: number) => 4 ** (attempts - 1) * MINUTE_MS;
+
+/**
+ * Plan deliveries for new notifications: one row per channel the user
+ * enabled for the notification type. Channels the user has no address for
+ * are logged as SKIPPED; SMS and push during quiet hours wait until they
+ * end.
+ */
+export const dispatchNotifications = async (now = new Date()): Promise<number> => {
+  const pending = await prisma.notification.findMany({
+    where: {
+      dispatchedAt: null,
+      createdAt: { gte: new Date(now.getTime() - MAX_DISPATCH_AGE_MS) },
+    },
+    include: {
+      user: {
+        select: {
+          timezone: true,
+          quietHoursStart: true,
+          quietHoursEnd: true,
+          phoneNumber: true,
+          email: true,
+          notificationPreferences: true,
+          _count: {
+            select: { pushSubscriptions: true },
+          },
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let dispatched = 0;
+
+  for (const notification of pending) {
+    // Claim the notification so concurrent workers don't plan it twice
+    const { count } = await prisma.notification.updateMany({
+      where: { id: notification.id, dispatchedAt: null },
+      data: { dispatchedAt: now },
+    });
+
+    if (count === 0) continue;
+
+    const { user } = notification;
+    const preferences =
+      user.notificationPreferences.find((preference) => preference.type === notification.type) ||
+      DEFAULT_CHANNEL_PREFERENCES;
+    const quietMinutes = minutesUntilQuietHoursEnd(user, now);
+    const addresses: Record<DeliveryChannel, boolean> = {
+      EMAIL: Boolean(user.email),
+      SMS: Boolean(user.phoneNumber),
+      PUSH: user._count.pushSubscriptions > 0,
+    };
+
+    const deliveries = DELIVERY_CHANNELS.filter(
+      (channel) => preferences[PREFERENCE_KEYS[channel]]
+    ).map((channel) => {
+      if (!addresses[channel]) {
+        return {
+          notificationId: notification.id,
+          channel,
+          status: 'SKIPPED',
+          lastError: channel === 'SMS' ? 'No phone number' : 'No push subscription',
+        };
+      }
+
+      const deferred = QUIET_HOURS_CHANNELS.includes(channel) && quietMinutes > 0;
+
+      return {
+        notificationId: notification.id,
+        channel,
+        nextAttemptAt: deferred ? new Date(now.getTime() + quietMinutes * MINUTE_MS) : now,
+      };
+    });
+
+    if (deliveries.length > 0) {
+      await prisma.notificationDelivery.createMany({ data: deliveries });
+    }
+
+    dispatched += 1;
+  }
+
+  return dispatched;
+};
+
+// Links point at the web app (APP_URL) page of the related rehearsal or band
+const buildMessage = async (notification: Notification) => {
+  const appUrl = process.env.APP_URL;
+  const [enriched] = await enrichNotifications([notification]);
+  let url: string | undefined;
+
+  if (appUrl && enriched.rehearsal) {
+    url = `${appUrl}/rehearsals/${enriched.rehearsal.id}`;
+  } else if (appUrl && enriched.band) {
+    url = `${appUrl}/bands/${enriched.band.id}`;
+  }
+
+  return {
+    type: notification.type,
+    subject: NOTIFICATION_SUBJECTS[notification.type] || 'Notification',
+    text: notification.content,
+    url,
+  };
+};
+
+/**
+ * Send deliveries that are due. Failures are retried with exponential
+ * backoff up to MAX_DELIVERY_ATTEMPTS, except permanent ones.
+ */
+export const processDueDeliveries = async (now = new Date()): Promise<number> => {
+  const due = await prisma.notificationDelivery.findMany({
+    where: {
+      status: 'PENDING',
+      nextAttemptAt: { lte: now },
+    },
+    include: {
+      notification: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              phoneNumber: true,
+              pushSubscriptions: {
+                select: {
+                  endpoint: true,
+                  p256dh: true,
+                  auth: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  const adapters = getChannelAdapters();
+  let processed = 0;
+
+  for (const delivery of due) {
+    const { count } = await prisma.notificationDelivery.updateMany({
+      where: { id: delivery.id, status: 'PENDING', nextAttemptAt: delivery.nextAttemptAt },
+      data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+    });
+
+    if (count === 0) continue;
+
+    const attempts = delivery.attempts + 1;
+    const recipient: ChannelRecipient = delivery.notification.user;
+
+    try {
+      const message = await buildMessage(delivery.notification);
+      await adapters[delivery.channel as DeliveryChannel].send(recipient, message);
+
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'SENT', attempts, sentAt: new Date(), lastError: null },
+      });
+    } catch (error) {
+      const permanent = error instanceof PermanentDeliveryError;
+      const failed = permanent || attempts >= MAX_DELIVERY_ATTEMPTS;
+
+      logger.warn(
+        `Delivery ${delivery.id} (${delivery.channel}) attempt ${attempts} failed: ${(error as Error).message}`
+      );
+
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: failed ? 'FAILED' : 'PENDING',
+          attempts,
+          lastError: (error as Error).message,
+          nextAttemptAt: failed ? undefined : new Date(now.getTime() + retryDelayMs(attempts)),
+        },
+      });
+    }
+
+    processed += 1;
+  }
+
+  return processed;
+};
+
+/**
+ * Poll for new notifications and due deliveries. All state lives in the
+ * database, so deliveries survive restarts and several API instances can
+ * run the worker side by side. Returns a function that stops the worker.
+ */
+export const startDeliveryWorker = (intervalMs = 15000): (() => void) =>
+  scheduleJob('notification delivery', intervalMs, async () => {
+    await dispatchNotifications();
+    await processDueDeliveries();
+  });
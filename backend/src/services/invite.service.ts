@@ -0,0 +1,418 @@
+import crypto from 'crypto';
+import { BandInvite, Notification, Prisma, PrismaClient } from '@prisma/client';
+import { badRequest, conflict, forbidden, notFound } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { DAY_MS } from '../utils/time';
+import { appLink, sendEmail } from './mail.service';
+import { SERIALIZABLE } from './membership.service';
+import { createNotifications, publishNotifications } from './notification.service';
+import { publishBandUpdate } from './realtime.service';
+
+const prisma = new PrismaClient();
+
+export const DEFAULT_INVITE_TTL_DAYS = 7;
+
+export const MAX_INVITE_TTL_DAYS = 90;
+
+export type InviteStatus = 'OPEN' | 'EXPIRED' | 'REVOKED' | 'DECLINED' | 'USED_UP';
+
+export interface NewInvite {
+  email?: string; // Omitted for shareable links
+  role: 'LEADER' | 'MEMBER';
+  maxUses?: number | null; // Links only; email invites are single use
+  expiresInDays?: number;
+}
+
+// Invites that can still be accepted
+const openInviteWhere = (now = new Date()): Prisma.BandInviteWhereInput => ({
+  revokedAt: null,
+  declinedAt: null,
+  expiresAt: { gt: now },
+  OR: [{ maxUses: null }, { useCount: { lt: prisma.bandInvite.fields.maxUses } }],
+});
+
+const inviteInclude = {
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+};
+
+export const inviteStatus = (invite: BandInvite, now = new Date()): InviteStatus => {
+  if (invite.revokedAt) return 'REVOKED';
+  if (invite.declinedAt) return 'DECLINED';
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return 'USED_UP';
+  if (invite.expiresAt <= now) return 'EXPIRED';
+  return 'OPEN';
+};
+
+export const inviteUrl = (code: string) => appLink(`/invites/${code}`);
+
+const withUrl = <T extends BandInvite>(invite: T) => ({ ...invite, url: inviteUrl(invite.code) });
+
+const sameEmail = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Create an invite to a band. Email invites are single use and mailed to
+ * the address; if it already belongs to an account, that user also gets a
+ * PENDING membership and a notification, and earlier open invites for the
+ * address are replaced. Without an email the invite is a shareable link.
+ */
+export const createInvite = async (bandId: string, actorId: string, input: NewInvite) => {
+  const expiresAt = new Date(Date.now() + (input.expiresInDays ?? DEFAULT_INVITE_TTL_DAYS) * DAY_MS);
+
+  const { invite, inviterName, bandName, notifications } = await prisma.$transaction(async (tx) => {
+    const band = await tx.band.findUniqueOrThrow({
+      where: { id: bandId },
+      select: { name: true },
+    });
+    const inviter = await tx.user.findUniqueOrThrow({
+      where: { id: actorId },
+      select: { name: true },
+    });
+
+    let notifications: Notification[] = [];
+
+    if (input.email) {
+      const user = await tx.user.findFirst({
+        where: { email: { equals: input.email, mode: 'insensitive' } },
+        select: { id: true },
+      });
+
+      if (user) {
+        const membership = await tx.bandMember.findUnique({
+          where: { bandId_userId: { bandId, userId: user.id } },
+        });
+
+        if (membership?.status === 'ACTIVE') {
+          throw conflict('User is already a member of this band');
+        }
+
+        await tx.bandMember.upsert({
+          where: { bandId_userId: { bandId, userId: user.id } },
+          create: { bandId, userId: user.id, role: input.role, status: 'PENDING' },
+          update: { role: input.role, status: 'PENDING' },
+        });
+
+        notifications = await createNotifications(tx, [
+          {
+            userId: user.id,
+            type: 'BAND_INVITATION',
+            content: `${inviter.name} invited you to join ${band.name}`,
+            relatedId: bandId,
+          },
+        ]);
+      }
+
+      await tx.bandInvite.updateMany({
+        where: {
+          bandId,
+          email: { equals: input.email, mode: 'insensitive' },
+          ...openInviteWhere(),
+        },
+        data: { revokedAt: new Date() },
+      });
+    }
+
+    const invite = await tx.bandInvite.create({
+      data: {
+        bandId,
+        code: crypto.randomBytes(9).toString('base64url'),
+        email: input.email,
+        role: input.role,
+        maxUses: input.email ? 1 : input.maxUses ?? null,
+        expiresAt,
+        createdById: actorId,
+      },
+      include: inviteInclude,
+    });
+
+    return { invite, inviterName: inviter.name, bandName: band.name, notifications };
+  }, SERIALIZABLE);
+
+  await publishNotifications(notifications);
+
+  if (invite.email) {
+    // The invite exists either way; a failed email can be fixed by sending a new one
+    await sendEmail(
+      { name: invite.email, email: invite.email },
+      {
+        subject: `Join ${bandName}`,
+        text: `${inviterName} invited you to join ${bandName}. Open the link to accept or decline; if you don't have an account yet you can create one with this address. The invitation expires on ${invite.expiresAt.toUTCString()}.`,
+        url: inviteUrl(invite.code),
+      }
+    ).catch((error) =>
+      logger.error(`Failed to send band invite email to ${invite.email}: ${error.message}`)
+    );
+  }
+
+  return withUrl(invite);
+};
+
+/**
+ * Invites of a band that can still be accepted, newest first.
+ */
+export const listOpenInvites = async (bandId: string) => {
+  const invites = await prisma.bandInvite.findMany({
+    where: {
+      bandId,
+      ...openInviteWhere(),
+    },
+    include: inviteInclude,
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+  return invites.map(withUrl);
+};
+
+/**
+ * Open email invites addressed to the user, across bands.
+ */
+export const listInvitesForEmail = (email: string) =>
+  prisma.bandInvite.findMany({
+    where: {
+      email: { equals: email, mode: 'insensitive' },
+      ...openInviteWhere(),
+    },
+    include: {
+      ...inviteInclude,
+      band: {
+        select: {
+          id: true,
+          name: true,
+          logoUrl: true,
+        },
+      },
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+/**
+ * What someone holding an invite code gets to see before accepting. The
+ * address of email invites is not revealed.
+ */
+export const getInvitePreview = async (code: string) => {
+  const invite = await prisma.bandInvite.findUnique({
+    where: { code },
+    include: {
+      ...inviteInclude,
+      band: {
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          genre: true,
+          logoUrl: true,
+        },
+      },
+    },
+  });
+
+  if (!invite) {
+    throw notFound('Invite not found');
+  }
+
+  return {
+    code: invite.code,
+    band: invite.band,
+    role: invite.role,
+    invitedBy: invite.createdBy,
+    personal: invite.email !== null,
+    expiresAt: invite.expiresAt,
+    status: inviteStatus(invite),
+  };
+};
+
+const findUsableInvite = async (tx: Prisma.TransactionClient, code: string) => {
+  const invite = await tx.bandInvite.findUnique({
+    where: { code },
+    include: {
+      band: {
+        select: { name: true },
+      },
+    },
+  });
+
+  if (!invite) {
+    throw notFound('Invite not found');
+  }
+
+  if (inviteStatus(invite) !== 'OPEN') {
+    throw badRequest('This invite has expired or is no longer valid');
+  }
+
+  return invite;
+};
+
+/**
+ * Join a band through an invite. Email invites only work for the invited
+ * address. Each acceptance counts against maxUses; the use is claimed with
+ * a conditional update so concurrent acceptances can't exceed it.
+ */
+export const acceptInvite = async (code: string, userId: string) => {
+  const { member, name, notifications } = await prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { name: true, email: true, emailVerifiedAt: true },
+    });
+
+    // Only accounts with a confirmed email address can join bands
+    if (!user.emailVerifiedAt) {
+      throw badRequest('Please verify your email address before joining a band');
+    }
+
+    const invite = await findUsableInvite(tx, code);
+
+    if (invite.email && !sameEmail(invite.email, user.email)) {
+      throw forbidden('This invite was sent to a different email address');
+    }
+
+    const membership = await tx.bandMember.findUnique({
+      where: { bandId_userId: { bandId: invite.bandId, userId } },
+    });
+
+    if (membership?.status === 'ACTIVE') {
+      throw conflict('You are already a member of this band');
+    }
+
+    const { count } = await tx.bandInvite.updateMany({
+      where: {
+        id: invite.id,
+        ...openInviteWhere(),
+      },
+      data: { useCount: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw badRequest('This invite has expired or is no longer valid');
+    }
+
+    const member = await tx.bandMember.upsert({
+      where: { bandId_userId: { bandId: invite.bandId, userId } },
+      create: { bandId: invite.bandId, userId, role: invite.role, status: 'ACTIVE' },
+      update: { role: invite.role, status: 'ACTIVE' },
+      include: {
+        band: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    const notifications =
+      invite.createdById && invite.createdById !== userId
+        ? await createNotifications(tx, [
+            {
+              userId: invite.createdById,
+              type: 'BAND_INVITE_ACCEPTED',
+              content: `${user.name} accepted your invitation and joined ${invite.band.name}`,
+              relatedId: invite.bandId,
+            },
+          ])
+        : [];
+
+    return { member, name: user.name, notifications };
+  }, SERIALIZABLE);
+
+  await publishBandUpdate({
+    type: 'member.joined',
+    data: { bandId: member.bandId, member: { userId, name, role: member.role } },
+  });
+  await publishNotifications(notifications);
+
+  return member;
+};
+
+/**
+ * Turn down an email invite. Shareable links aren't addressed to anyone,
+ * so there is nothing to decline; they can simply be ignored.
+ */
+export const declineInvite = async (code: string, userId: string) => {
+  const notifications = await prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { name: true, email: true },
+    });
+
+    const invite = await findUsableInvite(tx, code);
+
+    if (!invite.email) {
+      throw badRequest('Only personal invites can be declined');
+    }
+
+    if (!sameEmail(invite.email, user.email)) {
+      throw forbidden('This invite was sent to a different email address');
+    }
+
+    await tx.bandInvite.update({
+      where: { id: invite.id },
+      data: { declinedAt: new Date() },
+    });
+
+    await tx.bandMember.deleteMany({
+      where: {
+        bandId: invite.bandId,
+        userId,
+        status: 'PENDING',
+      },
+    });
+
+    return invite.createdById
+      ? createNotifications(tx, [
+          {
+            userId: invite.createdById,
+            type: 'BAND_INVITE_DECLINED',
+            content: `${user.name} declined your invitation to ${invite.band.name}`,
+            relatedId: invite.bandId,
+          },
+        ])
+      : [];
+  });
+
+  await publishNotifications(notifications);
+};
+
+/**
+ * Revoke an invite so it can no longer be accepted. The pending membership
+ * of an invited existing user is removed with it. Returns false if the
+ * invite doesn't exist or was already revoked.
+ */
+export const revokeInvite = async (bandId: string, inviteId: string): Promise<boolean> =>
+  prisma.$transaction(async (tx) => {
+    const invite = await tx.bandInvite.findFirst({
+      where: {
+        id: inviteId,
+        bandId,
+        revokedAt: null,
+      },
+    });
+
+    if (!invite) {
+      return false;
+    }
+
+    await tx.bandInvite.update({
+      where: { id: invite.id },
+      data: { revokedAt: new Date() },
+    });
+
+    if (invite.email) {
+      await tx.bandMember.deleteMany({
+        where: {
+          bandId,
+          status: 'PENDING',
+          user: { email: { equals: invite.email, mode: 'insensitive' } },
+        },
+      });
+    }
+
+    return true;
+  });
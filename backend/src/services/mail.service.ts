@@ -0,0 +1,22 @@
+import { getChannelAdapters } from './notificationChannel.service';
+
+/**
+ * Send a transactional email (account links, invitations) right away
+ * through the email channel, bypassing notification preferences. Uses SMTP
+ * when SMTP_HOST is set and the logging stub otherwise.
+ */
+export const sendEmail = (
+  to: { name: string; email: string },
+  message: { subject: string; text: string; url?: string }
+): Promise<void> =>
+  getChannelAdapters().EMAIL.send(
+    // The email adapter only needs the address; recipients may not have an account yet
+    { id: '', name: to.name, email: to.email, phoneNumber: null, pushSubscriptions: [] },
+    { type: 'TRANSACTIONAL', ...message }
+  );
+
+/**
+ * Absolute link into the web app (APP_URL).
+ */
+export const appLink = (path: string): string =>
+  `${process.env.APP_URL || 'http://localhost:3000'}${path}`;
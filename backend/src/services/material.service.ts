@@ -0,0 +1,268 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { badRequest } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { BandAccess, can } from './permission.service';
+import { getStorage } from './storage.service';
+
+const prisma = new PrismaClient();
+
+export const MATERIAL_TYPES = ['SETLIST', 'SHEET_MUSIC', 'AUDIO', 'VIDEO', 'OTHER'] as const;
+
+export type MaterialType = (typeof MATERIAL_TYPES)[number];
+
+const MB = 1024 * 1024;
+
+const DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.oasis.opendocument.text',
+];
+
+/**
+ * Accepted MIME types (a trailing "/*" matches a whole family) and maximum
+ * size per material type.
+ */
+export const MATERIAL_RULES: Record<MaterialType, { mimeTypes: string[]; maxBytes: number }> = {
+  SETLIST: {
+    mimeTypes: DOCUMENT_MIME_TYPES,
+    maxBytes: 5 * MB,
+  },
+  SHEET_MUSIC: {
+    mimeTypes: [
+      'application/pdf',
+      'image/png',
+      'image/jpeg',
+      'application/vnd.recordare.musicxml+xml',
+      'application/vnd.recordare.musicxml',
+      'application/xml',
+      'text/xml',
+    ],
+    maxBytes: 25 * MB,
+  },
+  AUDIO: {
+    mimeTypes: ['audio/*'],
+    maxBytes: 100 * MB,
+  },
+  VIDEO: {
+    mimeTypes: ['video/*'],
+    maxBytes: 500 * MB,
+  },
+  OTHER: {
+    mimeTypes: [...DOCUMENT_MIME_TYPES, 'image/png', 'image/jpeg', 'image/gif', 'application/zip'],
+    maxBytes: 25 * MB,
+  },
+};
+
+export const MAX_MATERIAL_BYTES = Math.max(
+  ...Object.values(MATERIAL_RULES).map((rule) => rule.maxBytes)
+);
+
+// Storage keys stay internal; clients download through fileUrl
+export const materialSelect = {
+  id: true,
+  rehearsalId: true,
+  name: true,
+  type: true,
+  fileUrl: true,
+  content: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  createdAt: true,
+  updatedAt: true,
+  uploadedBy: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+};
+
+const matchesMimeType = (pattern: string, mimeType: string): boolean =>
+  pattern.endsWith('/*')
+    ? mimeType.startsWith(pattern.slice(0, -1))
+    : pattern === mimeType;
+
+// Bytes read from the start of a file to check its content
+const SNIFF_BYTES = 512;
+
+const startsWith = (head: Buffer, signature: string | number[], offset = 0) => {
+  const bytes =
+    typeof signature === 'string' ? Buffer.from(signature, 'latin1') : Buffer.from(signature);
+  return head.subarray(offset, offset + bytes.length).equals(bytes);
+};
+
+const isZip = (head: Buffer) => startsWith(head, 'PK\x03\x04') || startsWith(head, 'PK\x05\x06');
+
+// ISO base media (MP4, MOV, M4A), Matroska/WebM, Ogg, RIFF (WAV, AVI)
+const isMediaContainer = (head: Buffer) =>
+  startsWith(head, 'ftyp', 4) ||
+  startsWith(head, [0x1a, 0x45, 0xdf, 0xa3]) ||
+  startsWith(head, 'OggS') ||
+  startsWith(head, 'RIFF');
+
+const isText = (head: Buffer) => !head.includes(0);
+
+/**
+ * Whether the first bytes of a file fit its declared MIME type, so that a
+ * client can't store, say, an HTML page or an executable as a PDF.
+ */
+const contentMatches = (mimeType: string, head: Buffer): boolean => {
+  if (mimeType.startsWith('audio/')) {
+    return (
+      isMediaContainer(head) ||
+      startsWith(head, 'ID3') ||
+      startsWith(head, 'fLaC') ||
+      startsWith(head, 'FORM') ||
+      (head[0] === 0xff && (head[1] & 0xe0) === 0xe0) // MPEG audio frame
+    );
+  }
+
+  if (mimeType.startsWith('video/')) {
+    // MPEG program or transport stream otherwise
+    return isMediaContainer(head) || startsWith(head, [0x00, 0x00, 0x01, 0xba]) || head[0] === 0x47;
+  }
+
+  switch (mimeType) {
+    case 'application/pdf':
+      return startsWith(head, '%PDF-');
+    case 'image/png':
+      return startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    case 'image/jpeg':
+      return startsWith(head, [0xff, 0xd8, 0xff]);
+    case 'image/gif':
+      return startsWith(head, 'GIF87a') || startsWith(head, 'GIF89a');
+    case 'application/msword':
+      return startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+    case 'application/zip':
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+    case 'application/vnd.oasis.opendocument.text':
+    case 'application/vnd.recordare.musicxml': // Compressed MusicXML (.mxl)
+      return isZip(head);
+    case 'application/xml':
+    case 'text/xml':
+    case 'application/vnd.recordare.musicxml+xml':
+      return isText(head) && /^(\uFEFF)?\s*</.test(head.toString('utf8'));
+    default:
+      return mimeType.startsWith('text/') && isText(head);
+  }
+};
+
+/**
+ * Reject files whose MIME type or size is not allowed for the material type,
+ * or whose content doesn't match the MIME type the client declared.
+ */
+export const validateMaterialFile = async (
+  type: MaterialType,
+  file: { mimetype: string; size: number; path: string }
+): Promise<void> => {
+  const rule = MATERIAL_RULES[type];
+  const mimeType = file.mimetype.toLowerCase();
+
+  if (!rule.mimeTypes.some((pattern) => matchesMimeType(pattern, mimeType))) {
+    throw badRequest(`Files of type ${file.mimetype} are not allowed for ${type} materials`, [
+      { path: 'file', msg: `Allowed types: ${rule.mimeTypes.join(', ')}` },
+    ]);
+  }
+
+  if (file.size > rule.maxBytes) {
+    throw badRequest(`${type} files must be at most ${rule.maxBytes / MB} MB`);
+  }
+
+  const handle = await fs.open(file.path, 'r');
+
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(SNIFF_BYTES), 0, SNIFF_BYTES, 0);
+
+    if (!contentMatches(mimeType, buffer.subarray(0, bytesRead))) {
+      throw badRequest(`The file's content doesn't match its type (${file.mimetype})`);
+    }
+  } finally {
+    await handle.close();
+  }
+};
+
+export const downloadUrlFor = (materialId: string) => `/api/materials/${materialId}/download`;
+
+/**
+ * Store an uploaded file (if any) and record the material. Either a file
+ * or text content is required.
+ */
+export const createMaterial = async (input: {
+  rehearsalId: string;
+  uploadedById: string;
+  type: MaterialType;
+  name?: string;
+  content?: string;
+  file?: Express.Multer.File;
+}) => {
+  const { rehearsalId, uploadedById, type, content, file } = input;
+
+  if (!file && !content) {
+    throw badRequest('Either a file or text content is required');
+  }
+
+  const id = crypto.randomUUID();
+  let storageKey: string | undefined;
+
+  if (file) {
+    await validateMaterialFile(type, file);
+
+    const extension = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, '');
+    storageKey = `materials/${rehearsalId}/${id}${extension}`;
+    await getStorage().putFile(storageKey, file.path, file.mimetype);
+  }
+
+  try {
+    return await prisma.rehearsalMaterial.create({
+      data: {
+        id,
+        rehearsalId,
+        uploadedById,
+        type,
+        name: input.name || file?.originalname || type,
+        content,
+        fileUrl: file ? downloadUrlFor(id) : null,
+        storageKey,
+        fileName: file?.originalname,
+        mimeType: file?.mimetype,
+        size: file?.size,
+      },
+      select: materialSelect,
+    });
+  } catch (error) {
+    if (storageKey) {
+      await getStorage()
+        .delete(storageKey)
+        .catch(() => undefined);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Materials can be deleted by their uploader and by members who can
+ * manage the band's materials.
+ */
+export const canDeleteMaterial = (access: BandAccess, material: { uploadedById: string | null }) =>
+  material.uploadedById === access.userId || can(access, 'MANAGE_MATERIALS');
+
+export const deleteMaterial = async (material: { id: string; storageKey: string | null }) => {
+  await prisma.rehearsalMaterial.delete({ where: { id: material.id } });
+
+  if (material.storageKey) {
+    // The row is gone either way; an orphaned file is only logged
+    await getStorage()
+      .delete(material.storageKey)
+      .catch((error) =>
+        logger.error(`Failed to delete stored file ${material.storageKey}: ${error.message}`)
+      );
+  }
+};
@@ -0,0 +1,324 @@
+import { Notification, Prisma, PrismaClient } from '@prisma/client';
+import { conflict, forbidden, notFound } from '../utils/errors';
+import { createNotifications, publishNotifications } from './notification.service';
+import { Capability } from './permission.service';
+import { publishBandUpdate } from './realtime.service';
+
+const prisma = new PrismaClient();
+
+// Two leaders demoting each other at the same time must not both see
+// "another leader remains", so leadership changes are serialized
+export const SERIALIZABLE = { isolationLevel: Prisma.TransactionIsolationLevel.Serializable };
+
+export type LeadershipHandover =
+  | { outcome: 'UNCHANGED' } // Another active leader remains
+  | { outcome: 'PROMOTED'; userId: string; notifications: Notification[] }
+  | { outcome: 'NO_MEMBERS' }; // Nobody else is active in the band
+
+/**
+ * Keep a band led when `userId` stops being one of its active leaders: if
+ * no other active leader exists, the longest-standing other active member
+ * is promoted and notified.
+ */
+export const handOverLeadership = async (
+  tx: Prisma.TransactionClient,
+  bandId: string,
+  userId: string
+): Promise<LeadershipHandover> => {
+  const otherLeaders = await tx.bandMember.count({
+    where: {
+      bandId,
+      userId: { not: userId },
+      role: 'LEADER',
+      status: 'ACTIVE',
+    },
+  });
+
+  if (otherLeaders > 0) {
+    return { outcome: 'UNCHANGED' };
+  }
+
+  const successor = await tx.bandMember.findFirst({
+    where: {
+      bandId,
+      userId: { not: userId },
+      status: 'ACTIVE',
+    },
+    include: {
+      band: {
+        select: { name: true },
+      },
+    },
+    orderBy: {
+      joinedAt: 'asc',
+    },
+  });
+
+  if (!successor) {
+    return { outcome: 'NO_MEMBERS' };
+  }
+
+  await tx.bandMember.update({
+    where: { id: successor.id },
+    data: { role: 'LEADER' },
+  });
+
+  const notifications = await createNotifications(tx, [
+    {
+      userId: successor.userId,
+      type: 'BAND_ROLE_UPDATED',
+      content: `You are now a leader of ${successor.band.name}`,
+      relatedId: bandId,
+    },
+  ]);
+
+  return { outcome: 'PROMOTED', userId: successor.userId, notifications };
+};
+
+const memberInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  band: {
+    select: {
+      name: true,
+    },
+  },
+  bandRole: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+};
+
+/**
+ * Take a member out of a band, by someone managing members (`actorId` is
+ * someone else) or themselves leaving; only leaders can remove a leader. The
+ * membership becomes INACTIVE and their RSVPs for rehearsals that haven't
+ * started yet are cancelled: kept, but NOT_ATTENDING and marked with
+ * memberLeftAt. A leaving last leader hands leadership to the
+ * longest-standing member; the last member can't leave and must delete the
+ * band instead.
+ */
+export const removeMember = async (bandId: string, userId: string, actorId: string) => {
+  const { wasActive, notifications, ...result } = await prisma.$transaction(async (tx) => {
+    const membership = await tx.bandMember.findFirst({
+      where: {
+        bandId,
+        userId,
+        status: { not: 'INACTIVE' },
+      },
+      include: memberInclude,
+    });
+
+    if (!membership) {
+      throw notFound('Member not found');
+    }
+
+    if (membership.role === 'LEADER' && actorId !== userId) {
+      const actorIsLeader = await tx.bandMember.count({
+        where: { bandId, userId: actorId, role: 'LEADER', status: 'ACTIVE' },
+      });
+
+      if (!actorIsLeader) {
+        throw forbidden('Only band leaders can remove a leader');
+      }
+    }
+
+    const handover: LeadershipHandover =
+      membership.role === 'LEADER' && membership.status === 'ACTIVE'
+        ? await handOverLeadership(tx, bandId, userId)
+        : { outcome: 'UNCHANGED' };
+
+    if (handover.outcome === 'NO_MEMBERS') {
+      throw conflict('The last member of a band cannot leave it; delete the band instead');
+    }
+
+    await tx.bandMember.update({
+      where: { id: membership.id },
+      data: { status: 'INACTIVE' },
+    });
+
+    const { count: cancelledAttendances } = await tx.rehearsalAttendance.updateMany({
+      where: {
+        userId,
+        rehearsal: {
+          bandId,
+          startDatetime: { gt: new Date() },
+        },
+      },
+      data: {
+        status: 'NOT_ATTENDING',
+        memberLeftAt: new Date(),
+      },
+    });
+
+    const notifications = handover.outcome === 'PROMOTED' ? handover.notifications : [];
+
+    if (actorId !== userId) {
+      notifications.push(
+        ...(await createNotifications(tx, [
+          {
+            userId,
+            type: 'BAND_MEMBER_REMOVED',
+            content: `You have been removed from ${membership.band.name}`,
+            relatedId: bandId,
+          },
+        ]))
+      );
+    }
+
+    return {
+      wasActive: membership.status === 'ACTIVE',
+      notifications,
+      cancelledAttendances,
+      newLeaderId: handover.outcome === 'PROMOTED' ? handover.userId : null,
+    };
+  }, SERIALIZABLE);
+
+  // Withdrawing a pending membership isn't news to the band
+  if (wasActive) {
+    await publishBandUpdate({
+      type: 'member.left',
+      data: { bandId, userId, removed: actorId !== userId },
+    });
+  }
+
+  await publishNotifications(notifications);
+
+  return result;
+};
+
+export interface MemberRoleChange {
+  role?: 'LEADER' | 'MEMBER';
+  bandRoleId?: string | null; // Custom role; null removes it
+}
+
+/**
+ * Promote a member to LEADER or demote a leader to MEMBER, and/or assign
+ * one of the band's custom roles. Only leaders may change who is a leader,
+ * and the band's last active leader can't be demoted. Other members can
+ * only change the custom role of someone else who isn't a leader, and only
+ * between roles that grant nothing beyond their own capabilities.
+ */
+export const changeMemberRole = async (
+  bandId: string,
+  userId: string,
+  change: MemberRoleChange,
+  actor: { id: string; isLeader: boolean; capabilities: Capability[] }
+) => {
+  const { membership, notifications } = await prisma.$transaction(async (tx) => {
+    const membership = await tx.bandMember.findFirst({
+      where: {
+        bandId,
+        userId,
+        status: 'ACTIVE',
+      },
+      include: memberInclude,
+    });
+
+    if (!membership) {
+      throw notFound('Member not found');
+    }
+
+    const bandRole = change.bandRoleId
+      ? await tx.bandRole.findFirst({ where: { id: change.bandRoleId, bandId } })
+      : null;
+
+    if (change.bandRoleId && !bandRole) {
+      throw notFound('Role not found');
+    }
+
+    const roleChanged = change.role !== undefined && change.role !== membership.role;
+    const bandRoleChanged =
+      change.bandRoleId !== undefined && change.bandRoleId !== membership.bandRoleId;
+
+    if (!roleChanged && !bandRoleChanged) {
+      return { membership, notifications: [] };
+    }
+
+    if (roleChanged && !actor.isLeader) {
+      throw forbidden('Only band leaders can promote or demote leaders');
+    }
+
+    if (!actor.isLeader) {
+      if (actor.id === userId) {
+        throw forbidden('Only band leaders can change their own role');
+      }
+
+      if (membership.role === 'LEADER') {
+        throw forbidden("Only band leaders can change a leader's role");
+      }
+
+      const currentRole = membership.bandRoleId
+        ? await tx.bandRole.findUnique({ where: { id: membership.bandRoleId } })
+        : null;
+      // The MEMBER defaults are what every member starts with, so only
+      // custom roles are compared
+      const exceedsActor = [currentRole, bandRole]
+        .flatMap((role) => role?.capabilities ?? [])
+        .some((capability) => !actor.capabilities.includes(capability as Capability));
+
+      if (exceedsActor) {
+        throw forbidden("You can't assign or remove a role with capabilities you don't have");
+      }
+    }
+
+    if (roleChanged && change.role === 'MEMBER') {
+      const otherLeaders = await tx.bandMember.count({
+        where: {
+          bandId,
+          userId: { not: userId },
+          role: 'LEADER',
+          status: 'ACTIVE',
+        },
+      });
+
+      if (otherLeaders === 0) {
+        throw conflict('A band needs at least one active leader; promote someone else first');
+      }
+    }
+
+    const updated = await tx.bandMember.update({
+      where: { id: membership.id },
+      data: {
+        role: change.role,
+        bandRoleId: change.bandRoleId,
+      },
+      include: memberInclude,
+    });
+
+    let notifications: Notification[] = [];
+
+    if (actor.id !== userId) {
+      const bandName = membership.band.name;
+      let content: string;
+
+      if (roleChanged) {
+        content =
+          change.role === 'LEADER'
+            ? `You are now a leader of ${bandName}`
+            : `You are no longer a leader of ${bandName}`;
+      } else {
+        content = bandRole
+          ? `Your role in ${bandName} is now ${bandRole.name}`
+          : `Your custom role in ${bandName} has been removed`;
+      }
+
+      notifications = await createNotifications(tx, [
+        { userId, type: 'BAND_ROLE_UPDATED', content, relatedId: bandId },
+      ]);
+    }
+
+    return { membership: updated, notifications };
+  }, SERIALIZABLE);
+
+  await publishNotifications(notifications);
+
+  return membership;
+};
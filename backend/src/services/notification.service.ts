@@ -0,0 +1,145 @@
+import { Notification, Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { isUserConnected, publishToUsers } from './realtime.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Notification types and the subject line used when they are delivered by
+ * email, SMS or push.
+ */
+export const NOTIFICATION_SUBJECTS: Record<string, string> = {
+  NEW_REHEARSAL: 'New rehearsal',
+  REHEARSAL_UPDATED: 'Rehearsal updated',
+  REHEARSAL_CANCELLED: 'Rehearsal cancelled',
+  ATTENDANCE_UPDATE: 'Attendance update',
+  BAND_INVITATION: 'Band invitation',
+  BAND_ROLE_UPDATED: 'Band role changed',
+  BAND_MEMBER_REMOVED: 'Removed from band',
+  BAND_INVITE_ACCEPTED: 'Invitation accepted',
+  BAND_INVITE_DECLINED: 'Invitation declined',
+  REHEARSAL_REMINDER: 'Rehearsal reminder',
+  RSVP_REMINDER: 'Please RSVP',
+  LOW_ATTENDANCE: 'Low attendance',
+  CHAT_MENTION: 'You were mentioned',
+  NEW_POLL: 'New poll',
+};
+
+export const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_SUBJECTS);
+
+/**
+ * Attach the band or rehearsal a notification's relatedId points to, so
+ * clients can link to it. Rehearsal notifications also carry the band.
+ * Entities that no longer exist resolve to null.
+ */
+export const enrichNotifications = async (notifications: Notification[]) => {
+  const relatedIds = [
+    ...new Set(
+      notifications
+        .map((notification) => notification.relatedId)
+        .filter((id): id is string => Boolean(id))
+    ),
+  ];
+
+  if (relatedIds.length === 0) {
+    return notifications.map((notification) => ({ ...notification, band: null, rehearsal: null }));
+  }
+
+  // relatedId is untyped, so look it up in both tables; UUIDs never collide
+  const [rehearsals, bands] = await Promise.all([
+    prisma.rehearsal.findMany({
+      where: { id: { in: relatedIds } },
+      select: {
+        id: true,
+        title: true,
+        startDatetime: true,
+        endDatetime: true,
+        location: true,
+        status: true,
+        band: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    }),
+    prisma.band.findMany({
+      where: { id: { in: relatedIds } },
+      select: {
+        id: true,
+        name: true,
+        logoUrl: true,
+      },
+    }),
+  ]);
+
+  const rehearsalsById = new Map(rehearsals.map((rehearsal) => [rehearsal.id, rehearsal]));
+  const bandsById = new Map(bands.map((band) => [band.id, band]));
+
+  return notifications.map((notification) => {
+    const rehearsal = notification.relatedId
+      ? rehearsalsById.get(notification.relatedId)
+      : undefined;
+
+    if (rehearsal) {
+      const { band, ...details } = rehearsal;
+      return { ...notification, band, rehearsal: details };
+    }
+
+    return {
+      ...notification,
+      band: (notification.relatedId && bandsById.get(notification.relatedId)) || null,
+      rehearsal: null,
+    };
+  });
+};
+
+export const countUnreadNotifications = (userId: string) =>
+  prisma.notification.count({
+    where: {
+      userId,
+      isRead: false,
+    },
+  });
+
+/**
+ * Save notifications, usually in the caller's transaction, and return them
+ * so they can be published with publishNotifications once it commits.
+ */
+export const createNotifications = async (
+  db: Prisma.TransactionClient,
+  data: Prisma.NotificationCreateManyInput[]
+): Promise<Notification[]> =>
+  data.length > 0 ? db.notification.createManyAndReturn({ data }) : [];
+
+/**
+ * Send newly saved notifications to their connected recipients as
+ * `notification.created` events; delivery by email, SMS and push is left to
+ * the delivery worker. Failures are logged, as the notifications are saved.
+ */
+export const publishNotifications = async (notifications: Notification[]) => {
+  const live = notifications.filter((notification) => isUserConnected(notification.userId));
+
+  if (live.length === 0) {
+    return;
+  }
+
+  try {
+    for (const enriched of await enrichNotifications(live)) {
+      publishToUsers([enriched.userId], { type: 'notification.created', data: enriched });
+    }
+  } catch (error) {
+    logger.error(`Realtime notification events failed: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Create and publish notifications when no transaction is involved.
+ */
+export const notifyUsers = async (data: Prisma.NotificationCreateManyInput[]) => {
+  const notifications = await createNotifications(prisma, data);
+  await publishNotifications(notifications);
+
+  return notifications;
+};
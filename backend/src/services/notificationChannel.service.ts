@@ -0,0 +1,267 @@
+import nodemailer from 'nodemailer';
+import webpush from 'web-push';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export const DELIVERY_CHANNELS = ['EMAIL', 'SMS', 'PUSH'] as const;
+
+export type DeliveryChannel = (typeof DELIVERY_CHANNELS)[number];
+
+export interface ChannelRecipient {
+  id: string;
+  name: string;
+  email: string;
+  phoneNumber: string | null;
+  pushSubscriptions: { endpoint: string; p256dh: string; auth: string }[];
+}
+
+export interface OutgoingMessage {
+  type: string;
+  subject: string;
+  text: string;
+  html?: string;
+  url?: string;
+}
+
+/**
+ * Thrown by adapters for failures that retrying will not fix (e.g. the
+ * recipient has no phone number). Other errors are retried.
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
+}
+
+export interface ChannelAdapter {
+  channel: DeliveryChannel;
+  // Whether the recipient has an address for this channel at all
+  canDeliver(recipient: ChannelRecipient): boolean;
+  send(recipient: ChannelRecipient, message: OutgoingMessage): Promise<void>;
+}
+
+/**
+ * Implemented per SMS provider; only plain text is sent.
+ */
+export interface SmsProvider {
+  sendSms(to: string, body: string): Promise<void>;
+}
+
+export const createEmailAdapter = (
+  transporter: Pick<nodemailer.Transporter, 'sendMail'>,
+  from: string
+): ChannelAdapter => ({
+  channel: 'EMAIL',
+  canDeliver: (recipient) => Boolean(recipient.email),
+  async send(recipient, message) {
+    await transporter.sendMail({
+      from,
+      to: `"${recipient.name.replace(/"/g, "'")}" <${recipient.email}>`,
+      subject: message.subject,
+      text: message.url ? `${message.text}\n\n${message.url}` : message.text,
+      html: message.html,
+    });
+  },
+});
+
+export const createSmsAdapter = (provider: SmsProvider): ChannelAdapter => ({
+  channel: 'SMS',
+  canDeliver: (recipient) => Boolean(recipient.phoneNumber),
+  async send(recipient, message) {
+    if (!recipient.phoneNumber) {
+      throw new PermanentDeliveryError('Recipient has no phone number');
+    }
+
+    await provider.sendSms(recipient.phoneNumber, `${message.subject}: ${message.text}`);
+  },
+});
+
+/**
+ * SMS through the Twilio REST API.
+ */
+export const createTwilioSmsProvider = (options: {
+  accountSid: string;
+  authToken: string;
+  from: string;
+}): SmsProvider => ({
+  async sendSms(to, body) {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${options.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${options.accountSid}:${options.authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: to, From: options.from, Body: body }),
+        signal: AbortSignal.timeout(15000),
+      }
+    );
+
+    if (!response.ok) {
+      const error = `Twilio responded with ${response.status}: ${await response.text()}`;
+      // 4xx other than rate limiting means the request itself is wrong
+      throw response.status >= 400 && response.status < 500 && response.status !== 429
+        ? new PermanentDeliveryError(error)
+        : new Error(error);
+    }
+  },
+});
+
+/**
+ * Web push to every browser the user subscribed. Subscriptions the push
+ * service reports as gone are passed to onExpired for removal.
+ */
+export const createWebPushAdapter = (options: {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+  onExpired?: (endpoint: string) => Promise<void>;
+}): ChannelAdapter => ({
+  channel: 'PUSH',
+  canDeliver: (recipient) => recipient.pushSubscriptions.length > 0,
+  async send(recipient, message) {
+    const payload = JSON.stringify({
+      type: message.type,
+      title: message.subject,
+      body: message.text,
+      url: message.url,
+    });
+    let delivered = 0;
+    let lastError: unknown;
+
+    for (const subscription of recipient.pushSubscriptions) {
+      try {
+        await webpush.sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+          },
+          payload,
+          {
+            vapidDetails: {
+              subject: options.subject,
+              publicKey: options.publicKey,
+              privateKey: options.privateKey,
+            },
+            TTL: 24 * 60 * 60,
+          }
+        );
+        delivered += 1;
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+
+        if ((statusCode === 404 || statusCode === 410) && options.onExpired) {
+          await options.onExpired(subscription.endpoint);
+        } else {
+          lastError = error;
+        }
+      }
+    }
+
+    if (delivered === 0) {
+      throw lastError || new PermanentDeliveryError('All push subscriptions have expired');
+    }
+  },
+});
+
+export interface StubMessage {
+  channel: DeliveryChannel;
+  to: string;
+  message: OutgoingMessage;
+  sentAt: Date;
+}
+
+const STUB_OUTBOX_SIZE = 100;
+
+// Most recent messages "sent" by stub adapters, newest last
+export const stubOutbox: StubMessage[] = [];
+
+/**
+ * Adapter that only logs and records messages in stubOutbox, for local
+ * development, tests and channels that are not configured.
+ */
+export const createStubAdapter = (channel: DeliveryChannel): ChannelAdapter => ({
+  channel,
+  canDeliver: () => true,
+  async send(recipient, message) {
+    const addresses: Record<DeliveryChannel, string> = {
+      EMAIL: recipient.email,
+      SMS: recipient.phoneNumber || '(no phone number)',
+      PUSH: `${recipient.pushSubscriptions.length} push subscription(s)`,
+    };
+    const to = addresses[channel];
+
+    stubOutbox.push({ channel, to, message, sentAt: new Date() });
+    stubOutbox.splice(0, Math.max(0, stubOutbox.length - STUB_OUTBOX_SIZE));
+
+    logger.debug(`[stub ${channel}] to ${to}: ${message.subject} - ${message.text}`);
+  },
+});
+
+let adapters: Record<DeliveryChannel, ChannelAdapter> | undefined;
+
+/**
+ * Adapters configured from the environment. NOTIFICATION_TRANSPORT=stub
+ * stubs every channel; otherwise each channel uses its provider when
+ * configured (SMTP_HOST, TWILIO_ACCOUNT_SID, VAPID_PUBLIC_KEY) and the stub
+ * when not.
+ */
+const createAdaptersFromEnv = (): Record<DeliveryChannel, ChannelAdapter> => {
+  const env = process.env;
+  const stubAll = env.NOTIFICATION_TRANSPORT === 'stub';
+
+  return {
+    EMAIL:
+      !stubAll && env.SMTP_HOST
+        ? createEmailAdapter(
+            nodemailer.createTransport({
+              host: env.SMTP_HOST,
+              port: Number(env.SMTP_PORT || 587),
+              secure: env.SMTP_SECURE === 'true',
+              auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined,
+            }),
+            env.MAIL_FROM || 'Rehearsal Scheduler <no-reply@rehearsal-scheduler.local>'
+          )
+        : createStubAdapter('EMAIL'),
+    SMS:
+      !stubAll && env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN && env.TWILIO_FROM_NUMBER
+        ? createSmsAdapter(
+            createTwilioSmsProvider({
+              accountSid: env.TWILIO_ACCOUNT_SID,
+              authToken: env.TWILIO_AUTH_TOKEN,
+              from: env.TWILIO_FROM_NUMBER,
+            })
+          )
+        : createStubAdapter('SMS'),
+    PUSH:
+      !stubAll && env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY
+        ? createWebPushAdapter({
+            publicKey: env.VAPID_PUBLIC_KEY,
+            privateKey: env.VAPID_PRIVATE_KEY,
+            subject: env.VAPID_SUBJECT || 'mailto:no-reply@rehearsal-scheduler.local',
+            onExpired: async (endpoint) => {
+              await prisma.pushSubscription.deleteMany({ where: { endpoint } });
+            },
+          })
+        : createStubAdapter('PUSH'),
+  };
+};
+
+export const getChannelAdapters = (): Record<DeliveryChannel, ChannelAdapter> => {
+  if (!adapters) {
+    adapters = createAdaptersFromEnv();
+  }
+
+  return adapters;
+};
+
+/**
+ * Replace one channel's adapter, e.g. with a stub or a fake in tests.
+ */
+export const setChannelAdapter = (adapter: ChannelAdapter): void => {
+  adapters = { ...getChannelAdapters(), [adapter.channel]: adapter };
+};
@@ -0,0 +1,207 @@
+import { PrismaClient } from '@prisma/client';
+import { forbidden, notFound } from '../utils/errors';
+
+const prisma = new PrismaClient();
+
+/**
+ * What members of a band may do, and how it reads in error messages
+ * ("You don't have permission to <action> (<CAPABILITY>)"). Any active member
+ * can see the band, its rehearsals, materials, setlists and venues, RSVP, chat
+ * and create and vote in polls.
+ */
+export const CAPABILITIES = {
+  SCHEDULE_REHEARSALS: 'schedule rehearsals',
+  MANAGE_REHEARSALS: "edit or cancel other members' rehearsals",
+  TAKE_ATTENDANCE: 'take attendance at rehearsals',
+  UPLOAD_MATERIALS: 'upload rehearsal materials',
+  MANAGE_MATERIALS: "delete other members' materials",
+  MANAGE_REPERTOIRE: 'manage songs and setlists',
+  MANAGE_VENUES: "manage the band's venues",
+  MANAGE_CHAT: "manage other members' chat channels and delete their messages",
+  MANAGE_POLLS: "close or delete other members' polls",
+  MANAGE_MEMBERS: 'manage members and invites',
+  VIEW_ATTENDANCE_REPORTS: 'view attendance reports',
+  MANAGE_BAND: 'edit or delete the band and manage its roles',
+};
+
+export type Capability = keyof typeof CAPABILITIES;
+
+export const CAPABILITY_NAMES = Object.keys(CAPABILITIES) as Capability[];
+
+// Members without a custom role; leaders always have every capability
+export const DEFAULT_MEMBER_CAPABILITIES: Capability[] = ['SCHEDULE_REHEARSALS', 'UPLOAD_MATERIALS'];
+
+export interface BandAccess {
+  bandId: string;
+  userId: string;
+  membershipId: string;
+  role: string; // LEADER, MEMBER
+  bandRole: { id: string; name: string } | null;
+  capabilities: Capability[];
+}
+
+const capabilitiesFor = (
+  role: string,
+  bandRole: { capabilities: string[] } | null
+): Capability[] => {
+  if (role === 'LEADER') {
+    return CAPABILITY_NAMES;
+  }
+
+  if (bandRole) {
+    return CAPABILITY_NAMES.filter((capability) => bandRole.capabilities.includes(capability));
+  }
+
+  return DEFAULT_MEMBER_CAPABILITIES;
+};
+
+export const can = (access: BandAccess, capability: Capability): boolean =>
+  access.capabilities.includes(capability);
+
+/**
+ * The user's active membership of a band with what it allows, or null.
+ */
+export const getBandAccess = async (bandId: string, userId: string): Promise<BandAccess | null> => {
+  const membership = await prisma.bandMember.findFirst({
+    where: {
+      bandId,
+      userId,
+      status: 'ACTIVE',
+    },
+    include: {
+      bandRole: {
+        select: {
+          id: true,
+          name: true,
+          capabilities: true,
+        },
+      },
+    },
+  });
+
+  if (!membership) {
+    return null;
+  }
+
+  return {
+    bandId,
+    userId,
+    membershipId: membership.id,
+    role: membership.role,
+    bandRole: membership.bandRole && { id: membership.bandRole.id, name: membership.bandRole.name },
+    capabilities: capabilitiesFor(membership.role, membership.bandRole),
+  };
+};
+
+/**
+ * Like getBandAccess, but throws a 404 for unknown bands and a 403 for
+ * non-members or members lacking `capability`.
+ */
+export const requireBandAccess = async (
+  bandId: string,
+  userId: string,
+  capability?: Capability
+): Promise<BandAccess> => {
+  const access = await getBandAccess(bandId, userId);
+
+  if (!access) {
+    const band = await prisma.band.findUnique({ where: { id: bandId }, select: { id: true } });
+    throw band ? forbidden('You are not a member of this band') : notFound('Band not found');
+  }
+
+  if (capability && !can(access, capability)) {
+    throw forbidden(`You don't have permission to ${CAPABILITIES[capability]} (${capability})`);
+  }
+
+  return access;
+};
+
+/**
+ * Whether a member may edit or cancel a rehearsal: their own ones while
+ * they can schedule rehearsals, anyone's with MANAGE_REHEARSALS.
+ */
+export const canManageRehearsal = (
+  access: BandAccess,
+  rehearsal: { createdById: string }
+): boolean =>
+  can(access, 'MANAGE_REHEARSALS') ||
+  (rehearsal.createdById === access.userId && can(access, 'SCHEDULE_REHEARSALS'));
+
+/**
+ * Whether a member may run check-in for a rehearsal and mark who was there:
+ * with TAKE_ATTENDANCE, or when they may manage the rehearsal.
+ */
+export const canTakeAttendance = (
+  access: BandAccess,
+  rehearsal: { createdById: string }
+): boolean => can(access, 'TAKE_ATTENDANCE') || canManageRehearsal(access, rehearsal);
+
+/**
+ * The band's custom roles with how many active members hold them.
+ */
+export const listBandRoles = async (bandId: string) => {
+  const roles = await prisma.bandRole.findMany({
+    where: { bandId },
+    include: {
+      _count: {
+        select: {
+          members: {
+            where: { status: 'ACTIVE' },
+          },
+        },
+      },
+    },
+    orderBy: {
+      name: 'asc',
+    },
+  });
+
+  return roles.map(({ _count, ...role }) => ({ ...role, memberCount: _count.members }));
+};
+
+export interface BandRoleInput {
+  name?: string;
+  description?: string | null;
+  capabilities?: Capability[];
+}
+
+export const createBandRole = (bandId: string, input: BandRoleInput & { name: string }) =>
+  prisma.bandRole.create({
+    data: {
+      bandId,
+      name: input.name,
+      description: input.description,
+      capabilities: [...new Set(input.capabilities || [])],
+    },
+  });
+
+export const updateBandRole = async (bandId: string, roleId: string, input: BandRoleInput) => {
+  const role = await prisma.bandRole.findFirst({
+    where: { id: roleId, bandId },
+  });
+
+  if (!role) {
+    throw notFound('Role not found');
+  }
+
+  return prisma.bandRole.update({
+    where: { id: role.id },
+    data: {
+      name: input.name,
+      description: input.description,
+      capabilities: input.capabilities && [...new Set(input.capabilities)],
+    },
+  });
+};
+
+/**
+ * Delete a custom role. Members holding it fall back to the MEMBER
+ * defaults. Returns false if the role doesn't exist.
+ */
+export const deleteBandRole = async (bandId: string, roleId: string): Promise<boolean> => {
+  const { count } = await prisma.bandRole.deleteMany({
+    where: { id: roleId, bandId },
+  });
+
+  return count > 0;
+};
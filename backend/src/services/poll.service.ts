@@ -0,0 +1,413 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { badRequest, conflict, forbidden, notFound } from '../utils/errors';
+import { SERIALIZABLE } from './membership.service';
+import { createNotifications, publishNotifications } from './notification.service';
+import { BandAccess, can, canManageRehearsal } from './permission.service';
+import { createRehearsal } from './rehearsal.service';
+
+const prisma = new PrismaClient();
+
+export type PollType = 'SINGLE' | 'MULTIPLE' | 'DATE';
+
+export const POLL_TYPES: PollType[] = ['SINGLE', 'MULTIPLE', 'DATE'];
+
+export const MAX_POLL_OPTIONS = 50;
+
+export interface PollOptionInput {
+  label?: string; // Required except for DATE polls
+  startDatetime?: Date;
+  endDatetime?: Date;
+}
+
+export interface CreatePollInput {
+  bandId: string;
+  question: string;
+  description?: string | null;
+  type: PollType;
+  maxChoices?: number | null;
+  isAnonymous?: boolean;
+  deadline?: Date | null;
+  options: PollOptionInput[];
+  timezone?: string; // For the labels of DATE options
+}
+
+export interface PollRehearsalInput {
+  optionId?: string; // Defaults to the winning option
+  title?: string; // Defaults to the poll's question
+  description?: string | null;
+  location?: string;
+  venueId?: string | null;
+}
+
+const pollInclude = {
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  options: {
+    orderBy: { position: 'asc' as const },
+  },
+  votes: {
+    select: {
+      optionId: true,
+      userId: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+  rehearsal: {
+    select: {
+      id: true,
+      title: true,
+      startDatetime: true,
+      endDatetime: true,
+      status: true,
+    },
+  },
+};
+
+type PollWithVotes = Prisma.PollGetPayload<{ include: typeof pollInclude }>;
+
+export const isPollOpen = (
+  poll: { closedAt: Date | null; deadline: Date | null },
+  now = new Date()
+) => !poll.closedAt && (!poll.deadline || poll.deadline > now);
+
+const ratio = (count: number, total: number) =>
+  total === 0 ? null : Math.round((count / total) * 1000) / 1000;
+
+// e.g. "Tue, 14 Oct, 19:00–22:00"
+const formatSlot = (start: Date, end: Date, timeZone: string) => {
+  const day = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+  const time = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit' });
+  const sameDay = day.format(start) === day.format(end);
+
+  return sameDay
+    ? `${day.format(start)}, ${time.format(start)}–${time.format(end)}`
+    : `${day.format(start)}, ${time.format(start)} – ${day.format(end)}, ${time.format(end)}`;
+};
+
+/**
+ * Votes per option and the winners: the options with the most votes, or
+ * none before anyone has voted. Shares are of the members who voted. Named
+ * polls list who picked each option; anonymous polls only give counts.
+ */
+export const summarizePoll = (poll: PollWithVotes, userId: string, now = new Date()) => {
+  const { votes, options, ...details } = poll;
+  const voterCount = new Set(votes.map((vote) => vote.userId)).size;
+
+  const results = options.map((option) => {
+    const optionVotes = votes.filter((vote) => vote.optionId === option.id);
+
+    return {
+      ...option,
+      votes: optionVotes.length,
+      share: ratio(optionVotes.length, voterCount),
+      ...(!poll.isAnonymous && { voters: optionVotes.map((vote) => vote.user) }),
+    };
+  });
+
+  const most = Math.max(0, ...results.map((option) => option.votes));
+
+  return {
+    ...details,
+    isOpen: isPollOpen(poll, now),
+    voterCount,
+    myVotes: votes.filter((vote) => vote.userId === userId).map((vote) => vote.optionId),
+    options: results,
+    winners:
+      most > 0 ? results.filter((option) => option.votes === most).map((option) => option.id) : [],
+  };
+};
+
+const findPoll = async (pollId: string) => {
+  const poll = await prisma.poll.findUnique({
+    where: { id: pollId },
+    include: pollInclude,
+  });
+
+  if (!poll) {
+    throw notFound('Poll not found');
+  }
+
+  return poll;
+};
+
+// Whoever created the poll, or anyone with MANAGE_POLLS
+const assertCanManagePoll = (access: BandAccess, poll: { createdById: string | null }) => {
+  if (poll.createdById !== access.userId && !can(access, 'MANAGE_POLLS')) {
+    throw forbidden("You don't have permission to manage other members' polls (MANAGE_POLLS)");
+  }
+};
+
+/**
+ * The band's polls, newest first, with their results. `status` narrows
+ * them to open or closed polls.
+ */
+export const listPolls = async (
+  bandId: string,
+  userId: string,
+  options: { status?: 'open' | 'closed' } = {},
+  now = new Date()
+) => {
+  const openWhere: Prisma.PollWhereInput = {
+    closedAt: null,
+    OR: [{ deadline: null }, { deadline: { gt: now } }],
+  };
+
+  const polls = await prisma.poll.findMany({
+    where: {
+      bandId,
+      ...(options.status === 'open' && openWhere),
+      ...(options.status === 'closed' && { NOT: openWhere }),
+    },
+    include: pollInclude,
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+  return polls.map((poll) => summarizePoll(poll, userId, now));
+};
+
+export const getPoll = async (pollId: string, userId: string) =>
+  summarizePoll(await findPoll(pollId), userId);
+
+/**
+ * Create a poll and tell the band's other active members about it.
+ */
+export const createPoll = async (
+  input: CreatePollInput,
+  author: { id: string; name: string },
+  now = new Date()
+) => {
+  const { type, options } = input;
+
+  if (input.deadline && input.deadline <= now) {
+    throw badRequest('The deadline must be in the future');
+  }
+
+  if (type === 'DATE') {
+    for (const option of options) {
+      if (!option.startDatetime || !option.endDatetime) {
+        throw badRequest('Every option of a date poll needs a start and end time');
+      }
+
+      if (option.startDatetime >= option.endDatetime) {
+        throw badRequest('End time must be after start time');
+      }
+    }
+  } else if (options.some((option) => !option.label)) {
+    throw badRequest('Every option needs a label');
+  }
+
+  if (type === 'MULTIPLE' && input.maxChoices && input.maxChoices > options.length) {
+    throw badRequest('maxChoices can be at most the number of options');
+  }
+
+  const members = await prisma.bandMember.findMany({
+    where: {
+      bandId: input.bandId,
+      status: 'ACTIVE',
+      userId: { not: author.id },
+    },
+    select: { userId: true },
+  });
+
+  const { poll, notifications } = await prisma.$transaction(async (tx) => {
+    const created = await tx.poll.create({
+      data: {
+        bandId: input.bandId,
+        question: input.question,
+        description: input.description,
+        type,
+        maxChoices: type === 'MULTIPLE' ? (input.maxChoices ?? null) : null,
+        isAnonymous: input.isAnonymous ?? false,
+        deadline: input.deadline ?? null,
+        createdById: author.id,
+        options: {
+          createMany: {
+            data: options.map((option, index) => ({
+              label:
+                option.label ||
+                formatSlot(option.startDatetime!, option.endDatetime!, input.timezone || 'UTC'),
+              position: index + 1,
+              startDatetime: type === 'DATE' ? option.startDatetime : null,
+              endDatetime: type === 'DATE' ? option.endDatetime : null,
+            })),
+          },
+        },
+      },
+      include: pollInclude,
+    });
+
+    const notifications = await createNotifications(
+      tx,
+      members.map((member) => ({
+        userId: member.userId,
+        type: 'NEW_POLL',
+        content: `${author.name} asks: ${input.question}`,
+        relatedId: input.bandId,
+      }))
+    );
+
+    return { poll: created, notifications };
+  });
+
+  await publishNotifications(notifications);
+
+  return summarizePoll(poll, author.id, now);
+};
+
+/**
+ * Set the member's vote to the given options, replacing any earlier vote.
+ * An empty list withdraws it. Two votes from the same member at once would
+ * both find nothing to replace, so the replacement is serialized; the
+ * losing request is told to try again.
+ */
+export const castVote = async (pollId: string, userId: string, optionIds: string[], now = new Date()) => {
+  const poll = await findPoll(pollId);
+  const picked = [...new Set(optionIds)];
+
+  if (!isPollOpen(poll, now)) {
+    throw badRequest('This poll is closed');
+  }
+
+  if (picked.some((optionId) => !poll.options.some((option) => option.id === optionId))) {
+    throw badRequest('Options must belong to this poll');
+  }
+
+  if (poll.type === 'SINGLE' && picked.length > 1) {
+    throw badRequest('Only one option can be picked in this poll');
+  }
+
+  if (poll.maxChoices && picked.length > poll.maxChoices) {
+    throw badRequest(`At most ${poll.maxChoices} options can be picked in this poll`);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.pollVote.deleteMany({ where: { pollId, userId } });
+    await tx.pollVote.createMany({
+      data: picked.map((optionId) => ({ pollId, optionId, userId })),
+    });
+  }, SERIALIZABLE);
+
+  return getPoll(pollId, userId);
+};
+
+/**
+ * Close voting before the deadline.
+ */
+export const closePoll = async (pollId: string, access: BandAccess, now = new Date()) => {
+  const poll = await findPoll(pollId);
+  assertCanManagePoll(access, poll);
+
+  if (!isPollOpen(poll, now)) {
+    throw badRequest('This poll is already closed');
+  }
+
+  await prisma.poll.update({
+    where: { id: pollId },
+    data: { closedAt: now },
+  });
+
+  return getPoll(pollId, access.userId);
+};
+
+export const deletePoll = async (pollId: string, access: BandAccess) => {
+  const poll = await findPoll(pollId);
+  assertCanManagePoll(access, poll);
+
+  await prisma.poll.delete({ where: { id: pollId } });
+};
+
+/**
+ * Schedule a closed date poll's winning slot, or another option, as a
+ * rehearsal through the usual creation, so members get their RSVPs and
+ * the venue is reserved. Allowed for members who may manage the poll's
+ * rehearsals: its creator while they can schedule, or MANAGE_REHEARSALS.
+ * When options tie, the earliest wins unless one is picked.
+ */
+export const schedulePollRehearsal = async (
+  pollId: string,
+  access: BandAccess,
+  input: PollRehearsalInput,
+  options: { overrideConflicts?: boolean } = {},
+  now = new Date()
+) => {
+  const poll = await findPoll(pollId);
+
+  if (!canManageRehearsal(access, { createdById: poll.createdById ?? '' })) {
+    throw forbidden(
+      "Only the poll's creator or members who manage the band's rehearsals can schedule it"
+    );
+  }
+
+  if (poll.type !== 'DATE') {
+    throw badRequest('Only date polls can be turned into a rehearsal');
+  }
+
+  if (isPollOpen(poll, now)) {
+    throw badRequest('Close the poll before scheduling the rehearsal');
+  }
+
+  if (poll.rehearsalId) {
+    throw conflict('This poll has already been turned into a rehearsal');
+  }
+
+  const summary = summarizePoll(poll, access.userId, now);
+  const option = input.optionId
+    ? summary.options.find((item) => item.id === input.optionId)
+    : summary.options
+        .filter((item) => summary.winners.includes(item.id))
+        .sort((a, b) => a.startDatetime!.getTime() - b.startDatetime!.getTime())[0];
+
+  if (!option) {
+    throw badRequest(input.optionId ? 'Options must belong to this poll' : 'Nobody has voted in this poll');
+  }
+
+  if (option.startDatetime! <= now) {
+    throw badRequest('This time has already passed');
+  }
+
+  const { rehearsals, conflicts } = await createRehearsal(
+    {
+      bandId: poll.bandId,
+      title: input.title || poll.question,
+      description: input.description,
+      location: input.location,
+      venueId: input.venueId,
+      startDatetime: option.startDatetime!,
+      endDatetime: option.endDatetime!,
+      createdById: access.userId,
+    },
+    {
+      ...options,
+      // Claimed together with the rehearsal, so concurrent requests can't
+      // both schedule the poll
+      onCreated: async (tx, created) => {
+        const { count } = await tx.poll.updateMany({
+          where: { id: pollId, rehearsalId: null },
+          data: { rehearsalId: created[0].id },
+        });
+
+        if (count === 0) {
+          throw conflict('This poll has already been turned into a rehearsal');
+        }
+      },
+    }
+  );
+
+  return { rehearsal: rehearsals[0], conflicts, poll: await getPoll(pollId, access.userId) };
+};
@@ -0,0 +1,354 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { PrismaClient, Rehearsal, RehearsalAttendance } from '@prisma/client';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { AccessTokenIdentity, verifyAccessToken } from '../middlewares/auth';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export const REALTIME_PATH = '/api/ws';
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Close code for sockets whose token expired or session was revoked
+const UNAUTHORIZED_CLOSE_CODE = 4001;
+
+export interface RealtimeEvent {
+  type: string; // e.g. chat.message.created
+  data: unknown;
+}
+
+/**
+ * Live updates about a band, sent to sockets subscribed to it.
+ */
+export type BandUpdate =
+  | {
+      type: 'rehearsal.created' | 'rehearsal.updated' | 'rehearsal.cancelled';
+      data: { bandId: string; rehearsals: Rehearsal[] }; // Several for series edits
+    }
+  | {
+      type: 'attendance.changed';
+      data: { bandId: string; attendance: RehearsalAttendance };
+    }
+  | {
+      type: 'member.joined';
+      data: { bandId: string; member: { userId: string; name: string; role: string } };
+    }
+  | {
+      type: 'member.left';
+      data: { bandId: string; userId: string; removed: boolean }; // removed: by someone else
+    };
+
+interface Connection {
+  socket: WebSocket;
+  identity: AccessTokenIdentity;
+  alive: boolean;
+  bandIds: Set<string>; // Bands subscribed to for live updates
+}
+
+// Open sockets by user; a user can be connected from several devices
+const connections = new Map<string, Set<Connection>>();
+
+const send = (connection: Connection, type: string, data: unknown) => {
+  if (connection.socket.readyState === WebSocket.OPEN) {
+    connection.socket.send(JSON.stringify({ type, data, sentAt: new Date() }));
+  }
+};
+
+/**
+ * Send an event to every socket the users have open. Users who aren't
+ * connected miss it; clients refetch over the REST API when they reconnect.
+ */
+export const publishToUsers = (userIds: Iterable<string>, event: RealtimeEvent) => {
+  for (const userId of new Set(userIds)) {
+    for (const connection of connections.get(userId) ?? []) {
+      send(connection, event.type, event.data);
+    }
+  }
+};
+
+export const isUserConnected = (userId: string) => connections.has(userId);
+
+const activeMembers = async (bandId: string, userIds: string[]) => {
+  const members = await prisma.bandMember.findMany({
+    where: {
+      bandId,
+      status: 'ACTIVE',
+      userId: { in: userIds },
+    },
+    select: { userId: true },
+  });
+
+  return new Set(members.map((member) => member.userId));
+};
+
+/**
+ * Send an event to the band's active members. Failures are logged, as the
+ * change the event is about has already been saved.
+ */
+export const publishToBand = async (bandId: string, event: RealtimeEvent) => {
+  if (connections.size === 0) {
+    return;
+  }
+
+  try {
+    publishToUsers(await activeMembers(bandId, [...connections.keys()]), event);
+  } catch (error) {
+    logger.error(`Realtime ${event.type} event failed: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Send a live update to the sockets subscribed to the band. Membership is
+ * checked again, so members who have left stop getting updates; their
+ * sockets are told the subscription ended. Failures are logged.
+ */
+export const publishBandUpdate = async (update: BandUpdate) => {
+  const { bandId } = update.data;
+  const subscribers = [...connections.values()]
+    .flatMap((userConnections) => [...userConnections])
+    .filter((connection) => connection.bandIds.has(bandId));
+
+  if (subscribers.length === 0) {
+    return;
+  }
+
+  try {
+    const members = await activeMembers(
+      bandId,
+      subscribers.map((connection) => connection.identity.user.id)
+    );
+
+    for (const connection of subscribers) {
+      if (members.has(connection.identity.user.id)) {
+        send(connection, update.type, update.data);
+      } else {
+        connection.bandIds.delete(bandId);
+        send(connection, 'subscription.ended', { bandId });
+      }
+    }
+  } catch (error) {
+    logger.error(`Realtime ${update.type} event failed: ${(error as Error).message}`);
+  }
+};
+
+const disconnect = (connection: Connection) => {
+  const userConnections = connections.get(connection.identity.user.id);
+  userConnections?.delete(connection);
+
+  if (userConnections?.size === 0) {
+    connections.delete(connection.identity.user.id);
+  }
+};
+
+// Browsers can't set headers on a WebSocket, so the token may come in the query
+const tokenFrom = (req: IncomingMessage, url: URL) => {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.replace('Bearer ', '');
+  }
+
+  return url.searchParams.get('token') ?? '';
+};
+
+const reject = (socket: Duplex, status: string) => {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+/**
+ * Subscribe to live updates of the given bands, or of all the user's
+ * bands. Bands the user isn't an active member of are rejected.
+ */
+const subscribe = async (connection: Connection, bandIds?: string[]) => {
+  const memberships = await prisma.bandMember.findMany({
+    where: {
+      userId: connection.identity.user.id,
+      status: 'ACTIVE',
+      ...(bandIds && { bandId: { in: bandIds } }),
+    },
+    select: { bandId: true },
+  });
+  const allowed = memberships.map((membership) => membership.bandId);
+
+  allowed.forEach((bandId) => connection.bandIds.add(bandId));
+  send(connection, 'subscribed', {
+    bandIds: [...connection.bandIds],
+    rejectedBandIds: (bandIds ?? []).filter((bandId) => !allowed.includes(bandId)),
+  });
+};
+
+const unsubscribe = (connection: Connection, bandIds?: string[]) => {
+  if (bandIds) {
+    bandIds.forEach((bandId) => connection.bandIds.delete(bandId));
+  } else {
+    connection.bandIds.clear();
+  }
+
+  send(connection, 'subscribed', { bandIds: [...connection.bandIds], rejectedBandIds: [] });
+};
+
+const reauthenticate = async (connection: Connection, token: string) => {
+  try {
+    const identity = await verifyAccessToken(token);
+
+    if (identity.user.id !== connection.identity.user.id) {
+      send(connection, 'error', { message: 'The token belongs to another user' });
+      return;
+    }
+
+    connection.identity = identity;
+    send(connection, 'authenticated', { expiresAt: identity.expiresAt });
+  } catch (error) {
+    if (!(error instanceof HttpError)) throw error;
+    connection.socket.close(UNAUTHORIZED_CLOSE_CODE, error.message);
+  }
+};
+
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Messages from the client:
+ * - `authenticate` with a fresh access token keeps the socket open past
+ *   the expiry of the token it connected with
+ * - `subscribe` / `unsubscribe` with optional `bandIds` (default: all of
+ *   the user's bands) choose which bands' live updates are sent
+ */
+const handleMessage = async (connection: Connection, raw: RawData) => {
+  let message: { type?: string; token?: unknown; bandIds?: unknown } | null;
+
+  try {
+    message = JSON.parse(raw.toString());
+  } catch (error) {
+    message = null;
+  }
+
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    send(connection, 'error', { message: 'Messages must be JSON objects' });
+    return;
+  }
+
+  if (message.bandIds !== undefined && !isIdList(message.bandIds)) {
+    send(connection, 'error', { message: 'bandIds must be a list of band IDs' });
+    return;
+  }
+
+  const bandIds = message.bandIds as string[] | undefined;
+
+  try {
+    if (message.type === 'authenticate' && typeof message.token === 'string') {
+      await reauthenticate(connection, message.token);
+    } else if (message.type === 'subscribe') {
+      await subscribe(connection, bandIds);
+    } else if (message.type === 'unsubscribe') {
+      unsubscribe(connection, bandIds);
+    } else {
+      send(connection, 'error', { message: 'Unknown message type' });
+    }
+  } catch (error) {
+    logger.error(`Realtime ${message.type} message failed: ${(error as Error).message}`);
+    send(connection, 'error', { message: 'Something went wrong, please try again' });
+  }
+};
+
+/**
+ * Ping every socket, drop those that didn't answer the last ping and close
+ * those whose token has expired or whose session was revoked since.
+ */
+const checkConnections = async () => {
+  const all = [...connections.values()].flatMap((userConnections) => [...userConnections]);
+
+  if (all.length === 0) {
+    return;
+  }
+
+  const revoked = await prisma.session.findMany({
+    where: {
+      id: { in: [...new Set(all.map((connection) => connection.identity.sessionId))] },
+      revokedAt: { not: null },
+    },
+    select: { id: true },
+  });
+  const revokedIds = new Set(revoked.map((session) => session.id));
+  const now = new Date();
+
+  for (const connection of all) {
+    const { expiresAt, sessionId } = connection.identity;
+
+    if (!connection.alive) {
+      connection.socket.terminate();
+    } else if (revokedIds.has(sessionId)) {
+      connection.socket.close(UNAUTHORIZED_CLOSE_CODE, 'Session has been revoked');
+    } else if (expiresAt && expiresAt <= now) {
+      connection.socket.close(UNAUTHORIZED_CLOSE_CODE, 'Token expired');
+    } else {
+      connection.alive = false;
+      connection.socket.ping();
+    }
+  }
+};
+
+/**
+ * Accept WebSocket connections at REALTIME_PATH on the HTTP server,
+ * authenticated with the same access tokens as the REST API (as a bearer
+ * header or the `token` query parameter). Events are JSON objects with a
+ * `type`, `data` and `sentAt`. Chat events and the user's notifications
+ * are always sent; band live updates only after subscribing.
+ */
+export const attachRealtimeServer = (server: Server) => {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname !== REALTIME_PATH) {
+      reject(socket, '404 Not Found');
+      return;
+    }
+
+    let identity: AccessTokenIdentity;
+
+    try {
+      identity = await verifyAccessToken(tokenFrom(req, url));
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        logger.error(`Realtime authentication failed: ${(error as Error).message}`);
+      }
+
+      reject(socket, error instanceof HttpError ? '401 Unauthorized' : '500 Internal Server Error');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const connection: Connection = { socket: ws, identity, alive: true, bandIds: new Set() };
+      const userId = identity.user.id;
+
+      connections.set(userId, (connections.get(userId) ?? new Set()).add(connection));
+
+      ws.on('pong', () => {
+        connection.alive = true;
+      });
+      ws.on('message', (raw) => void handleMessage(connection, raw));
+      ws.on('close', () => disconnect(connection));
+      ws.on('error', (error) => logger.warn(`Realtime socket error: ${error.message}`));
+
+      send(connection, 'connected', { userId, expiresAt: identity.expiresAt });
+    });
+  });
+
+  const timer = setInterval(() => {
+    checkConnections().catch((error) =>
+      logger.error(`Realtime connection check failed: ${(error as Error).message}`)
+    );
+  }, HEARTBEAT_INTERVAL_MS);
+  // Don't keep the process alive just for the heartbeat
+  timer.unref();
+
+  wss.on('close', () => clearInterval(timer));
+
+  return wss;
+};
@@ -0,0 +1,820 @@
+import { Prisma, PrismaClient, Rehearsal, RehearsalSeries } from '@prisma/client';
+import {
+  RecurrenceRule,
+  expandRecurrence,
+  formatRRule,
+  parseRecurrencePattern,
+  shiftRecurrenceRule,
+} from '../utils/recurrence';
+import { reserveVenue } from './booking.service';
+import { createNotifications, publishNotifications } from './notification.service';
+import { publishBandUpdate } from './realtime.service';
+import { SchedulingConflict, detectConflicts } from './conflict.service';
+import { SERIALIZABLE } from './membership.service';
+import { findVenueForBand } from './venue.service';
+import { DAY_MS } from '../utils/time';
+import { badRequest, conflict } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// How far ahead an open-ended series (no COUNT or UNTIL) is materialised;
+// extendRecurringSeries keeps it that far ahead
+const OPEN_SERIES_HORIZON_DAYS = 182;
+// Upper bound for COUNT-limited series
+const COUNTED_SERIES_HORIZON_DAYS = 5 * 365;
+
+export type EditScope = 'THIS' | 'FOLLOWING' | 'ALL';
+
+export const EDIT_SCOPES: EditScope[] = ['THIS', 'FOLLOWING', 'ALL'];
+
+export interface CreateRehearsalInput {
+  bandId: string;
+  title: string;
+  description?: string | null;
+  location?: string; // Defaults to the venue's name
+  venueId?: string | null;
+  startDatetime: Date;
+  endDatetime: Date;
+  createdById: string;
+  recurrence?: RecurrenceRule | null;
+  timezone?: string;
+}
+
+export interface SchedulingOptions {
+  // Save even if the new times clash with other rehearsals
+  overrideConflicts?: boolean;
+  // User making the change; they are not notified about it
+  actorId?: string;
+}
+
+export interface CreateRehearsalOptions extends SchedulingOptions {
+  // Runs inside the creating transaction; throwing rolls the rehearsals back
+  onCreated?: (tx: Prisma.TransactionClient, rehearsals: Rehearsal[]) => Promise<void>;
+}
+
+export interface RehearsalChanges {
+  title?: string;
+  description?: string | null;
+  location?: string;
+  venueId?: string | null; // null removes the venue, keeping the location text
+  startDatetime?: Date;
+  endDatetime?: Date;
+}
+
+export interface RehearsalListFilters {
+  bandId?: string;
+  upcoming?: boolean;
+  past?: boolean;
+  start?: Date;
+  end?: Date;
+}
+
+/**
+ * Rehearsals of the bands the user is an active member of, with the band
+ * name and the user's own RSVP.
+ */
+export const findRehearsalsForUser = async (userId: string, filters: RehearsalListFilters = {}) => {
+  const { bandId, upcoming, past, start, end } = filters;
+
+  // Get bands where the user is a member
+  const userBands = await prisma.bandMember.findMany({
+    where: {
+      userId,
+      status: 'ACTIVE',
+      ...(bandId && { bandId }),
+    },
+    select: {
+      bandId: true,
+    },
+  });
+
+  // Build query filters
+  const bandIds = userBands.map((band) => band.bandId);
+
+  const dateFilter: Prisma.RehearsalWhereInput = {};
+  const now = new Date();
+
+  if (upcoming) {
+    dateFilter.startDatetime = { gte: now };
+  } else if (past) {
+    dateFilter.endDatetime = { lt: now };
+  } else if (start && end) {
+    dateFilter.AND = [{ startDatetime: { gte: start } }, { endDatetime: { lte: end } }];
+  }
+
+  return prisma.rehearsal.findMany({
+    where: {
+      bandId: { in: bandIds },
+      ...dateFilter,
+    },
+    include: {
+      band: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      venue: {
+        select: {
+          id: true,
+          name: true,
+          address: true,
+        },
+      },
+      _count: {
+        select: { attendances: true },
+      },
+      attendances: {
+        where: {
+          userId,
+        },
+        select: {
+          status: true,
+        },
+      },
+    },
+    orderBy: {
+      startDatetime: upcoming ? 'asc' : 'desc',
+    },
+  });
+};
+
+const seriesHorizon = (rule: RecurrenceRule, start: Date): Date => {
+  if (rule.until) return rule.until;
+
+  const days = rule.count !== undefined ? COUNTED_SERIES_HORIZON_DAYS : OPEN_SERIES_HORIZON_DAYS;
+  return new Date(start.getTime() + days * DAY_MS);
+};
+
+/**
+ * Reject clashing slots unless the caller explicitly overrides, in which
+ * case the conflicts are returned for display.
+ */
+const checkConflicts = async (
+  bandId: string,
+  place: { location: string; venueId: string | null },
+  slots: { start: Date; end: Date }[],
+  excludeRehearsalIds: string[],
+  options: SchedulingOptions
+): Promise<SchedulingConflict[]> => {
+  const conflicts = await detectConflicts({ bandId, ...place, slots, excludeRehearsalIds });
+
+  if (conflicts.length > 0 && !options.overrideConflicts) {
+    throw conflict(
+      `Detected ${conflicts.length} scheduling conflict(s); pass overrideConflicts to save anyway`,
+      conflicts
+    );
+  }
+
+  return conflicts;
+};
+
+/**
+ * Create a one-off rehearsal, or a series with one rehearsal per occurrence.
+ *
+ * Each rehearsal gets a PENDING attendance row for every active band member,
+ * and members other than the creator are notified once. At a venue, every
+ * occurrence must fit its opening hours and not clash with other bands'
+ * bookings or blocked-out periods.
+ */
+export const createRehearsal = async (
+  input: CreateRehearsalInput,
+  options: CreateRehearsalOptions = {}
+): Promise<{
+  rehearsals: Rehearsal[];
+  series: RehearsalSeries | null;
+  conflicts: SchedulingConflict[];
+}> => {
+  const { recurrence, timezone = 'UTC', ...details } = input;
+  const venue = details.venueId ? await findVenueForBand(details.venueId, details.bandId) : null;
+  const location = details.location?.trim() || venue?.name;
+
+  if (!location) {
+    throw badRequest('A location or venue is required');
+  }
+
+  const durationMs = details.endDatetime.getTime() - details.startDatetime.getTime();
+
+  let starts = [details.startDatetime];
+
+  if (recurrence) {
+    starts = expandRecurrence(recurrence, details.startDatetime, timezone, {
+      horizon: seriesHorizon(recurrence, details.startDatetime),
+    });
+
+    if (starts.length === 0) {
+      throw badRequest('Recurrence pattern does not produce any occurrences');
+    }
+  }
+
+  const slots = starts.map((start) => ({ start, end: new Date(start.getTime() + durationMs) }));
+  const conflicts = await checkConflicts(
+    details.bandId,
+    { location, venueId: venue?.id ?? null },
+    slots,
+    [],
+    options
+  );
+
+  const bandMembers = await prisma.bandMember.findMany({
+    where: {
+      bandId: details.bandId,
+      status: 'ACTIVE',
+    },
+    select: {
+      userId: true,
+    },
+  });
+
+  const { notifications, ...created } = await prisma.$transaction(async (tx) => {
+    if (venue) {
+      await reserveVenue(tx, venue.id, details.bandId, slots);
+    }
+
+    const series = recurrence
+      ? await tx.rehearsalSeries.create({
+          data: {
+            bandId: details.bandId,
+            rrule: formatRRule(recurrence),
+            exceptionDates: recurrence.exceptionDates,
+            timezone,
+          },
+        })
+      : null;
+
+    const rehearsals: Rehearsal[] = [];
+
+    for (const start of starts) {
+      rehearsals.push(
+        await tx.rehearsal.create({
+          data: {
+            ...details,
+            location,
+            venueId: venue?.id ?? null,
+            startDatetime: start,
+            endDatetime: new Date(start.getTime() + durationMs),
+            isRecurring: Boolean(series),
+            recurrencePattern: series?.rrule ?? null,
+            seriesId: series?.id,
+            recurrenceId: series ? start : null,
+            attendances: {
+              createMany: {
+                data: bandMembers.map((member) => ({
+                  userId: member.userId,
+                  status: 'PENDING',
+                })),
+              },
+            },
+          },
+        })
+      );
+    }
+
+    const notifications = await createNotifications(
+      tx,
+      bandMembers
+        .filter((member) => member.userId !== details.createdById) // Don't notify creator
+        .map((member) => ({
+          userId: member.userId,
+          type: 'NEW_REHEARSAL',
+          content: series
+            ? `New recurring rehearsal: ${details.title} (${rehearsals.length} dates)`
+            : `New rehearsal: ${details.title}`,
+          relatedId: rehearsals[0].id,
+        }))
+    );
+
+    await options.onCreated?.(tx, rehearsals);
+
+    return { rehearsals, series, conflicts, notifications };
+  }, SERIALIZABLE);
+
+  await publishBandUpdate({
+    type: 'rehearsal.created',
+    data: { bandId: details.bandId, rehearsals: created.rehearsals },
+  });
+  await publishNotifications(notifications);
+
+  return created;
+};
+
+/**
+ * Split a series so that `following` (the edited occurrence onwards) moves
+ * to a new series. The original series ends just before the split point.
+ * Returns the series `following` belongs to afterwards.
+ */
+const splitSeries = async (
+  tx: Prisma.TransactionClient,
+  rehearsal: Rehearsal,
+  following: Rehearsal[]
+): Promise<string> => {
+  const earlier = await tx.rehearsal.count({
+    where: {
+      seriesId: rehearsal.seriesId,
+      startDatetime: { lt: rehearsal.startDatetime },
+    },
+  });
+
+  // Editing from the first occurrence onwards is the whole series
+  if (earlier === 0) return rehearsal.seriesId!;
+
+  const series = await tx.rehearsalSeries.findUniqueOrThrow({
+    where: { id: rehearsal.seriesId! },
+  });
+  const rule = parseRecurrencePattern(series.rrule);
+  const splitPoint = rehearsal.recurrenceId ?? rehearsal.startDatetime;
+  const last = following[following.length - 1];
+
+  const headRRule = formatRRule({
+    ...rule,
+    count: undefined,
+    until: new Date(splitPoint.getTime() - 1000),
+  });
+  // A counted series ends where it did; an open one stays open
+  const tailRRule = formatRRule({
+    ...rule,
+    count: undefined,
+    until:
+      rule.count !== undefined ? (last.recurrenceId ?? last.startDatetime) : rule.until,
+  });
+
+  const tail = await tx.rehearsalSeries.create({
+    data: {
+      bandId: series.bandId,
+      rrule: tailRRule,
+      exceptionDates: series.exceptionDates,
+      timezone: series.timezone,
+    },
+  });
+
+  await tx.rehearsalSeries.update({
+    where: { id: series.id },
+    data: { rrule: headRRule },
+  });
+
+  await tx.rehearsal.updateMany({
+    where: { seriesId: series.id, id: { notIn: following.map((item) => item.id) } },
+    data: { recurrencePattern: headRRule },
+  });
+
+  await tx.rehearsal.updateMany({
+    where: { id: { in: following.map((item) => item.id) } },
+    data: { seriesId: tail.id, recurrencePattern: tailRRule },
+  });
+
+  return tail.id;
+};
+
+/**
+ * End the series rule just before `from`, so that no occurrences are
+ * generated from there on.
+ */
+const endSeries = async (tx: Prisma.TransactionClient, seriesId: string, from: Date) => {
+  const series = await tx.rehearsalSeries.findUniqueOrThrow({ where: { id: seriesId } });
+  const rrule = formatRRule({
+    ...parseRecurrencePattern(series.rrule),
+    count: undefined,
+    until: new Date(from.getTime() - 1000),
+  });
+
+  await tx.rehearsalSeries.update({
+    where: { id: seriesId },
+    data: { rrule },
+  });
+
+  await tx.rehearsal.updateMany({
+    where: { seriesId },
+    data: { recurrencePattern: rrule },
+  });
+};
+
+/**
+ * Rewrite the series rule after a series-wide time change moved the
+ * occurrence generated at `from` to `to`, so that expanding the rule again
+ * gives the new days.
+ */
+const shiftSeriesRule = async (
+  tx: Prisma.TransactionClient,
+  seriesId: string,
+  from: Date,
+  to: Date
+) => {
+  const series = await tx.rehearsalSeries.findUniqueOrThrow({ where: { id: seriesId } });
+  const rule = shiftRecurrenceRule(
+    { ...parseRecurrencePattern(series.rrule), exceptionDates: series.exceptionDates },
+    from,
+    to,
+    series.timezone
+  );
+  const rrule = formatRRule(rule);
+
+  await tx.rehearsalSeries.update({
+    where: { id: seriesId },
+    data: { rrule, exceptionDates: rule.exceptionDates },
+  });
+
+  await tx.rehearsal.updateMany({
+    where: { seriesId },
+    data: { recurrencePattern: rrule },
+  });
+};
+
+/**
+ * The occurrences an edit or cancellation with the given scope applies to.
+ * "ALL" skips occurrences that have already started.
+ */
+const findScopeTargets = async (rehearsal: Rehearsal, scope: EditScope): Promise<Rehearsal[]> => {
+  if (!rehearsal.seriesId || scope === 'THIS') {
+    return [rehearsal];
+  }
+
+  return prisma.rehearsal.findMany({
+    where: {
+      seriesId: rehearsal.seriesId,
+      status: { not: 'CANCELLED' },
+      ...(scope === 'FOLLOWING'
+        ? { startDatetime: { gte: rehearsal.startDatetime } }
+        : { OR: [{ startDatetime: { gte: new Date() } }, { id: rehearsal.id }] }),
+    },
+    orderBy: { startDatetime: 'asc' },
+  });
+};
+
+/**
+ * Notify everyone with an attendance row on the given rehearsals, except the
+ * user who made the change.
+ */
+const notifyAttendees = async (
+  tx: Prisma.TransactionClient,
+  rehearsals: Rehearsal[],
+  type: string,
+  content: string,
+  actorId?: string
+) => {
+  const attendances = await tx.rehearsalAttendance.findMany({
+    where: {
+      rehearsalId: { in: rehearsals.map((rehearsal) => rehearsal.id) },
+      memberLeftAt: null,
+      ...(actorId && { userId: { not: actorId } }),
+    },
+    distinct: ['userId'],
+    select: {
+      userId: true,
+    },
+  });
+
+  return createNotifications(
+    tx,
+    attendances.map((attendance) => ({
+      userId: attendance.userId,
+      type,
+      content,
+      relatedId: rehearsals[0].id,
+    }))
+  );
+};
+
+const describeOccurrences = (title: string, count: number) =>
+  count > 1 ? `${title} (${count} dates)` : title;
+
+/**
+ * Apply changes to a rehearsal and, for series members, optionally to the
+ * following occurrences or the whole series.
+ *
+ * Time changes are applied to every targeted occurrence as a shift of the
+ * start time plus the new duration. "ALL" leaves occurrences that have
+ * already started untouched so that history stays accurate. Series-wide
+ * time changes move the series rule too, including its weekdays. Moves in
+ * time, venue or location are checked for conflicts first, and the venue
+ * must be free at the new times. Picking a venue without a location sets
+ * the location to the venue's name. A time change resets RSVPs to PENDING,
+ * and attendees are notified of every change.
+ */
+export const updateRehearsal = async (
+  rehearsal: Rehearsal,
+  changes: RehearsalChanges,
+  scope: EditScope = 'THIS',
+  options: SchedulingOptions = {}
+): Promise<{ rehearsals: Rehearsal[]; conflicts: SchedulingConflict[] }> => {
+  if (rehearsal.status === 'CANCELLED') {
+    throw badRequest('Cancelled rehearsals cannot be edited');
+  }
+
+  const newStart = changes.startDatetime ?? rehearsal.startDatetime;
+  const newEnd = changes.endDatetime ?? rehearsal.endDatetime;
+
+  if (newStart >= newEnd) {
+    throw badRequest('End time must be after start time');
+  }
+
+  const shiftMs = newStart.getTime() - rehearsal.startDatetime.getTime();
+  const durationMs = newEnd.getTime() - newStart.getTime();
+  const timesChanged =
+    shiftMs !== 0 ||
+    durationMs !== rehearsal.endDatetime.getTime() - rehearsal.startDatetime.getTime();
+
+  const details: Prisma.RehearsalUpdateInput = {};
+  if (changes.title !== undefined) details.title = changes.title;
+  if (changes.description !== undefined) details.description = changes.description;
+
+  const venue = changes.venueId ? await findVenueForBand(changes.venueId, rehearsal.bandId) : null;
+  const venueId = changes.venueId === undefined ? rehearsal.venueId : (venue?.id ?? null);
+  const location = changes.location ?? (venue ? venue.name : rehearsal.location);
+
+  if (location !== rehearsal.location) details.location = location;
+  if (venueId !== rehearsal.venueId) {
+    details.venue = venueId ? { connect: { id: venueId } } : { disconnect: true };
+  }
+
+  const seriesWide = Boolean(rehearsal.seriesId) && scope !== 'THIS';
+  const targets = await findScopeTargets(rehearsal, scope);
+
+  const moves = targets.map((target) => {
+    const startDatetime = new Date(target.startDatetime.getTime() + shiftMs);
+    return {
+      target,
+      startDatetime,
+      endDatetime: new Date(startDatetime.getTime() + durationMs),
+    };
+  });
+
+  const conflicts =
+    timesChanged || location !== rehearsal.location || venueId !== rehearsal.venueId
+      ? await checkConflicts(
+          rehearsal.bandId,
+          { location, venueId },
+          moves.map((move) => ({ start: move.startDatetime, end: move.endDatetime })),
+          targets.map((target) => target.id),
+          options
+        )
+      : [];
+
+  // Moving in time or to another venue needs the venue to be free then
+  const reservesVenue = Boolean(venueId) && (timesChanged || venueId !== rehearsal.venueId);
+
+  const { rehearsals, notifications } = await prisma.$transaction(async (tx) => {
+    if (reservesVenue) {
+      await reserveVenue(
+        tx,
+        venueId!,
+        rehearsal.bandId,
+        moves.map((move) => ({ start: move.startDatetime, end: move.endDatetime })),
+        targets.map((target) => target.id)
+      );
+    }
+
+    const seriesId =
+      seriesWide && scope === 'FOLLOWING'
+        ? await splitSeries(tx, rehearsal, targets)
+        : rehearsal.seriesId;
+
+    if (timesChanged && seriesWide && shiftMs !== 0) {
+      const from = rehearsal.recurrenceId ?? rehearsal.startDatetime;
+      await shiftSeriesRule(tx, seriesId!, from, new Date(from.getTime() + shiftMs));
+    }
+
+    const updated: Rehearsal[] = [];
+
+    for (const { target, startDatetime, endDatetime } of moves) {
+      updated.push(
+        await tx.rehearsal.update({
+          where: { id: target.id },
+          data: {
+            ...details,
+            sequence: { increment: 1 },
+            // New occurrences of the series don't copy edits to a single one
+            ...(rehearsal.seriesId && !seriesWide && { isException: true }),
+            ...(timesChanged && { startDatetime, endDatetime }),
+            // Occurrences keep their place in the moved series rule
+            ...(timesChanged &&
+              seriesWide &&
+              target.recurrenceId && {
+                recurrenceId: new Date(target.recurrenceId.getTime() + shiftMs),
+              }),
+          },
+        })
+      );
+    }
+
+    // RSVPs were given for the old time; those of former members stay cancelled
+    if (timesChanged) {
+      await tx.rehearsalAttendance.updateMany({
+        where: { rehearsalId: { in: updated.map((item) => item.id) }, memberLeftAt: null },
+        data: {
+          status: 'PENDING',
+          requestedAt: new Date(),
+          respondedAt: null,
+          cancelledAt: null,
+        },
+      });
+    }
+
+    const title = describeOccurrences(updated[0].title, updated.length);
+
+    const notifications = await notifyAttendees(
+      tx,
+      updated,
+      'REHEARSAL_UPDATED',
+      timesChanged
+        ? `Rehearsal rescheduled: ${title}. Please confirm your attendance again`
+        : `Rehearsal updated: ${title}`,
+      options.actorId
+    );
+
+    return { rehearsals: updated, notifications };
+  }, reservesVenue ? SERIALIZABLE : undefined);
+
+  await publishBandUpdate({
+    type: 'rehearsal.updated',
+    data: { bandId: rehearsal.bandId, rehearsals },
+  });
+  await publishNotifications(notifications);
+
+  return { rehearsals, conflicts };
+};
+
+/**
+ * Soft-cancel a rehearsal, or several occurrences of its series. Cancelled
+ * rehearsals are kept for history but no longer block anyone's time.
+ * Cancelling the following occurrences or the whole series also ends the
+ * series rule, so that no new occurrences are created after them.
+ */
+export const cancelRehearsal = async (
+  rehearsal: Rehearsal,
+  reason: string | undefined,
+  scope: EditScope = 'THIS',
+  actorId?: string
+): Promise<Rehearsal[]> => {
+  if (rehearsal.status === 'CANCELLED') {
+    throw badRequest('Rehearsal is already cancelled');
+  }
+
+  const targets = await findScopeTargets(rehearsal, scope);
+
+  const { cancelled, notifications } = await prisma.$transaction(async (tx) => {
+    if (rehearsal.seriesId && scope !== 'THIS') {
+      await endSeries(tx, rehearsal.seriesId, targets[0].recurrenceId ?? targets[0].startDatetime);
+    }
+
+    const cancelled: Rehearsal[] = [];
+
+    for (const target of targets) {
+      cancelled.push(
+        await tx.rehearsal.update({
+          where: { id: target.id },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            cancellationReason: reason,
+            sequence: { increment: 1 },
+          },
+        })
+      );
+    }
+
+    const title = describeOccurrences(rehearsal.title, cancelled.length);
+
+    const notifications = await notifyAttendees(
+      tx,
+      cancelled,
+      'REHEARSAL_CANCELLED',
+      reason ? `Rehearsal cancelled: ${title} (${reason})` : `Rehearsal cancelled: ${title}`,
+      actorId
+    );
+
+    return { cancelled, notifications };
+  });
+
+  await publishBandUpdate({
+    type: 'rehearsal.cancelled',
+    data: { bandId: rehearsal.bandId, rehearsals: cancelled },
+  });
+  await publishNotifications(notifications);
+
+  return cancelled;
+};
+
+/**
+ * Materialise the series' occurrences after its latest one, up to UNTIL or
+ * the horizon, with the details and duration of the latest occurrence that
+ * isn't cancelled. Occurrences edited on their own are only used when
+ * there is no other.
+ */
+const extendSeries = async (series: RehearsalSeries, now: Date, horizon: Date) => {
+  const rule = { ...parseRecurrencePattern(series.rrule), exceptionDates: series.exceptionDates };
+  // Cancelled occurrences still count, so that they aren't created again
+  const last = await prisma.rehearsal.findFirst({
+    where: { seriesId: series.id },
+    orderBy: { recurrenceId: 'desc' },
+  });
+  const latest = await prisma.rehearsal.findFirst({
+    where: { seriesId: series.id, status: { not: 'CANCELLED' } },
+    orderBy: [{ isException: 'asc' }, { recurrenceId: 'desc' }],
+  });
+
+  // Counted series are created in full
+  if (rule.count !== undefined || !last?.recurrenceId || !latest) {
+    return [];
+  }
+
+  const starts = expandRecurrence(rule, last.recurrenceId, series.timezone, {
+    horizon: rule.until && rule.until < horizon ? rule.until : horizon,
+    after: new Date(Math.max(last.recurrenceId.getTime() + 1, now.getTime())),
+  });
+
+  if (starts.length === 0) {
+    return [];
+  }
+
+  const durationMs = latest.endDatetime.getTime() - latest.startDatetime.getTime();
+  const slots = starts.map((start) => ({ start, end: new Date(start.getTime() + durationMs) }));
+  const bandMembers = await prisma.bandMember.findMany({
+    where: {
+      bandId: series.bandId,
+      status: 'ACTIVE',
+    },
+    select: {
+      userId: true,
+    },
+  });
+
+  const rehearsals = await prisma.$transaction(async (tx) => {
+    if (latest.venueId) {
+      await reserveVenue(tx, latest.venueId, series.bandId, slots);
+    }
+
+    const created: Rehearsal[] = [];
+
+    for (const slot of slots) {
+      created.push(
+        await tx.rehearsal.create({
+          data: {
+            bandId: series.bandId,
+            title: latest.title,
+            description: latest.description,
+            location: latest.location,
+            venueId: latest.venueId,
+            startDatetime: slot.start,
+            endDatetime: slot.end,
+            isRecurring: true,
+            recurrencePattern: series.rrule,
+            seriesId: series.id,
+            recurrenceId: slot.start,
+            createdById: latest.createdById,
+            attendances: {
+              createMany: {
+                data: bandMembers.map((member) => ({
+                  userId: member.userId,
+                  status: 'PENDING',
+                })),
+              },
+            },
+          },
+        })
+      );
+    }
+
+    return created;
+  }, SERIALIZABLE);
+
+  await publishBandUpdate({
+    type: 'rehearsal.created',
+    data: { bandId: series.bandId, rehearsals },
+  });
+
+  return rehearsals;
+};
+
+/**
+ * Keep series without a COUNT materialised OPEN_SERIES_HORIZON_DAYS ahead,
+ * as a background job. Covers open-ended series and those whose UNTIL lies
+ * beyond the occurrences created so far, for series that still have
+ * upcoming rehearsals. Members already heard about the series, so nobody
+ * is notified. A series whose venue isn't free is logged and retried on
+ * the next run. Returns the number of rehearsals created.
+ */
+export const extendRecurringSeries = async (now = new Date()): Promise<number> => {
+  const horizon = new Date(now.getTime() + OPEN_SERIES_HORIZON_DAYS * DAY_MS);
+  const due = await prisma.rehearsalSeries.findMany({
+    where: {
+      NOT: { rrule: { contains: 'COUNT=' } },
+      AND: [
+        { rehearsals: { some: { recurrenceId: { gte: now }, status: { not: 'CANCELLED' } } } },
+        { rehearsals: { none: { recurrenceId: { gte: horizon } } } },
+      ],
+    },
+  });
+
+  let extended = 0;
+
+  for (const series of due) {
+    try {
+      extended += (await extendSeries(series, now, horizon)).length;
+    } catch (error) {
+      logger.warn(`Series ${series.id} could not be extended: ${(error as Error).message}`);
+    }
+  }
+
+  return extended;
+};
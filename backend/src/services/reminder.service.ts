@@ -0,0 +1,283 @@
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { scheduleJob } from '../utils/scheduler';
+import { MINUTE_MS, parseDuration } from '../utils/time';
+import { createNotifications, publishNotifications } from './notification.service';
+
+const prisma = new PrismaClient();
+
+export interface ReminderSchedule {
+  // Minutes before the start, smallest first
+  reminderOffsets: number[];
+  nudgeOffsets: number[];
+  digestOffset: number;
+  // Leaders are told when fewer than this share of active members attend
+  lowAttendanceThreshold: number;
+}
+
+const parseOffsets = (value: string): number[] =>
+  value
+    .split(',')
+    .map((offset) => parseDuration(offset) / MINUTE_MS)
+    .sort((a, b) => a - b);
+
+/**
+ * Reminder timing from the environment: REHEARSAL_REMINDER_OFFSETS
+ * (default "24h,2h"), RSVP_NUDGE_OFFSETS (default "48h"),
+ * LOW_ATTENDANCE_DIGEST_OFFSET (default "48h") and LOW_ATTENDANCE_THRESHOLD
+ * (default 0.5). Throws on malformed values.
+ */
+export const getReminderSchedule = (): ReminderSchedule => {
+  const env = process.env;
+  const threshold = Number(env.LOW_ATTENDANCE_THRESHOLD ?? 0.5);
+
+  if (Number.isNaN(threshold) || threshold < 0 || threshold > 1) {
+    throw new Error(`Invalid LOW_ATTENDANCE_THRESHOLD: ${env.LOW_ATTENDANCE_THRESHOLD}`);
+  }
+
+  return {
+    reminderOffsets: parseOffsets(env.REHEARSAL_REMINDER_OFFSETS || '24h,2h'),
+    nudgeOffsets: parseOffsets(env.RSVP_NUDGE_OFFSETS || '48h'),
+    digestOffset: parseDuration(env.LOW_ATTENDANCE_DIGEST_OFFSET || '48h') / MINUTE_MS,
+    lowAttendanceThreshold: threshold,
+  };
+};
+
+/**
+ * The offset a rehearsal is currently due for: the smallest one not yet
+ * passed. Only that one is sent, so a rehearsal created 3 hours ahead, or
+ * a server that was down for a day, doesn't produce a burst of stale
+ * reminders.
+ */
+const dueOffset = (offsets: number[], minutesUntilStart: number) =>
+  offsets.find((offset) => offset >= minutesUntilStart);
+
+// Rounded, e.g. "45 minutes", "20 hours", "3 days"
+const describeTimeUntil = (minutes: number) => {
+  const [amount, unit] =
+    minutes >= 48 * 60
+      ? [Math.round(minutes / (24 * 60)), 'day']
+      : minutes >= 60
+        ? [Math.round(minutes / 60), 'hour']
+        : [Math.max(1, Math.round(minutes)), 'minute'];
+
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
+
+interface PlannedReminder {
+  rehearsalId: string;
+  userId: string;
+  kind: string;
+  offsetMinutes: number;
+  startDatetime: Date;
+}
+
+const reminderKey = (reminder: PlannedReminder) =>
+  [
+    reminder.rehearsalId,
+    reminder.userId,
+    reminder.kind,
+    reminder.offsetMinutes,
+    reminder.startDatetime.getTime(),
+  ].join('|');
+
+/**
+ * Send every reminder that is due: a reminder to members who are coming
+ * (or maybe), an RSVP nudge to members who haven't answered, and a digest
+ * of poorly attended rehearsals to band leaders. Each reminder is recorded
+ * together with its notification in one transaction, so running this
+ * again, or on several servers at once, never sends duplicates.
+ */
+export const sendDueReminders = async (
+  schedule: ReminderSchedule,
+  now = new Date()
+): Promise<number> => {
+  const horizon = Math.max(
+    ...schedule.reminderOffsets,
+    ...schedule.nudgeOffsets,
+    schedule.digestOffset
+  );
+
+  const rehearsals = await prisma.rehearsal.findMany({
+    where: {
+      status: 'SCHEDULED',
+      startDatetime: {
+        gt: now,
+        lte: new Date(now.getTime() + horizon * MINUTE_MS),
+      },
+    },
+    select: {
+      id: true,
+      bandId: true,
+      title: true,
+      location: true,
+      startDatetime: true,
+      attendances: {
+        select: {
+          userId: true,
+          status: true,
+        },
+      },
+      band: {
+        select: {
+          name: true,
+          members: {
+            where: { status: 'ACTIVE' },
+            select: {
+              userId: true,
+              role: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const planned: PlannedReminder[] = [];
+  const notifications = new Map<string, { type: string; content: string; relatedId: string }>();
+  const lowAttendance: { rehearsal: (typeof rehearsals)[number]; attending: number; total: number }[] =
+    [];
+
+  for (const rehearsal of rehearsals) {
+    const minutesUntilStart = (rehearsal.startDatetime.getTime() - now.getTime()) / MINUTE_MS;
+    const statuses = new Map(
+      rehearsal.attendances.map((attendance) => [attendance.userId, attendance.status])
+    );
+    const members = rehearsal.band.members;
+    const startsIn = describeTimeUntil(minutesUntilStart);
+    const where = rehearsal.location ? ` at ${rehearsal.location}` : '';
+
+    const plan = (userId: string, kind: string, offsetMinutes: number, type: string, content: string) => {
+      const reminder = {
+        rehearsalId: rehearsal.id,
+        userId,
+        kind,
+        offsetMinutes,
+        startDatetime: rehearsal.startDatetime,
+      };
+      planned.push(reminder);
+      notifications.set(reminderKey(reminder), { type, content, relatedId: rehearsal.id });
+    };
+
+    const reminderOffset = dueOffset(schedule.reminderOffsets, minutesUntilStart);
+    if (reminderOffset !== undefined) {
+      for (const member of members) {
+        const status = statuses.get(member.userId);
+        if (status === 'ATTENDING' || status === 'MAYBE') {
+          plan(
+            member.userId,
+            'REMINDER',
+            reminderOffset,
+            'REHEARSAL_REMINDER',
+            `Reminder: ${rehearsal.title} starts in ${startsIn}${where}`
+          );
+        }
+      }
+    }
+
+    const nudgeOffset = dueOffset(schedule.nudgeOffsets, minutesUntilStart);
+    if (nudgeOffset !== undefined) {
+      for (const member of members) {
+        // Members who joined after the rehearsal was created have no row yet
+        const status = statuses.get(member.userId) ?? 'PENDING';
+        if (status === 'PENDING') {
+          plan(
+            member.userId,
+            'RSVP_NUDGE',
+            nudgeOffset,
+            'RSVP_REMINDER',
+            `Are you coming to ${rehearsal.title}? It starts in ${startsIn} and you haven't responded yet`
+          );
+        }
+      }
+    }
+
+    if (minutesUntilStart <= schedule.digestOffset && members.length > 0) {
+      const attending = members.filter(
+        (member) => statuses.get(member.userId) === 'ATTENDING'
+      ).length;
+
+      if (attending / members.length < schedule.lowAttendanceThreshold) {
+        lowAttendance.push({ rehearsal, attending, total: members.length });
+        for (const member of members.filter((member) => member.role === 'LEADER')) {
+          planned.push({
+            rehearsalId: rehearsal.id,
+            userId: member.userId,
+            kind: 'LOW_ATTENDANCE',
+            offsetMinutes: schedule.digestOffset,
+            startDatetime: rehearsal.startDatetime,
+          });
+        }
+      }
+    }
+  }
+
+  if (planned.length === 0) {
+    return 0;
+  }
+
+  const sent = await prisma.$transaction(async (tx) => {
+    // Only reminders not recorded before come back, so they are the ones to send
+    const inserted = await tx.rehearsalReminder.createManyAndReturn({
+      data: planned,
+      skipDuplicates: true,
+    });
+
+    const digests = new Map<string, { userId: string; bandId: string; entries: typeof lowAttendance }>();
+    const created: { userId: string; type: string; content: string; relatedId: string }[] = [];
+
+    for (const reminder of inserted) {
+      if (reminder.kind !== 'LOW_ATTENDANCE') {
+        created.push({ userId: reminder.userId, ...notifications.get(reminderKey(reminder))! });
+        continue;
+      }
+
+      // Leaders get one digest per band listing all newly low rehearsals
+      const entry = lowAttendance.find((item) => item.rehearsal.id === reminder.rehearsalId)!;
+      const digestKey = `${reminder.userId}|${entry.rehearsal.bandId}`;
+      const digest = digests.get(digestKey) || {
+        userId: reminder.userId,
+        bandId: entry.rehearsal.bandId,
+        entries: [],
+      };
+      digest.entries.push(entry);
+      digests.set(digestKey, digest);
+    }
+
+    for (const digest of digests.values()) {
+      const [first] = digest.entries;
+      const summary = digest.entries
+        .map(({ rehearsal, attending, total }) => `${rehearsal.title} (${attending}/${total} attending)`)
+        .join(', ');
+
+      created.push({
+        userId: digest.userId,
+        type: 'LOW_ATTENDANCE',
+        content: `Low attendance in ${first.rehearsal.band.name}: ${summary}`,
+        relatedId: digest.entries.length === 1 ? first.rehearsal.id : digest.bandId,
+      });
+    }
+
+    return createNotifications(tx, created);
+  });
+
+  await publishNotifications(sent);
+
+  return sent.length;
+};
+
+/**
+ * Check for due reminders every intervalMs. Sent reminders are stored in
+ * the database, so restarts neither lose nor repeat them.
+ */
+export const startReminderWorker = (intervalMs = 60000): (() => void) => {
+  const schedule = getReminderSchedule();
+
+  return scheduleJob('rehearsal reminders', intervalMs, async () => {
+    const sent = await sendDueReminders(schedule);
+
+    if (sent > 0) {
+      logger.info(`Sent ${sent} rehearsal reminder(s)`);
+    }
+  });
+};
@@ -0,0 +1,296 @@
+import { PrismaClient } from '@prisma/client';
+import { badRequest } from '../utils/errors';
+import {
+  Interval,
+  MemberAvailability,
+  UnavailableReason,
+  getAvailabilityState,
+  loadBandAvailability,
+} from './availability.service';
+import { DAY_MS, MINUTE_MS, getZonedDayAndMinutes, overlaps } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+// How far back attendance history is considered when weighting slots
+const HISTORY_WINDOW_DAYS = 180;
+// Weight given to a member who has not declared any availability
+const UNKNOWN_AVAILABILITY_WEIGHT = 0.6;
+// Pseudo-count pulling sparse weekday history towards the member's overall rate
+const HISTORY_PRIOR_WEIGHT = 2;
+// Hours searched when no member has declared availability yet
+const DEFAULT_DAY_START = 9 * 60;
+const DEFAULT_DAY_END = 23 * 60;
+
+export interface SuggestTimesOptions {
+  bandId: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+  durationMinutes: number;
+  requiredMemberIds?: string[];
+  stepMinutes?: number;
+  limit?: number;
+}
+
+export interface SuggestedMember {
+  id: string;
+  name: string;
+}
+
+export interface MissingMember extends SuggestedMember {
+  reason: UnavailableReason;
+}
+
+export interface SuggestedTime {
+  startDatetime: Date;
+  endDatetime: Date;
+  confidence: number;
+  availableMembers: SuggestedMember[];
+  missingMembers: MissingMember[];
+  message: string;
+}
+
+interface MemberProfile extends MemberAvailability {
+  weekdayRates: number[];
+}
+
+/**
+ * Attach per-weekday attendance rates to each member, read on the member's
+ * own wall clock. MAYBE counts as half an attendance, and sparse weekdays
+ * are pulled towards the member's overall rate.
+ */
+const withAttendanceHistory = async (
+  members: MemberAvailability[]
+): Promise<MemberProfile[]> => {
+  const history = await prisma.rehearsalAttendance.findMany({
+    where: {
+      userId: { in: members.map((member) => member.id) },
+      status: { not: 'PENDING' },
+      rehearsal: {
+        status: { not: 'CANCELLED' },
+        startDatetime: { gte: new Date(Date.now() - HISTORY_WINDOW_DAYS * DAY_MS) },
+        endDatetime: { lt: new Date() },
+      },
+    },
+    select: {
+      userId: true,
+      status: true,
+      rehearsal: {
+        select: {
+          startDatetime: true,
+        },
+      },
+    },
+  });
+
+  return members.map((member) => {
+    const attended = new Array(7).fill(0);
+    const total = new Array(7).fill(0);
+
+    history
+      .filter((record) => record.userId === member.id)
+      .forEach((record) => {
+        const { dayOfWeek } = getZonedDayAndMinutes(
+          record.rehearsal.startDatetime,
+          member.timezone
+        );
+        total[dayOfWeek] += 1;
+        if (record.status === 'ATTENDING') attended[dayOfWeek] += 1;
+        if (record.status === 'MAYBE') attended[dayOfWeek] += 0.5;
+      });
+
+    const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+    const overallRate = (sum(attended) + 1) / (sum(total) + 2);
+    const weekdayRates = attended.map(
+      (count, day) =>
+        (count + overallRate * HISTORY_PRIOR_WEIGHT) / (total[day] + HISTORY_PRIOR_WEIGHT)
+    );
+
+    return { ...member, weekdayRates };
+  });
+};
+
+/**
+ * The timezone most members live in, used to keep fallback suggestions
+ * within sociable hours.
+ */
+const predominantTimeZone = (members: MemberAvailability[]): string => {
+  const counts = new Map<string, number>();
+
+  members.forEach((member) => {
+    counts.set(member.timezone, (counts.get(member.timezone) || 0) + 1);
+  });
+
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 'UTC';
+};
+
+/**
+ * Probability-like score (0..1) that the member can make the slot,
+ * or the reason they cannot.
+ */
+const scoreMember = (
+  member: MemberProfile,
+  slot: Interval
+): { score: number } | { reason: UnavailableReason } => {
+  const state = getAvailabilityState(member, slot);
+
+  if (state !== 'AVAILABLE' && state !== 'UNKNOWN') {
+    return { reason: state };
+  }
+
+  const availability = state === 'AVAILABLE' ? 1 : UNKNOWN_AVAILABILITY_WEIGHT;
+  const { dayOfWeek } = getZonedDayAndMinutes(slot.start, member.timezone);
+
+  return { score: availability * member.weekdayRates[dayOfWeek] };
+};
+
+const describeSlot = (missing: MissingMember[], memberCount: number): string => {
+  if (missing.length === 0) {
+    return 'All members are available';
+  }
+
+  if (missing.length === memberCount - 1) {
+    return 'Only one member is available';
+  }
+
+  return `${missing.length} of ${memberCount} members are unavailable`;
+};
+
+const candidateStarts = (
+  rangeStart: Date,
+  rangeEnd: Date,
+  durationMinutes: number,
+  stepMinutes: number,
+  defaultHoursTimeZone: string | null
+): Date[] => {
+  const stepMs = stepMinutes * MINUTE_MS;
+  const durationMs = durationMinutes * MINUTE_MS;
+  const starts: Date[] = [];
+
+  let cursor = Math.ceil(rangeStart.getTime() / stepMs) * stepMs;
+
+  for (; cursor + durationMs <= rangeEnd.getTime(); cursor += stepMs) {
+    const start = new Date(cursor);
+
+    if (defaultHoursTimeZone) {
+      const { minutes } = getZonedDayAndMinutes(start, defaultHoursTimeZone);
+      if (minutes < DEFAULT_DAY_START || minutes + durationMinutes > DEFAULT_DAY_END) {
+        continue;
+      }
+    }
+
+    starts.push(start);
+  }
+
+  return starts;
+};
+
+/**
+ * Rank candidate rehearsal slots for a band.
+ *
+ * Each member is scored per slot from their declared weekly availability and
+ * blackout dates, their existing rehearsal commitments in all of their bands
+ * and their attendance history on that weekday. The slot confidence is the mean member
+ * score. Slots missing a required member are dropped, and the returned slots
+ * never overlap each other. Required members must be active band members.
+ */
+export const suggestRehearsalTimes = async (
+  options: SuggestTimesOptions
+): Promise<SuggestedTime[]> => {
+  const {
+    bandId,
+    rangeStart,
+    rangeEnd,
+    durationMinutes,
+    requiredMemberIds = [],
+    stepMinutes = 30,
+    limit = 5,
+  } = options;
+
+  const members = await withAttendanceHistory(
+    await loadBandAvailability(bandId, rangeStart, rangeEnd)
+  );
+  const unknownIds = [...new Set(requiredMemberIds)].filter(
+    (userId) => !members.some((member) => member.id === userId)
+  );
+
+  if (unknownIds.length > 0) {
+    throw badRequest(
+      'Required members must be active members of the band',
+      unknownIds.map((userId) => ({
+        path: 'requiredMembers',
+        value: userId,
+        msg: 'Not an active member',
+      }))
+    );
+  }
+
+  if (members.length === 0) {
+    return [];
+  }
+
+  const starts = candidateStarts(
+    rangeStart,
+    rangeEnd,
+    durationMinutes,
+    stepMinutes,
+    members.some((member) => member.windows.length > 0) ? null : predominantTimeZone(members)
+  );
+
+  const candidates: SuggestedTime[] = [];
+
+  for (const start of starts) {
+    const slot = { start, end: new Date(start.getTime() + durationMinutes * MINUTE_MS) };
+    const availableMembers: SuggestedMember[] = [];
+    const missingMembers: MissingMember[] = [];
+    let totalScore = 0;
+
+    for (const member of members) {
+      const result = scoreMember(member, slot);
+
+      if ('reason' in result) {
+        missingMembers.push({ id: member.id, name: member.name, reason: result.reason });
+      } else {
+        availableMembers.push({ id: member.id, name: member.name });
+        totalScore += result.score;
+      }
+    }
+
+    if (availableMembers.length === 0) continue;
+    if (missingMembers.some((member) => requiredMemberIds.includes(member.id))) continue;
+
+    candidates.push({
+      startDatetime: slot.start,
+      endDatetime: slot.end,
+      confidence: Math.round((totalScore / members.length) * 100) / 100,
+      availableMembers,
+      missingMembers,
+      message: describeSlot(missingMembers, members.length),
+    });
+  }
+
+  candidates.sort(
+    (a, b) =>
+      b.confidence - a.confidence || a.startDatetime.getTime() - b.startDatetime.getTime()
+  );
+
+  const selected: SuggestedTime[] = [];
+
+  for (const candidate of candidates) {
+    if (selected.length >= limit) break;
+
+    const clashes = selected.some((picked) =>
+      overlaps(
+        picked.startDatetime,
+        picked.endDatetime,
+        candidate.startDatetime,
+        candidate.endDatetime
+      )
+    );
+
+    if (!clashes) {
+      selected.push(candidate);
+    }
+  }
+
+  return selected;
+};
@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { unauthorized } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { DAY_MS, parseDuration } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+// Access tokens can't be revoked until they expire, so keep them short
+const accessTokenTtlSeconds = () => parseDuration(process.env.ACCESS_TOKEN_TTL || '15m') / 1000;
+
+const refreshTokenTtlMs = () => parseDuration(process.env.REFRESH_TOKEN_TTL || '30d');
+
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // Seconds until the access token expires
+}
+
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const signAccessToken = (userId: string, sessionId: string) =>
+  jwt.sign({ id: userId, sid: sessionId }, process.env.JWT_SECRET || 'default_secret', {
+    expiresIn: accessTokenTtlSeconds(),
+  });
+
+const issueRefreshToken = async (tx: Prisma.TransactionClient, sessionId: string) => {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  const expiresAt = new Date(Date.now() + refreshTokenTtlMs());
+
+  await tx.refreshToken.create({
+    data: {
+      sessionId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt,
+    },
+  });
+  await tx.session.update({
+    where: { id: sessionId },
+    data: { expiresAt, lastUsedAt: new Date() },
+  });
+
+  return refreshToken;
+};
+
+/**
+ * Start a session for a user who just registered or logged in.
+ */
+export const createSession = async (
+  userId: string,
+  client: ClientInfo
+): Promise<SessionTokens> =>
+  prisma.$transaction(async (tx) => {
+    const session = await tx.session.create({
+      data: {
+        userId,
+        userAgent: client.userAgent?.slice(0, 500),
+        ipAddress: client.ipAddress,
+        expiresAt: new Date(Date.now() + refreshTokenTtlMs()),
+      },
+    });
+
+    return {
+      token: signAccessToken(userId, session.id),
+      refreshToken: await issueRefreshToken(tx, session.id),
+      expiresIn: accessTokenTtlSeconds(),
+    };
+  });
+
+/**
+ * Exchange a refresh token for a new access/refresh token pair. Each
+ * refresh token works once; if a used one shows up again it has been
+ * copied, so the whole session is revoked and the user must log in again.
+ */
+export const refreshSession = async (
+  refreshToken: string,
+  client: ClientInfo
+): Promise<SessionTokens> => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { session: true },
+  });
+
+  if (!stored || stored.session.revokedAt) {
+    throw unauthorized('Invalid refresh token');
+  }
+
+  if (stored.expiresAt <= new Date()) {
+    throw unauthorized('Refresh token expired');
+  }
+
+  const tokens = await prisma.$transaction(async (tx) => {
+    // Claiming the token atomically also catches two refreshes racing
+    const { count } = await tx.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      await tx.session.update({
+        where: { id: stored.sessionId },
+        data: { revokedAt: new Date(), revokedReason: 'TOKEN_REUSE' },
+      });
+      logger.warn(`Refresh token reused for session ${stored.sessionId}; session revoked`);
+      // Throwing would roll back the revocation
+      return null;
+    }
+
+    await tx.session.update({
+      where: { id: stored.sessionId },
+      data: {
+        userAgent: client.userAgent?.slice(0, 500) ?? stored.session.userAgent,
+        ipAddress: client.ipAddress ?? stored.session.ipAddress,
+      },
+    });
+
+    return {
+      token: signAccessToken(stored.session.userId, stored.sessionId),
+      refreshToken: await issueRefreshToken(tx, stored.sessionId),
+      expiresIn: accessTokenTtlSeconds(),
+    };
+  });
+
+  if (!tokens) {
+    throw unauthorized('Refresh token has already been used; please log in again');
+  }
+
+  return tokens;
+};
+
+/**
+ * Revoke one of the user's sessions. Returns false if it doesn't exist or
+ * was already revoked.
+ */
+export const revokeSession = async (
+  sessionId: string,
+  userId: string,
+  reason = 'REVOKED'
+): Promise<boolean> => {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return count > 0;
+};
+
+/**
+ * Revoke all of the user's sessions, optionally keeping the current one.
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  reason = 'LOGOUT_ALL',
+  exceptSessionId?: string
+): Promise<number> => {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return count;
+};
+
+/**
+ * The user's sessions that can still be refreshed, most recently used first.
+ */
+export const listActiveSessions = (userId: string) =>
+  prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: {
+      lastUsedAt: 'desc',
+    },
+  });
+
+// Old sessions are kept a while so reuse of their tokens is still recognised
+const SESSION_RETENTION_MS = 30 * DAY_MS;
+
+/**
+ * Delete sessions that expired or were revoked long ago.
+ */
+export const purgeOldSessions = async (now = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - SESSION_RETENTION_MS);
+  const { count } = await prisma.session.deleteMany({
+    where: {
+      OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }],
+    },
+  });
+
+  return count;
+};
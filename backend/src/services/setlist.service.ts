@@ -0,0 +1,214 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { badRequest, notFound } from '../utils/errors';
+
+const prisma = new PrismaClient();
+
+export interface SetlistItemInput {
+  songId: string;
+  notes?: string | null;
+}
+
+export const setlistInclude = {
+  items: {
+    orderBy: {
+      position: 'asc' as const,
+    },
+    include: {
+      song: true,
+    },
+  },
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+};
+
+type SetlistWithItems = Prisma.SetlistGetPayload<{ include: typeof setlistInclude }>;
+
+/**
+ * Add the running time of a setlist. Songs without a duration are counted
+ * separately so callers can flag the total as incomplete.
+ */
+export const withRunningTime = (setlist: SetlistWithItems) => ({
+  ...setlist,
+  totalDurationSeconds: setlist.items.reduce(
+    (total, item) => total + (item.song.durationSeconds || 0),
+    0
+  ),
+  songsWithoutDuration: setlist.items.filter((item) => !item.song.durationSeconds).length,
+});
+
+/**
+ * Load a setlist with its songs. Access is checked by the caller, usually
+ * with requireBandPermission(bandOfSetlist()).
+ */
+export const findSetlist = async (setlistId: string): Promise<SetlistWithItems> => {
+  const setlist = await prisma.setlist.findUnique({
+    where: { id: setlistId },
+    include: setlistInclude,
+  });
+
+  if (!setlist) {
+    throw notFound('Setlist not found');
+  }
+
+  return setlist;
+};
+
+/**
+ * Replace the items of a setlist with the given songs, in order. Every song
+ * must belong to the setlist's band; a song may appear more than once.
+ */
+const replaceItems = async (
+  tx: Prisma.TransactionClient,
+  setlist: { id: string; bandId: string },
+  items: SetlistItemInput[]
+) => {
+  const songIds = [...new Set(items.map((item) => item.songId))];
+  const songs = await tx.song.findMany({
+    where: {
+      id: { in: songIds },
+      bandId: setlist.bandId,
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  if (songs.length !== songIds.length) {
+    const known = new Set(songs.map((song) => song.id));
+    throw badRequest(
+      'Setlists can only contain songs from the band library',
+      songIds
+        .filter((songId) => !known.has(songId))
+        .map((songId) => ({ path: 'items', value: songId, msg: 'Song not found in this band' }))
+    );
+  }
+
+  await tx.setlistItem.deleteMany({ where: { setlistId: setlist.id } });
+  await tx.setlistItem.createMany({
+    data: items.map((item, index) => ({
+      setlistId: setlist.id,
+      songId: item.songId,
+      position: index + 1,
+      notes: item.notes || null,
+    })),
+  });
+};
+
+export const createSetlist = async (input: {
+  bandId: string;
+  createdById: string;
+  name: string;
+  description?: string;
+  items?: SetlistItemInput[];
+}) =>
+  prisma.$transaction(async (tx) => {
+    const setlist = await tx.setlist.create({
+      data: {
+        bandId: input.bandId,
+        createdById: input.createdById,
+        name: input.name,
+        description: input.description,
+      },
+    });
+
+    await replaceItems(tx, setlist, input.items || []);
+
+    return tx.setlist.findUniqueOrThrow({
+      where: { id: setlist.id },
+      include: setlistInclude,
+    });
+  });
+
+/**
+ * Update name/description and, when `items` is given, replace the song
+ * order. Reordering is done by sending the full list in its new order.
+ */
+export const updateSetlist = async (
+  setlist: { id: string; bandId: string },
+  changes: { name?: string; description?: string | null; items?: SetlistItemInput[] }
+) =>
+  prisma.$transaction(async (tx) => {
+    await tx.setlist.update({
+      where: { id: setlist.id },
+      data: {
+        name: changes.name,
+        description: changes.description,
+      },
+    });
+
+    if (changes.items) {
+      await replaceItems(tx, setlist, changes.items);
+    }
+
+    return tx.setlist.findUniqueOrThrow({
+      where: { id: setlist.id },
+      include: setlistInclude,
+    });
+  });
+
+/**
+ * Copy a setlist, e.g. to tweak last week's set for the next rehearsal.
+ */
+export const duplicateSetlist = async (
+  setlist: SetlistWithItems,
+  createdById: string,
+  name?: string
+) =>
+  createSetlist({
+    bandId: setlist.bandId,
+    createdById,
+    name: name || `${setlist.name} (copy)`,
+    description: setlist.description || undefined,
+    items: setlist.items.map((item) => ({ songId: item.songId, notes: item.notes })),
+  });
+
+/**
+ * Lay a setlist out over a rehearsal: planned start/end of each song from
+ * the rehearsal start, and how the running time compares to the rehearsal
+ * window. Songs without a duration get no planned end and do not move the
+ * songs after them.
+ */
+export const planSetlistForRehearsal = (
+  setlist: SetlistWithItems,
+  rehearsal: { startDatetime: Date; endDatetime: Date }
+) => {
+  const withTotals = withRunningTime(setlist);
+  const windowSeconds = Math.round(
+    (rehearsal.endDatetime.getTime() - rehearsal.startDatetime.getTime()) / 1000
+  );
+  let offsetSeconds = 0;
+
+  const items = setlist.items.map((item) => {
+    const duration = item.song.durationSeconds;
+    const plannedStart = new Date(rehearsal.startDatetime.getTime() + offsetSeconds * 1000);
+
+    if (duration) {
+      offsetSeconds += duration;
+    }
+
+    return {
+      ...item,
+      plannedStart,
+      plannedEnd: duration
+        ? new Date(rehearsal.startDatetime.getTime() + offsetSeconds * 1000)
+        : null,
+      exceedsWindow: offsetSeconds > windowSeconds,
+    };
+  });
+
+  return {
+    ...withTotals,
+    items,
+    timing: {
+      rehearsalDurationSeconds: windowSeconds,
+      totalDurationSeconds: withTotals.totalDurationSeconds,
+      remainingSeconds: windowSeconds - withTotals.totalDurationSeconds,
+      fitsRehearsal: withTotals.totalDurationSeconds <= windowSeconds,
+      complete: withTotals.songsWithoutDuration === 0,
+    },
+  };
+};
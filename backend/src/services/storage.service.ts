@@ -0,0 +1,196 @@
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { logger } from '../utils/logger';
+
+export interface StoredObject {
+  body: Readable;
+  size?: number;
+}
+
+/**
+ * Where uploaded files live. Keys are opaque, slash-separated paths such as
+ * "materials/<rehearsalId>/<uuid>.pdf".
+ */
+export interface StorageDriver {
+  name: string;
+  // Move a file from local disk (e.g. a multer temp file) into storage
+  putFile(key: string, filePath: string, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
+
+const isMissing = (error: unknown) =>
+  (error as { code?: string }).code === 'ENOENT' ||
+  (error as { name?: string }).name === 'NoSuchKey';
+
+export const createLocalStorage = (rootDir: string): StorageDriver => {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string): string => {
+    const resolved = path.resolve(root, key);
+
+    if (!resolved.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return resolved;
+  };
+
+  return {
+    name: 'local',
+
+    async putFile(key, filePath) {
+      const target = resolveKey(key);
+      await fsPromises.mkdir(path.dirname(target), { recursive: true });
+
+      try {
+        await fsPromises.rename(filePath, target);
+      } catch (error) {
+        // Temp dir and storage dir can be on different devices
+        if ((error as { code?: string }).code !== 'EXDEV') throw error;
+        await fsPromises.copyFile(filePath, target);
+        await fsPromises.unlink(filePath);
+      }
+    },
+
+    async get(key) {
+      const target = resolveKey(key);
+
+      try {
+        const stats = await fsPromises.stat(target);
+        return { body: fs.createReadStream(target), size: stats.size };
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      try {
+        await fsPromises.unlink(resolveKey(key));
+      } catch (error) {
+        if (!isMissing(error)) throw error;
+      }
+    },
+  };
+};
+
+/**
+ * Driver for AWS S3 and S3-compatible services (MinIO, Cloudflare R2, ...).
+ */
+export const createS3Storage = (options: {
+  bucket: string;
+  region?: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}): StorageDriver => {
+  const client = new S3Client({
+    region: options.region || 'us-east-1',
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    // Fall back to the default AWS credential chain (env, instance role, ...)
+    credentials:
+      options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+  });
+
+  return {
+    name: 's3',
+
+    async putFile(key, filePath, contentType) {
+      const stats = await fsPromises.stat(filePath);
+
+      try {
+        await client.send(
+          new PutObjectCommand({
+            Bucket: options.bucket,
+            Key: key,
+            Body: fs.createReadStream(filePath),
+            ContentLength: stats.size,
+            ContentType: contentType,
+          })
+        );
+      } finally {
+        await fsPromises.unlink(filePath).catch(() => undefined);
+      }
+    },
+
+    async get(key) {
+      try {
+        const object = await client.send(
+          new GetObjectCommand({ Bucket: options.bucket, Key: key })
+        );
+
+        return { body: object.Body as Readable, size: object.ContentLength };
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    },
+  };
+};
+
+let storage: StorageDriver | undefined;
+
+/**
+ * The configured storage driver: STORAGE_DRIVER=s3 uses S3_BUCKET,
+ * S3_REGION, S3_ENDPOINT, S3_FORCE_PATH_STYLE, S3_ACCESS_KEY_ID and
+ * S3_SECRET_ACCESS_KEY; anything else stores files under STORAGE_LOCAL_DIR
+ * (default ./uploads).
+ */
+export const getStorage = (): StorageDriver => {
+  if (!storage) {
+    if (process.env.STORAGE_DRIVER === 's3') {
+      if (!process.env.S3_BUCKET) {
+        throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is s3');
+      }
+
+      storage = createS3Storage({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+    } else {
+      storage = createLocalStorage(process.env.STORAGE_LOCAL_DIR || 'uploads');
+    }
+  }
+
+  return storage;
+};
+
+/**
+ * Delete stored files whose records are already gone. Failures only leave
+ * orphaned files behind, so they are logged instead of thrown.
+ */
+export const deleteStoredFiles = async (keys: string[]): Promise<void> => {
+  for (const key of keys) {
+    await getStorage()
+      .delete(key)
+      .catch((error) => logger.error(`Failed to delete stored file ${key}: ${error.message}`));
+  }
+};
+
+/**
+ * Replace the driver, e.g. with an in-memory one in tests.
+ */
+export const setStorage = (driver: StorageDriver): void => {
+  storage = driver;
+};
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import { Notification, PrismaClient } from '@prisma/client';
+import { badRequest } from '../utils/errors';
+import { deleteBandRecords } from './band.service';
+import { SERIALIZABLE, handOverLeadership } from './membership.service';
+import { publishNotifications } from './notification.service';
+import { deleteStoredFiles, getStorage } from './storage.service';
+
+const prisma = new PrismaClient();
+
+export const CONTACT_METHODS = ['EMAIL', 'PHONE', 'SMS'];
+
+export const PROFILE_IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+
+// Allowed image types and the extension they are stored with
+const PROFILE_IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+};
+
+export const profileSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  profileImageUrl: true,
+  timezone: true,
+  instruments: true,
+  phoneNumber: true,
+  preferredContactMethod: true,
+  emailVerifiedAt: true,
+  lastLoginAt: true,
+  createdAt: true,
+};
+
+export const profileImageUrlFor = (userId: string, version: string) =>
+  `/api/users/${userId}/profile-image?v=${version}`;
+
+/**
+ * Store an uploaded profile image and replace the previous one.
+ */
+export const setProfileImage = async (userId: string, file: Express.Multer.File) => {
+  const extension = PROFILE_IMAGE_TYPES[file.mimetype.toLowerCase()];
+
+  if (!extension) {
+    throw badRequest(
+      `Profile images must be one of ${Object.keys(PROFILE_IMAGE_TYPES).join(', ')}`
+    );
+  }
+
+  const version = crypto.randomUUID();
+  const storageKey = `profile-images/${userId}/${version}${extension}`;
+
+  await getStorage().putFile(storageKey, file.path, file.mimetype);
+
+  const previous = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { profileImageKey: true },
+  });
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      profileImageKey: storageKey,
+      // The version changes the URL so clients don't show a cached old image
+      profileImageUrl: profileImageUrlFor(userId, version.slice(0, 8)),
+    },
+    select: profileSelect,
+  });
+
+  if (previous.profileImageKey) {
+    await deleteStoredFiles([previous.profileImageKey]);
+  }
+
+  return user;
+};
+
+export const removeProfileImage = async (userId: string) => {
+  const previous = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { profileImageKey: true },
+  });
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { profileImageKey: null, profileImageUrl: null },
+    select: profileSelect,
+  });
+
+  if (previous.profileImageKey) {
+    await deleteStoredFiles([previous.profileImageKey]);
+  }
+
+  return user;
+};
+
+/**
+ * Delete a user's account. Bands they lead alone get a new leader first
+ * (the longest-standing active member); bands with no other active member
+ * are deleted along with their files. Rehearsals they created are handed
+ * to another member of the band, since rehearsals need a creator.
+ */
+export const deleteAccount = async (userId: string) => {
+  const result = await prisma.$transaction(async (tx) => {
+    const transferredBands: { bandId: string; newLeaderId: string }[] = [];
+    const deletedBandIds: string[] = [];
+    const orphanedFiles: string[] = [];
+    const notifications: Notification[] = [];
+
+    const deleteBand = async (bandId: string) => {
+      orphanedFiles.push(...(await deleteBandRecords(tx, bandId)));
+      deletedBandIds.push(bandId);
+    };
+
+    const leaderships = await tx.bandMember.findMany({
+      where: {
+        userId,
+        role: 'LEADER',
+        status: 'ACTIVE',
+      },
+      select: { bandId: true },
+    });
+
+    for (const { bandId } of leaderships) {
+      const handover = await handOverLeadership(tx, bandId, userId);
+
+      if (handover.outcome === 'PROMOTED') {
+        transferredBands.push({ bandId, newLeaderId: handover.userId });
+        notifications.push(...handover.notifications);
+      } else if (handover.outcome === 'NO_MEMBERS') {
+        await deleteBand(bandId);
+      }
+    }
+
+    const createdIn = await tx.rehearsal.findMany({
+      where: { createdById: userId },
+      distinct: ['bandId'],
+      select: { bandId: true },
+    });
+
+    for (const { bandId } of createdIn) {
+      // Prefer active leaders, then active members, then anyone who was in the band
+      const successor = await tx.bandMember.findFirst({
+        where: {
+          bandId,
+          userId: { not: userId },
+        },
+        orderBy: [{ status: 'asc' }, { role: 'asc' }, { joinedAt: 'asc' }],
+      });
+
+      if (successor) {
+        await tx.rehearsal.updateMany({
+          where: { bandId, createdById: userId },
+          data: { createdById: successor.userId },
+        });
+      } else {
+        await deleteBand(bandId);
+      }
+    }
+
+    const user = await tx.user.delete({
+      where: { id: userId },
+      select: { profileImageKey: true },
+    });
+
+    if (user.profileImageKey) {
+      orphanedFiles.push(user.profileImageKey);
+    }
+
+    return { transferredBands, deletedBandIds, orphanedFiles, notifications };
+  }, SERIALIZABLE);
+
+  // Files can't be deleted inside the transaction, so they go once it committed
+  await deleteStoredFiles(result.orphanedFiles);
+  await publishNotifications(result.notifications);
+
+  return {
+    transferredBands: result.transferredBands,
+    deletedBandIds: result.deletedBandIds,
+  };
+};
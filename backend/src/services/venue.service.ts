@@ -0,0 +1,281 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { badRequest, forbidden, notFound } from '../utils/errors';
+import { parseTimeOfDay } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+export interface OpeningHoursInput {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface VenueInput {
+  name?: string;
+  address?: string | null;
+  capacity?: number | null;
+  hourlyCostCents?: number | null;
+  currency?: string | null;
+  equipment?: string[];
+  accessNotes?: string | null;
+  timezone?: string;
+  isShared?: boolean;
+  openingHours?: OpeningHoursInput[]; // Replaces the current opening hours
+}
+
+export interface VenueRatingInput {
+  rating: number;
+  feedback?: string | null;
+}
+
+export const venueInclude = {
+  band: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  openingHours: {
+    orderBy: [{ dayOfWeek: 'asc' as const }, { startTime: 'asc' as const }],
+  },
+};
+
+// Venues a band can see and pick: its own plus those other bands share
+const visibleToBand = (bandId: string): Prisma.VenueWhereInput => ({
+  OR: [{ bandId }, { isShared: true }],
+});
+
+/**
+ * Add the average rating and number of ratings to each venue.
+ */
+const withRatings = async <T extends { id: string }>(venues: T[]) => {
+  const ratings = await prisma.venueRating.groupBy({
+    by: ['venueId'],
+    where: { venueId: { in: venues.map((venue) => venue.id) } },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  return venues.map((venue) => {
+    const summary = ratings.find((item) => item.venueId === venue.id);
+
+    return {
+      ...venue,
+      averageRating:
+        summary?._avg.rating != null ? Math.round(summary._avg.rating * 10) / 10 : null,
+      ratingCount: summary?._count._all ?? 0,
+    };
+  });
+};
+
+const checkOpeningHours = (openingHours: OpeningHoursInput[]) => {
+  for (const hours of openingHours) {
+    if (parseTimeOfDay(hours.startTime) >= parseTimeOfDay(hours.endTime)) {
+      throw badRequest('Opening hours must end after they start');
+    }
+  }
+};
+
+const venueData = (input: VenueInput) => ({
+  name: input.name,
+  address: input.address,
+  capacity: input.capacity,
+  hourlyCostCents: input.hourlyCostCents,
+  currency: input.currency,
+  equipment: input.equipment && [...new Set(input.equipment)],
+  accessNotes: input.accessNotes,
+  timezone: input.timezone,
+  isShared: input.isShared,
+});
+
+/**
+ * The band's venues and, unless `includeShared` is false, venues other
+ * bands share, with their ratings.
+ */
+export const listVenues = async (
+  bandId: string,
+  options: { includeShared?: boolean; search?: string } = {}
+) => {
+  const { includeShared = true, search } = options;
+
+  const venues = await prisma.venue.findMany({
+    where: {
+      ...(includeShared ? visibleToBand(bandId) : { bandId }),
+      ...(search && {
+        AND: [
+          {
+            OR: [
+              { name: { contains: search, mode: 'insensitive' as const } },
+              { address: { contains: search, mode: 'insensitive' as const } },
+            ],
+          },
+        ],
+      }),
+    },
+    include: venueInclude,
+    orderBy: {
+      name: 'asc',
+    },
+  });
+
+  return withRatings(venues);
+};
+
+/**
+ * A venue the user can see: shared, or registered by one of their bands.
+ */
+export const getVenueForUser = async (venueId: string, userId: string) => {
+  const venue = await prisma.venue.findFirst({
+    where: {
+      id: venueId,
+      OR: [
+        { isShared: true },
+        { band: { members: { some: { userId, status: 'ACTIVE' } } } },
+      ],
+    },
+    include: venueInclude,
+  });
+
+  if (!venue) {
+    throw notFound('Venue not found');
+  }
+
+  const [withRating] = await withRatings([venue]);
+  return withRating;
+};
+
+/**
+ * The venue a band's rehearsal is set to take place at; it must be one the
+ * band can see.
+ */
+export const findVenueForBand = async (venueId: string, bandId: string) => {
+  const venue = await prisma.venue.findFirst({
+    where: { id: venueId, ...visibleToBand(bandId) },
+  });
+
+  if (!venue) {
+    throw notFound('Venue not found');
+  }
+
+  return venue;
+};
+
+export const createVenue = async (bandId: string, input: VenueInput & { name: string }) => {
+  const { openingHours = [] } = input;
+  checkOpeningHours(openingHours);
+
+  return prisma.venue.create({
+    data: {
+      ...venueData(input),
+      name: input.name,
+      bandId,
+      openingHours: {
+        createMany: { data: openingHours },
+      },
+    },
+    include: venueInclude,
+  });
+};
+
+export const updateVenue = async (venueId: string, input: VenueInput) => {
+  const { openingHours } = input;
+
+  if (openingHours) {
+    checkOpeningHours(openingHours);
+  }
+
+  return prisma.venue.update({
+    where: { id: venueId },
+    data: {
+      ...venueData(input),
+      ...(openingHours && {
+        openingHours: {
+          deleteMany: {},
+          createMany: { data: openingHours },
+        },
+      }),
+    },
+    include: venueInclude,
+  });
+};
+
+/**
+ * Ratings and feedback for a venue, newest first.
+ */
+export const listVenueRatings = (venueId: string) =>
+  prisma.venueRating.findMany({
+    where: { venueId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      rehearsal: {
+        select: {
+          id: true,
+          title: true,
+          startDatetime: true,
+        },
+      },
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+/**
+ * Rate the venue of a rehearsal that has ended, or change an earlier
+ * rating. Only members who were there can rate: checked in, or, where
+ * attendance wasn't taken, not having declined.
+ */
+export const rateVenue = async (
+  rehearsalId: string,
+  userId: string,
+  input: VenueRatingInput,
+  now = new Date()
+) => {
+  const rehearsal = await prisma.rehearsal.findUnique({
+    where: { id: rehearsalId },
+    include: {
+      attendances: {
+        where: { userId },
+      },
+    },
+  });
+
+  if (!rehearsal) {
+    throw notFound('Rehearsal not found');
+  }
+
+  if (!rehearsal.venueId) {
+    throw badRequest('This rehearsal has no venue to rate');
+  }
+
+  if (rehearsal.status === 'CANCELLED' || rehearsal.endDatetime > now) {
+    throw badRequest('Venues can be rated once the rehearsal is over');
+  }
+
+  const attendance = rehearsal.attendances[0];
+  const attended = attendance
+    ? attendance.checkInStatus
+      ? attendance.checkInStatus !== 'ABSENT'
+      : attendance.status !== 'NOT_ATTENDING'
+    : false;
+
+  if (!attended) {
+    throw forbidden('Only members who were at the rehearsal can rate the venue');
+  }
+
+  const data = {
+    rating: input.rating,
+    feedback: input.feedback,
+  };
+
+  return prisma.venueRating.upsert({
+    where: { rehearsalId_userId: { rehearsalId, userId } },
+    create: { ...data, rehearsalId, userId, venueId: rehearsal.venueId },
+    update: data,
+  });
+};
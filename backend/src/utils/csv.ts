@@ -0,0 +1,24 @@
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  // Keep spreadsheets from evaluating user-entered text as a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV with a header row. Columns map a header to the value of
+ * each row; dates are written as ISO 8601.
+ */
+export const toCsv = <T>(columns: [string, (row: T) => unknown][], rows: T[]): string =>
+  [
+    columns.map(([header]) => escapeCsvValue(header)).join(','),
+    ...rows.map((row) => columns.map(([, value]) => escapeCsvValue(value(row))).join(',')),
+  ].join('\r\n') + '\r\n';
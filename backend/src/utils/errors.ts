@@ -0,0 +1,27 @@
+/**
+ * Error carrying an HTTP status, rendered by the error handler as
+ * { success: false, message, error: name, errors }.
+ */
+export class HttpError extends Error {
+  statusCode: number;
+  errors?: any[];
+
+  constructor(statusCode: number, message: string, name: string, errors?: any[]) {
+    super(message);
+    this.statusCode = statusCode;
+    this.name = name;
+    this.errors = errors;
+  }
+}
+
+export const badRequest = (message: string, errors?: any[]) =>
+  new HttpError(400, message, 'Bad Request', errors);
+
+export const unauthorized = (message: string) => new HttpError(401, message, 'Unauthorized');
+
+export const forbidden = (message: string) => new HttpError(403, message, 'Forbidden');
+
+export const notFound = (message: string) => new HttpError(404, message, 'Not Found');
+
+export const conflict = (message: string, errors?: any[]) =>
+  new HttpError(409, message, 'Conflict', errors);
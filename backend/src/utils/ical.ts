@@ -0,0 +1,324 @@
+import { DAY_MS, isValidTimeZone, zonedTimeToUtc } from './time';
+
+const PRODUCT_ID = '-//Music Rehearsal Scheduler//EN';
+
+export interface ICalAttendee {
+  name: string;
+  email: string;
+  partstat: 'ACCEPTED' | 'DECLINED' | 'TENTATIVE' | 'NEEDS-ACTION';
+}
+
+export interface ICalEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  created?: Date;
+  lastModified?: Date;
+  attendees?: ICalAttendee[];
+  categories?: string[];
+}
+
+export interface ICalCalendar {
+  name: string;
+  description?: string;
+  events: ICalEvent[];
+}
+
+/**
+ * UTC date-time in RFC 5545 basic format, e.g. 20261020T190000Z.
+ */
+export const formatICalDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const escapeICalText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line to at most 75 octets per physical line (RFC 5545 3.1).
+ */
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? 75 : 74; // continuation lines start with a space
+
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+
+    current += char;
+    currentBytes += bytes;
+  }
+
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const eventLines = (event: ICalEvent, stamp: Date): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICalDate(stamp)}`,
+    `DTSTART:${formatICalDate(event.start)}`,
+    `DTEND:${formatICalDate(event.end)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `SUMMARY:${escapeICalText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeICalText).join(',')}`);
+  }
+  if (event.created) lines.push(`CREATED:${formatICalDate(event.created)}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatICalDate(event.lastModified)}`);
+
+  (event.attendees || []).forEach((attendee) => {
+    lines.push(
+      `ATTENDEE;CN="${attendee.name.replace(/"/g, "'")}";PARTSTAT=${attendee.partstat}:mailto:${attendee.email}`
+    );
+  });
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Serialise a VCALENDAR with CRLF line endings and folded lines.
+ */
+export const buildICalendar = (calendar: ICalCalendar): string => {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(calendar.name)}`,
+    ...(calendar.description ? [`X-WR-CALDESC:${escapeICalText(calendar.description)}`] : []),
+    ...calendar.events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+export interface ParsedICalEvent {
+  uid: string;
+  summary?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timeZone: string;
+  rrule?: string;
+  exdates: Date[];
+  recurrenceId?: Date;
+  cancelled: boolean;
+  transparent: boolean;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeICalText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const parseContentLine = (line: string): ContentLine | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+
+  for (let index = 0; index < line.length; index += 1) {
+    if (line[index] === '"') inQuotes = !inQuotes;
+    if (line[index] === ':' && !inQuotes) {
+      colon = index;
+      break;
+    }
+  }
+
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Parse a DATE or DATE-TIME value. Floating times and unknown TZIDs are read
+ * in the fallback timezone.
+ */
+const parseICalDate = (
+  value: string,
+  params: Record<string, string>,
+  fallbackTimeZone: string
+): { date: Date; allDay: boolean; timeZone: string } | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const timeZone = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : fallbackTimeZone;
+
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)),
+      allDay: false,
+      timeZone,
+    };
+  }
+
+  const allDay = hour === undefined;
+
+  return {
+    date: zonedTimeToUtc(
+      {
+        year: +year,
+        month: +month,
+        day: +day,
+        hour: allDay ? 0 : +hour,
+        minute: allDay ? 0 : +minute,
+      },
+      timeZone
+    ),
+    allDay,
+    timeZone,
+  };
+};
+
+/**
+ * Length of an RFC 5545 DURATION value in milliseconds, e.g. PT1H30M or P1D.
+ */
+export const parseICalDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    value.trim()
+  );
+
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    (((Number(weeks || 0) * 7 + Number(days || 0)) * 24 + Number(hours || 0)) * 60 +
+      Number(minutes || 0)) *
+      60000 +
+    Number(seconds || 0) * 1000;
+
+  return sign === '-' ? -ms : ms;
+};
+
+const toParsedEvent = (lines: ContentLine[], fallbackTimeZone: string): ParsedICalEvent | null => {
+  const get = (name: string) => lines.find((line) => line.name === name);
+  const readDate = (line?: ContentLine) =>
+    line ? parseICalDate(line.value, line.params, fallbackTimeZone) : null;
+
+  const start = readDate(get('DTSTART'));
+  if (!start) return null;
+
+  let end = readDate(get('DTEND'))?.date;
+  const duration = get('DURATION');
+
+  if (!end && duration) {
+    const ms = parseICalDuration(duration.value);
+    if (ms !== null) end = new Date(start.date.getTime() + ms);
+  }
+
+  if (!end) {
+    // RFC 5545: a DATE start without an end lasts one day, a DATE-TIME start is instantaneous
+    end = new Date(start.date.getTime() + (start.allDay ? DAY_MS : 0));
+  }
+
+  const exdates = lines
+    .filter((line) => line.name === 'EXDATE')
+    .flatMap((line) =>
+      line.value
+        .split(',')
+        .map((value) => parseICalDate(value, line.params, start.timeZone))
+    )
+    .filter((value): value is NonNullable<typeof value> => value !== null)
+    .map((value) => value.date);
+
+  return {
+    uid: get('UID')?.value || `${start.date.toISOString()}-${get('SUMMARY')?.value || ''}`,
+    summary: get('SUMMARY') ? unescapeICalText(get('SUMMARY')!.value) : undefined,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    timeZone: start.timeZone,
+    rrule: get('RRULE')?.value,
+    exdates,
+    recurrenceId: readDate(get('RECURRENCE-ID'))?.date,
+    cancelled: get('STATUS')?.value.toUpperCase() === 'CANCELLED',
+    transparent: get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT',
+  };
+};
+
+/**
+ * Extract the VEVENTs of an iCalendar document. Recurrence rules are
+ * returned unexpanded; malformed events are skipped.
+ */
+export const parseICalendar = (text: string, fallbackTimeZone: string): ParsedICalEvent[] => {
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: ParsedICalEvent[] = [];
+
+  let current: ContentLine[] | null = null;
+  let nestedDepth = 0;
+
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      nestedDepth = 0;
+      continue;
+    }
+
+    if (!current) continue;
+
+    // Skip nested components such as VALARM
+    if (line.name === 'BEGIN') {
+      nestedDepth += 1;
+      continue;
+    }
+    if (line.name === 'END' && nestedDepth > 0) {
+      nestedDepth -= 1;
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+      const event = toParsedEvent(current, fallbackTimeZone);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+
+    current.push(line);
+  }
+
+  return events;
+};
@@ -0,0 +1,154 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local (incl. cloud metadata), shared, multicast
+// and reserved ranges; IPv4-mapped IPv6 addresses are checked as IPv4
+const BLOCKED = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/**
+ * A failure whose message is safe to show to the user. Anything else that
+ * goes wrong while fetching is reported as unreachable, so responses never
+ * reveal what the server can see on the network.
+ */
+export class PublicFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PublicFetchError';
+  }
+}
+
+export const isPublicAddress = (address: string) => {
+  const family = net.isIP(address);
+  return family !== 0 && !BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const NOT_PUBLIC = 'URLs must point to a public internet address';
+
+// Checks the addresses a hostname resolves to at connection time, so a
+// host can't pass a check and then resolve elsewhere (DNS rebinding)
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+    } else if (addresses.length === 0 || !addresses.every((item) => isPublicAddress(item.address))) {
+      callback(new PublicFetchError(NOT_PUBLIC), '', 0);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const request = (
+  url: URL,
+  options: { accept: string; maxBytes: number; signal: AbortSignal }
+): Promise<{ redirect: string } | { body: string }> =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.get(
+      url,
+      { lookup: publicLookup, signal: options.signal, headers: { Accept: options.accept } },
+      (res) => {
+        const status = res.statusCode ?? 0;
+
+        if (status >= 300 && status < 400 && res.headers.location) {
+          res.resume();
+          resolve({ redirect: res.headers.location });
+          return;
+        }
+
+        if (status < 200 || status >= 300) {
+          res.resume();
+          reject(new PublicFetchError('The URL did not return a document'));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        res.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+
+          if (size > options.maxBytes) {
+            res.destroy();
+            reject(new PublicFetchError('The document is too large'));
+            return;
+          }
+
+          chunks.push(chunk);
+        });
+        res.on('end', () => resolve({ body: Buffer.concat(chunks).toString('utf8') }));
+        res.on('error', reject);
+      }
+    );
+
+    req.on('error', reject);
+  });
+
+/**
+ * GET a user-supplied http(s) URL from the server without letting it reach
+ * internal services: every address connected to, including after each
+ * redirect, must be public. The body is streamed and abandoned once it
+ * passes maxBytes. Errors other than PublicFetchError carry no user-safe
+ * message.
+ */
+export const fetchPublicUrl = async (
+  location: string,
+  options: { accept: string; maxBytes: number; timeoutMs: number }
+): Promise<string> => {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let url = new URL(location);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects += 1) {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new PublicFetchError('Only http(s) URLs can be fetched');
+    }
+
+    // IP literals are connected to without a lookup
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && !isPublicAddress(host)) {
+      throw new PublicFetchError(NOT_PUBLIC);
+    }
+
+    const result = await request(url, { ...options, signal });
+
+    if ('body' in result) {
+      return result.body;
+    }
+
+    url = new URL(result.redirect, url);
+  }
+
+  throw new PublicFetchError('The URL redirects too many times');
+};
@@ -0,0 +1,388 @@
+import { DAY_MS, getZonedParts, zonedTimeToUtc } from './time';
+
+export const MAX_OCCURRENCES = 104;
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface ByDay {
+  weekday: number; // 0 = Sunday
+  ordinal?: number; // MONTHLY only: 1 = first, -1 = last
+}
+
+/**
+ * The subset of an RFC 5545 RRULE supported for rehearsals, plus exception
+ * dates (EXDATE) given as local calendar dates.
+ */
+export interface RecurrenceRule {
+  frequency: Frequency;
+  interval: number;
+  byDay: ByDay[];
+  count?: number;
+  until?: Date;
+  exceptionDates: string[]; // YYYY-MM-DD in the series timezone
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+const parseByDay = (value: string, frequency: Frequency): ByDay => {
+  const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value.trim().toUpperCase());
+
+  if (!match) {
+    throw new RecurrenceRuleError(`Invalid BYDAY value: ${value}`);
+  }
+
+  const byDay: ByDay = { weekday: WEEKDAY_CODES.indexOf(match[2]) };
+
+  if (match[1]) {
+    const ordinal = Number(match[1]);
+
+    if (frequency !== 'MONTHLY') {
+      throw new RecurrenceRuleError('BYDAY ordinals are only supported for MONTHLY rules');
+    }
+    if (ordinal === 0 || Math.abs(ordinal) > 5) {
+      throw new RecurrenceRuleError(`Invalid BYDAY ordinal: ${value}`);
+    }
+
+    byDay.ordinal = ordinal;
+  }
+
+  return byDay;
+};
+
+const parseUntil = (value: string): Date => {
+  // RFC 5545 form (20261231 or 20261231T235959Z) or ISO 8601
+  const basic = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  const date = basic
+    ? new Date(
+        Date.UTC(
+          Number(basic[1]),
+          Number(basic[2]) - 1,
+          Number(basic[3]),
+          basic[4] ? Number(basic[4]) : 23,
+          basic[5] ? Number(basic[5]) : 59,
+          basic[6] ? Number(basic[6]) : 59
+        )
+      )
+    : new Date(value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new RecurrenceRuleError(`Invalid UNTIL value: ${value}`);
+  }
+
+  return date;
+};
+
+const parseRRuleString = (value: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+
+  value
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(Boolean)
+    .forEach((part) => {
+      const [key, fieldValue] = part.split('=');
+
+      if (!key || fieldValue === undefined) {
+        throw new RecurrenceRuleError(`Invalid RRULE part: ${part}`);
+      }
+
+      fields[key.trim().toUpperCase()] = fieldValue.trim();
+    });
+
+  return fields;
+};
+
+/**
+ * Validate and normalise a recurrence pattern. Accepts either an RRULE
+ * string ("FREQ=WEEKLY;BYDAY=TU;COUNT=10") or an object of the form
+ * { frequency, interval, byDay, count, until, exceptionDates }.
+ */
+export const parseRecurrencePattern = (
+  pattern: unknown,
+  options: { maxCount?: number } = {}
+): RecurrenceRule => {
+  const { maxCount = MAX_OCCURRENCES } = options;
+  let frequency: unknown;
+  let interval: unknown;
+  let byDay: unknown;
+  let count: unknown;
+  let until: unknown;
+  let exceptionDates: unknown = [];
+
+  if (typeof pattern === 'string') {
+    const fields = parseRRuleString(pattern);
+    frequency = fields.FREQ;
+    interval = fields.INTERVAL;
+    byDay = fields.BYDAY ? fields.BYDAY.split(',') : undefined;
+    count = fields.COUNT;
+    until = fields.UNTIL;
+  } else if (pattern && typeof pattern === 'object') {
+    ({ frequency, interval, byDay, count, until } = pattern as Record<string, unknown>);
+    exceptionDates = (pattern as Record<string, unknown>).exceptionDates ?? [];
+  } else {
+    throw new RecurrenceRuleError('Recurrence pattern must be an RRULE string or an object');
+  }
+
+  const normalisedFrequency = String(frequency || '').toUpperCase() as Frequency;
+
+  if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(normalisedFrequency)) {
+    throw new RecurrenceRuleError('Frequency must be one of: DAILY, WEEKLY, MONTHLY');
+  }
+
+  const rule: RecurrenceRule = {
+    frequency: normalisedFrequency,
+    interval: interval === undefined ? 1 : Number(interval),
+    byDay: [],
+    exceptionDates: [],
+  };
+
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 99) {
+    throw new RecurrenceRuleError('Interval must be an integer between 1 and 99');
+  }
+
+  if (byDay !== undefined) {
+    if (!Array.isArray(byDay)) {
+      throw new RecurrenceRuleError('byDay must be a list of weekday codes');
+    }
+    rule.byDay = byDay.map((value) => parseByDay(String(value), rule.frequency));
+  }
+
+  if (count !== undefined && until !== undefined) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot both be set');
+  }
+
+  if (count !== undefined) {
+    rule.count = Number(count);
+
+    if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > maxCount) {
+      throw new RecurrenceRuleError(`Count must be an integer between 1 and ${maxCount}`);
+    }
+  }
+
+  if (until !== undefined) {
+    rule.until = parseUntil(String(until));
+  }
+
+  if (!Array.isArray(exceptionDates)) {
+    throw new RecurrenceRuleError('exceptionDates must be a list of YYYY-MM-DD dates');
+  }
+
+  rule.exceptionDates = exceptionDates.map((value) => {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new RecurrenceRuleError(`Invalid exception date: ${value}`);
+    }
+    return value;
+  });
+
+  return rule;
+};
+
+const formatUtc = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Serialise a rule as an RFC 5545 RRULE value (without EXDATEs).
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`];
+
+  if (rule.byDay.length > 0) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((day) => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`)
+        .join(',')}`
+    );
+  }
+
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  if (rule.until) {
+    parts.push(`UNTIL=${formatUtc(rule.until)}`);
+  }
+
+  return parts.join(';');
+};
+
+const civilKey = (civil: Date): string => civil.toISOString().slice(0, 10);
+
+const addCivilDays = (civil: Date, days: number): Date => new Date(civil.getTime() + days * DAY_MS);
+
+const civilDate = (date: Date, timeZone: string): Date => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+/**
+ * Move a rule along with its occurrences, when an occurrence generated at
+ * `from` now starts at `to`. Weekdays and exception dates follow the number
+ * of calendar days moved in the timezone, and UNTIL moves by the same
+ * amount. A WEEKLY rule without BYDAY gets the moved weekday spelled out,
+ * since its implicit weekday comes from the first occurrence, which may
+ * have stayed in place.
+ */
+export const shiftRecurrenceRule = (
+  rule: RecurrenceRule,
+  from: Date,
+  to: Date,
+  timeZone: string
+): RecurrenceRule => {
+  const fromCivil = civilDate(from, timeZone);
+  const days = Math.round((civilDate(to, timeZone).getTime() - fromCivil.getTime()) / DAY_MS);
+  const shifted = {
+    ...rule,
+    until: rule.until && new Date(rule.until.getTime() + to.getTime() - from.getTime()),
+  };
+
+  if (days === 0) {
+    return shifted;
+  }
+
+  const byDay =
+    rule.byDay.length === 0 && rule.frequency === 'WEEKLY'
+      ? [{ weekday: fromCivil.getUTCDay() }]
+      : rule.byDay;
+
+  return {
+    ...shifted,
+    byDay: byDay.map((day) => ({ ...day, weekday: (((day.weekday + days) % 7) + 7) % 7 })),
+    exceptionDates: rule.exceptionDates.map((date) =>
+      civilKey(addCivilDays(new Date(`${date}T00:00:00Z`), days))
+    ),
+  };
+};
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Local calendar dates in one period of a MONTHLY rule, ascending.
+ */
+const monthlyDates = (rule: RecurrenceRule, year: number, month: number, day: number): Date[] => {
+  const length = daysInMonth(year, month);
+
+  if (rule.byDay.length === 0) {
+    return day <= length ? [new Date(Date.UTC(year, month, day))] : [];
+  }
+
+  const dates: Date[] = [];
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+
+  rule.byDay.forEach(({ weekday, ordinal }) => {
+    const firstMatch = 1 + ((weekday - firstWeekday + 7) % 7);
+    const matches: number[] = [];
+
+    for (let candidate = firstMatch; candidate <= length; candidate += 7) {
+      matches.push(candidate);
+    }
+
+    const selected =
+      ordinal === undefined
+        ? matches
+        : [ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal]];
+
+    selected
+      .filter((candidate) => candidate !== undefined)
+      .forEach((candidate) => dates.push(new Date(Date.UTC(year, month, candidate))));
+  });
+
+  return dates.sort((a, b) => a.getTime() - b.getTime());
+};
+
+/**
+ * Expand a rule into occurrence start times.
+ *
+ * The wall-clock time of dtstart in the given timezone is kept for every
+ * occurrence, so a 7 PM rehearsal stays at 7 PM across DST changes.
+ * Occurrences before dtstart are skipped, EXDATEs are dropped after COUNT
+ * has been applied (as in RFC 5545), and expansion stops at UNTIL, the
+ * horizon or maxOccurrences, whichever comes first. Occurrences before
+ * `after` still count towards COUNT but are not returned.
+ */
+export const expandRecurrence = (
+  rule: RecurrenceRule,
+  dtstart: Date,
+  timeZone: string,
+  options: { horizon: Date; after?: Date; maxOccurrences?: number }
+): Date[] => {
+  const { horizon, after, maxOccurrences = MAX_OCCURRENCES } = options;
+  const start = getZonedParts(dtstart, timeZone);
+  const startCivil = new Date(Date.UTC(start.year, start.month - 1, start.day));
+  const exceptions = new Set(rule.exceptionDates);
+  const occurrences: Date[] = [];
+  let generated = 0;
+
+  // Returns false once expansion should stop
+  const emit = (civil: Date): boolean => {
+    const occurrence = zonedTimeToUtc(
+      {
+        year: civil.getUTCFullYear(),
+        month: civil.getUTCMonth() + 1,
+        day: civil.getUTCDate(),
+        hour: start.hour,
+        minute: start.minute,
+      },
+      timeZone
+    );
+
+    if (occurrence < dtstart) return true;
+    if (rule.until && occurrence > rule.until) return false;
+    if (occurrence > horizon) return false;
+
+    generated += 1;
+    if (rule.count !== undefined && generated > rule.count) return false;
+
+    if (!exceptions.has(civilKey(civil)) && !(after && occurrence < after)) {
+      occurrences.push(occurrence);
+    }
+
+    return occurrences.length < maxOccurrences;
+  };
+
+  const weekdays = rule.byDay.map((day) => day.weekday);
+  // Periods are bounded by the stop conditions above; this only guards against runaway loops
+  const maxPeriods = 20000;
+
+  for (let period = 0; period < maxPeriods; period += 1) {
+    let dates: Date[];
+
+    if (rule.frequency === 'DAILY') {
+      const civil = addCivilDays(startCivil, period * rule.interval);
+      dates = weekdays.length === 0 || weekdays.includes(civil.getUTCDay()) ? [civil] : [];
+      if (civil.getTime() > horizon.getTime() + DAY_MS) break;
+    } else if (rule.frequency === 'WEEKLY') {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const weekStart = addCivilDays(
+        startCivil,
+        -((start.dayOfWeek + 6) % 7) + period * rule.interval * 7
+      );
+      const days = weekdays.length > 0 ? weekdays : [start.dayOfWeek];
+      dates = [...new Set(days)]
+        .map((weekday) => addCivilDays(weekStart, (weekday + 6) % 7))
+        .sort((a, b) => a.getTime() - b.getTime());
+      if (weekStart.getTime() > horizon.getTime() + DAY_MS) break;
+    } else {
+      const monthIndex = start.month - 1 + period * rule.interval;
+      const year = start.year + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      dates = monthlyDates(rule, year, month, start.day);
+      if (Date.UTC(year, month, 1) > horizon.getTime() + DAY_MS) break;
+    }
+
+    for (const civil of dates) {
+      if (!emit(civil)) {
+        return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+};
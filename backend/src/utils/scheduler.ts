@@ -0,0 +1,34 @@
+import { logger } from './logger';
+
+/**
+ * Run a background job now and then every intervalMs. A run is skipped
+ * while the previous one is still going, and failures are logged rather
+ * than crashing the process. Returns a function that stops the job.
+ */
+export const scheduleJob = (
+  name: string,
+  intervalMs: number,
+  job: () => Promise<unknown>
+): (() => void) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await job();
+    } catch (error) {
+      logger.error(`Job ${name} failed: ${(error as Error).message}`);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  // Don't keep the process alive just for background jobs
+  timer.unref();
+  void tick();
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,152 @@
+export const MINUTE_MS = 60 * 1000;
+export const HOUR_MS = 60 * MINUTE_MS;
+export const DAY_MS = 24 * HOUR_MS;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Parse an "HH:mm" string into minutes since midnight.
+ * "24:00" is accepted as the end of the day.
+ */
+export const parseTimeOfDay = (value: string): number => {
+  const match = /^([01]\d|2[0-4]):([0-5]\d)$/.exec(value);
+
+  if (!match) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+
+  if (minutes > 24 * 60) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+
+  return minutes;
+};
+
+export const isTimeOfDay = (value: string): boolean => {
+  try {
+    parseTimeOfDay(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const DURATION_UNITS: Record<string, number> = { m: MINUTE_MS, h: HOUR_MS, d: DAY_MS };
+
+/**
+ * Parse a duration such as "90m", "2h" or "1d" into milliseconds.
+ */
+export const parseDuration = (value: string): number => {
+  const match = /^(\d+)\s*([mhd])$/.exec(value.trim());
+
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  dayOfWeek: number; // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Constructing formatters is costly, and recurrence expansion calls this a lot
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+};
+
+/**
+ * Calendar fields of an instant as seen on a wall clock in the given IANA
+ * timezone.
+ */
+export const getZonedParts = (date: Date, timeZone = 'UTC'): ZonedParts => {
+  const parts = getFormatter(timeZone).formatToParts(date);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    dayOfWeek: WEEKDAYS.indexOf(get('weekday')),
+  };
+};
+
+/**
+ * Day of week (0 = Sunday) and minutes since midnight of an instant,
+ * as seen on a wall clock in the given IANA timezone.
+ */
+export const getZonedDayAndMinutes = (
+  date: Date,
+  timeZone = 'UTC'
+): { dayOfWeek: number; minutes: number } => {
+  const { dayOfWeek, hour, minute } = getZonedParts(date, timeZone);
+
+  return { dayOfWeek, minutes: hour * 60 + minute };
+};
+
+const zoneOffsetMs = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+
+  return asUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+};
+
+/**
+ * The instant at which a wall clock in the given timezone shows the given
+ * local date and time. Times skipped by a DST change resolve to the
+ * nearest valid instant one offset away.
+ */
+export const zonedTimeToUtc = (
+  local: Omit<ZonedParts, 'dayOfWeek'>,
+  timeZone = 'UTC'
+): Date => {
+  const guess = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const first = guess - zoneOffsetMs(new Date(guess), timeZone);
+  const second = guess - zoneOffsetMs(new Date(first), timeZone);
+
+  return new Date(second);
+};
+
+export const overlaps = (
+  aStart: Date,
+  aEnd: Date,
+  bStart: Date,
+  bEnd: Date
+): boolean => aStart < bEnd && bStart < aEnd;
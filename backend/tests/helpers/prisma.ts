@@ -0,0 +1,295 @@
+import crypto from 'crypto';
+
+/**
+ * An in-memory stand-in for the Prisma client, good enough to drive the
+ * routes end to end without a database. Rows live in `db` by model name.
+ * Filters support equality, not/in/notIn/lt/lte/gt/gte/equals/contains,
+ * AND/OR/NOT, some/none/every and field references; `include` and `select`
+ * resolve belongs-to relations from their `<relation>Id` column and the
+ * has-many relations listed below, and are otherwise ignored, so callers
+ * get whole rows. Transactions run their callback against the same store
+ * and are not rolled back.
+ */
+
+type Row = Record<string, any>;
+
+export const db: Record<string, Row[]> = {};
+
+// Relations whose name isn't the model's
+const RELATION_MODELS: Record<string, string> = {
+  createdBy: 'user',
+  author: 'user',
+};
+
+// Has-many relations: the related model and its foreign key
+const HAS_MANY: Record<string, [string, string]> = {
+  attendances: ['rehearsalAttendance', 'rehearsalId'],
+  options: ['pollOption', 'pollId'],
+  votes: ['pollVote', 'pollId'],
+  rehearsals: ['rehearsal', 'seriesId'],
+};
+
+const rows = (model: string) => (db[model] ??= []);
+
+const children = (row: Row, key: string) => {
+  const [model, foreignKey] = HAS_MANY[key];
+  return rows(model).filter((item) => item[foreignKey] === row.id);
+};
+
+const relationModel = (key: string) => RELATION_MODELS[key] ?? key;
+
+const related = (row: Row, key: string): Row | null | undefined => {
+  if (row[key] !== undefined) return row[key];
+  if (!(`${key}Id` in row)) return undefined;
+
+  const id = row[`${key}Id`];
+  return id === null ? null : (rows(relationModel(key)).find((item) => item.id === id) ?? null);
+};
+
+const fieldValue = (row: Row, value: any) =>
+  value !== null && typeof value === 'object' && '$field' in value ? row[value.$field] : value;
+
+const compare = (a: any, b: any) => (a instanceof Date ? a.getTime() : a) - (b instanceof Date ? b.getTime() : b);
+
+const same = (a: any, b: any, insensitive = false) => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (insensitive && typeof a === 'string' && typeof b === 'string') {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  return (a ?? null) === (b ?? null);
+};
+
+const OPERATORS = ['equals', 'not', 'in', 'notIn', 'lt', 'lte', 'gt', 'gte', 'contains', 'mode'];
+
+const isOperatorFilter = (filter: Row) =>
+  Object.keys(filter).length > 0 && Object.keys(filter).every((key) => OPERATORS.includes(key));
+
+const matchesValue = (row: Row, actual: any, filter: any): boolean => {
+  if (filter === null || typeof filter !== 'object' || filter instanceof Date) {
+    return same(actual, filter);
+  }
+
+  const insensitive = filter.mode === 'insensitive';
+
+  return Object.entries(filter).every(([operator, raw]) => {
+    if (raw === undefined) return true;
+    const expected = fieldValue(row, raw);
+
+    switch (operator) {
+      case 'equals':
+        return same(actual, expected, insensitive);
+      case 'not':
+        return !matchesValue(row, actual, expected);
+      case 'in':
+        return (expected as any[]).some((item) => same(actual, item, insensitive));
+      case 'notIn':
+        return !(expected as any[]).some((item) => same(actual, item, insensitive));
+      case 'lt':
+        return actual != null && compare(actual, expected) < 0;
+      case 'lte':
+        return actual != null && compare(actual, expected) <= 0;
+      case 'gt':
+        return actual != null && compare(actual, expected) > 0;
+      case 'gte':
+        return actual != null && compare(actual, expected) >= 0;
+      case 'contains':
+        return typeof actual === 'string' && actual.includes(expected);
+      default:
+        return true;
+    }
+  });
+};
+
+export const matches = (row: Row, where: Row = {}): boolean =>
+  Object.entries(where).every(([key, filter]) => {
+    if (filter === undefined) return true;
+    if (key === 'AND') return (filter as Row[]).every((item) => matches(row, item));
+    if (key === 'OR') return (filter as Row[]).some((item) => matches(row, item));
+    if (key === 'NOT') return ![filter].flat().some((item) => matches(row, item));
+
+    if (key in HAS_MANY) {
+      const items = children(row, key);
+      if (filter.some) return items.some((item) => matches(item, filter.some));
+      if (filter.none) return !items.some((item) => matches(item, filter.none));
+      if (filter.every) return items.every((item) => matches(item, filter.every));
+    }
+
+    // Relation filters and compound unique keys such as bandId_userId
+    if (filter !== null && typeof filter === 'object' && !(filter instanceof Date)) {
+      if (!(key in row) && key.includes('_')) return matches(row, filter);
+      if (!isOperatorFilter(filter) && !('$field' in filter)) {
+        const relation = related(row, key);
+        return relation ? matches(relation, filter) : false;
+      }
+    }
+
+    return matchesValue(row, row[key], filter);
+  });
+
+const withRelations = (row: Row, shape?: Row): Row => {
+  if (!shape) return { ...row };
+
+  const result: Row = { ...row };
+
+  for (const [key, value] of Object.entries(shape)) {
+    const nested = typeof value === 'object' ? (value.include ?? value.select) : undefined;
+
+    if (value && key in HAS_MANY) {
+      result[key] = children(row, key)
+        .filter((item) => matches(item, value.where))
+        .map((item) => withRelations(item, nested));
+    } else if (value && row[key] === undefined && `${key}Id` in row) {
+      const relation = related(row, key);
+      result[key] = relation && withRelations(relation, nested);
+    }
+  }
+
+  return result;
+};
+
+const applyData = (row: Row, data: Row) => {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+
+    if (value !== null && typeof value === 'object' && 'increment' in value) {
+      row[key] = (row[key] ?? 0) + value.increment;
+    } else if (value !== null && typeof value === 'object' && 'decrement' in value) {
+      row[key] = (row[key] ?? 0) - value.decrement;
+    } else {
+      row[key] = value;
+    }
+  }
+
+  row.updatedAt = new Date();
+  return row;
+};
+
+const createRow = (model: string, data: Row) => {
+  const row = applyData({ id: crypto.randomUUID(), createdAt: new Date() }, data);
+  rows(model).push(row);
+  return row;
+};
+
+const sortRows = (items: Row[], orderBy?: Row | Row[]) => {
+  const orders = [orderBy ?? []].flat();
+
+  return [...items].sort((a, b) => {
+    for (const order of orders) {
+      const [key, direction] = Object.entries(order)[0];
+      if (typeof direction !== 'string') continue;
+      const difference = compare(a[key], b[key]);
+      if (difference !== 0) return direction === 'desc' ? -difference : difference;
+    }
+    return 0;
+  });
+};
+
+const delegate = (model: string) => {
+  const findMany = (args: Row = {}) => {
+    const found = sortRows(
+      rows(model).filter((row) => matches(row, args.where)),
+      args.orderBy
+    ).slice(0, args.take);
+    return found.map((row) => withRelations(row, args.include ?? args.select));
+  };
+
+  const findFirst = (args: Row = {}) => findMany({ ...args, take: 1 })[0] ?? null;
+
+  const orThrow = (args: Row) => {
+    const row = findFirst(args);
+    if (!row) throw new Error(`No ${model} found`);
+    return row;
+  };
+
+  const update = (args: Row) => {
+    const row = rows(model).find((item) => matches(item, args.where));
+    if (!row) throw new Error(`No ${model} to update`);
+    return withRelations(applyData(row, args.data), args.include ?? args.select);
+  };
+
+  const updateMany = (args: Row) => {
+    const found = rows(model).filter((row) => matches(row, args.where));
+    found.forEach((row) => applyData(row, args.data));
+    return { count: found.length };
+  };
+
+  const deleteMany = (args: Row = {}) => {
+    const kept = rows(model).filter((row) => !matches(row, args.where));
+    const count = rows(model).length - kept.length;
+    db[model] = kept;
+    return { count };
+  };
+
+  const methods: Record<string, (args: Row) => any> = {
+    findMany,
+    findFirst,
+    findUnique: findFirst,
+    findFirstOrThrow: orThrow,
+    findUniqueOrThrow: orThrow,
+    count: (args: Row = {}) => rows(model).filter((row) => matches(row, args.where)).length,
+    create: (args: Row) => withRelations(createRow(model, args.data), args.include ?? args.select),
+    createMany: (args: Row) => ({
+      count: [args.data].flat().map((data: Row) => createRow(model, data)).length,
+    }),
+    createManyAndReturn: (args: Row) =>
+      [args.data].flat().map((data: Row) => ({ ...createRow(model, data) })),
+    update,
+    updateMany,
+    upsert: (args: Row) =>
+      rows(model).some((row) => matches(row, args.where))
+        ? update({ where: args.where, data: args.update, include: args.include })
+        : withRelations(createRow(model, args.create), args.include ?? args.select),
+    delete: (args: Row) => {
+      const row = orThrow(args);
+      db[model] = rows(model).filter((item) => item.id !== row.id);
+      return row;
+    },
+    deleteMany,
+  };
+
+  return new Proxy(
+    {},
+    {
+      get: (_, method: string) => {
+        // Field references, e.g. prisma.bandInvite.fields.maxUses
+        if (method === 'fields') {
+          return new Proxy({}, { get: (__, field: string) => ({ $field: field }) });
+        }
+
+        const implementation = methods[method];
+        return implementation
+          ? (args: Row) => Promise.resolve().then(() => implementation(args))
+          : () => Promise.resolve(method.startsWith('find') ? [] : undefined);
+      },
+    }
+  );
+};
+
+/**
+ * `$transaction`, as a mock so a test can fail a call the way a
+ * serializable transaction that lost a race does.
+ */
+export const transaction = jest.fn(async (arg: any, _options?: unknown) =>
+  typeof arg === 'function' ? arg(prisma) : Promise.all(arg)
+);
+
+export const prisma: any = new Proxy(
+  {},
+  {
+    get: (_, key: string) => {
+      if (key === '$transaction') return transaction;
+      if (key.startsWith('$')) return () => Promise.resolve();
+      if (key === 'then') return undefined;
+      return delegate(key);
+    },
+  }
+);
+
+export const resetDb = () => {
+  for (const model of Object.keys(db)) {
+    delete db[model];
+  }
+  transaction.mockClear();
+};
+
+export const insert = (model: string, data: Row) => createRow(model, data);
@@ -0,0 +1,151 @@
+import request from 'supertest';
+import app from '../src/app';
+import { DAY_MS } from '../src/utils/time';
+import { signUp } from './helpers/auth';
+import { db, insert } from './helpers/prisma';
+
+const setUpBand = () => {
+  const band = insert('band', { name: 'The Testers' });
+  const manager = insert('bandRole', {
+    bandId: band.id,
+    name: 'Manager',
+    capabilities: ['MANAGE_MEMBERS'],
+  });
+
+  const join = (name: string, role: string, bandRoleId: string | null = null) => {
+    const account = signUp(name);
+    insert('bandMember', {
+      bandId: band.id,
+      userId: account.user.id,
+      role,
+      bandRoleId,
+      status: 'ACTIVE',
+      joinedAt: new Date(),
+    });
+    return account;
+  };
+
+  return { band, leader: join('Lea', 'LEADER'), managerMember: join('Max', 'MEMBER', manager.id) };
+};
+
+const invite = (bandId: string, createdById: string, fields: Record<string, unknown> = {}) =>
+  insert('bandInvite', {
+    bandId,
+    code: `code-${Math.random().toString(36).slice(2)}`,
+    email: null,
+    role: 'MEMBER',
+    maxUses: null,
+    useCount: 0,
+    expiresAt: new Date(Date.now() + 7 * DAY_MS),
+    revokedAt: null,
+    declinedAt: null,
+    createdById,
+    ...fields,
+  });
+
+const accept = (code: string, authorization: string) =>
+  request(app).post(`/api/invites/${code}/accept`).set('Authorization', authorization);
+
+const membersOf = (bandId: string, userId: string) =>
+  db.bandMember.filter((row) => row.bandId === bandId && row.userId === userId);
+
+describe('POST /api/bands/:id/invites', () => {
+  it('refuses leader invites from members who are not leaders', async () => {
+    const { band, managerMember } = setUpBand();
+
+    const res = await request(app)
+      .post(`/api/bands/${band.id}/invites`)
+      .set('Authorization', managerMember.authorization)
+      .send({ role: 'LEADER' });
+
+    expect(res.status).toBe(403);
+    expect(db.bandInvite ?? []).toHaveLength(0);
+  });
+
+  it('lets members who manage members create member invites', async () => {
+    const { band, managerMember } = setUpBand();
+
+    const res = await request(app)
+      .post(`/api/bands/${band.id}/invites`)
+      .set('Authorization', managerMember.authorization)
+      .send({ maxUses: 3 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ role: 'MEMBER', maxUses: 3 });
+  });
+});
+
+describe('POST /api/invites/:code/accept', () => {
+  it('joins the band with the role of the invite', async () => {
+    const { band, leader } = setUpBand();
+    const { code } = invite(band.id, leader.user.id, { role: 'LEADER' });
+    const guest = signUp('Gus');
+
+    const res = await accept(code, guest.authorization);
+
+    expect(res.status).toBe(200);
+    expect(membersOf(band.id, guest.user.id)).toEqual([
+      expect.objectContaining({ role: 'LEADER', status: 'ACTIVE' }),
+    ]);
+  });
+
+  it('refuses email invites accepted by another account', async () => {
+    const { band, leader } = setUpBand();
+    const { code } = invite(band.id, leader.user.id, { email: 'gus@example.com', maxUses: 1 });
+    const other = signUp('Ola');
+
+    const res = await accept(code, other.authorization);
+
+    expect(res.status).toBe(403);
+    expect(membersOf(band.id, other.user.id)).toHaveLength(0);
+  });
+
+  it('refuses accounts without a verified email address', async () => {
+    const { band, leader } = setUpBand();
+    const { code } = invite(band.id, leader.user.id);
+    const guest = signUp('Gus');
+    guest.user.emailVerifiedAt = null;
+
+    const res = await accept(code, guest.authorization);
+
+    expect(res.status).toBe(400);
+    expect(membersOf(band.id, guest.user.id)).toHaveLength(0);
+  });
+
+  it('refuses expired and revoked invites', async () => {
+    const { band, leader } = setUpBand();
+    const expired = invite(band.id, leader.user.id, { expiresAt: new Date(Date.now() - 1000) });
+    const revoked = invite(band.id, leader.user.id, { revokedAt: new Date() });
+    const guest = signUp('Gus');
+
+    expect((await accept(expired.code, guest.authorization)).status).toBe(400);
+    expect((await accept(revoked.code, guest.authorization)).status).toBe(400);
+    expect(membersOf(band.id, guest.user.id)).toHaveLength(0);
+  });
+
+  it('lets only one of two people racing for a single-use link join', async () => {
+    const { band, leader } = setUpBand();
+    const link = invite(band.id, leader.user.id, { maxUses: 1 });
+    const first = signUp('Gus');
+    const second = signUp('Ola');
+
+    const responses = await Promise.all([
+      accept(link.code, first.authorization),
+      accept(link.code, second.authorization),
+    ]);
+
+    expect(responses.map((res) => res.status).sort()).toEqual([200, 400]);
+    expect(link.useCount).toBe(1);
+    expect(db.bandMember.filter((row) => row.status === 'ACTIVE')).toHaveLength(3);
+  });
+
+  it('refuses members accepting another invite to their band', async () => {
+    const { band, leader, managerMember } = setUpBand();
+    const { code } = invite(band.id, leader.user.id, { role: 'LEADER' });
+
+    const res = await accept(code, managerMember.authorization);
+
+    expect(res.status).toBe(409);
+    expect(membersOf(band.id, managerMember.user.id)[0].role).toBe('MEMBER');
+  });
+});
@@ -0,0 +1,100 @@
+import request from 'supertest';
+import app from '../src/app';
+import { DAY_MS } from '../src/utils/time';
+import { signUp } from './helpers/auth';
+import { db, insert } from './helpers/prisma';
+
+const setUpBand = () => {
+  const band = insert('band', { name: 'The Testers' });
+  const manager = insert('bandRole', {
+    bandId: band.id,
+    name: 'Manager',
+    capabilities: ['MANAGE_MEMBERS'],
+  });
+
+  const join = (name: string, role: string, bandRoleId: string | null = null) => {
+    const account = signUp(name);
+    insert('bandMember', {
+      bandId: band.id,
+      userId: account.user.id,
+      role,
+      bandRoleId,
+      status: 'ACTIVE',
+      joinedAt: new Date(),
+    });
+    return account;
+  };
+
+  const leader = join('Lea', 'LEADER');
+  const coLeader = join('Leo', 'LEADER');
+  const managerMember = join('Max', 'MEMBER', manager.id);
+
+  const rehearsal = (startsInDays: number) => {
+    const start = new Date(Date.now() + startsInDays * DAY_MS);
+    return insert('rehearsal', {
+      bandId: band.id,
+      title: 'Rehearsal',
+      status: 'SCHEDULED',
+      startDatetime: start,
+      endDatetime: new Date(start.getTime() + 2 * 60 * 60 * 1000),
+    });
+  };
+
+  return { band, leader, coLeader, managerMember, past: rehearsal(-7), upcoming: rehearsal(7) };
+};
+
+const membershipOf = (userId: string) => db.bandMember.find((row) => row.userId === userId)!;
+
+const rsvp = (rehearsalId: string, userId: string) =>
+  insert('rehearsalAttendance', {
+    rehearsalId,
+    userId,
+    status: 'ATTENDING',
+    respondedAt: new Date(),
+    cancelledAt: null,
+    memberLeftAt: null,
+  });
+
+describe('DELETE /api/bands/:id/members/:userId', () => {
+  it('refuses members who manage members removing a leader', async () => {
+    const { band, leader, managerMember } = setUpBand();
+
+    const res = await request(app)
+      .delete(`/api/bands/${band.id}/members/${leader.user.id}`)
+      .set('Authorization', managerMember.authorization);
+
+    expect(res.status).toBe(403);
+    expect(membershipOf(leader.user.id).status).toBe('ACTIVE');
+    expect(membershipOf(managerMember.user.id).role).toBe('MEMBER');
+  });
+
+  it('lets a leader remove another leader', async () => {
+    const { band, leader, coLeader } = setUpBand();
+
+    const res = await request(app)
+      .delete(`/api/bands/${band.id}/members/${coLeader.user.id}`)
+      .set('Authorization', leader.authorization);
+
+    expect(res.status).toBe(200);
+    expect(membershipOf(coLeader.user.id).status).toBe('INACTIVE');
+  });
+
+  it("cancels the member's upcoming RSVPs and keeps them", async () => {
+    const { band, leader, managerMember, past, upcoming } = setUpBand();
+    const before = rsvp(past.id, managerMember.user.id);
+    const after = rsvp(upcoming.id, managerMember.user.id);
+
+    const res = await request(app)
+      .delete(`/api/bands/${band.id}/members/${managerMember.user.id}`)
+      .set('Authorization', leader.authorization);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.cancelledAttendances).toBe(1);
+    expect(db.rehearsalAttendance).toHaveLength(2);
+    expect(after).toMatchObject({ status: 'NOT_ATTENDING', memberLeftAt: expect.any(Date) });
+    expect(before).toMatchObject({ status: 'ATTENDING', memberLeftAt: null });
+    expect(db.notification).toEqual([
+      expect.objectContaining({ userId: managerMember.user.id, type: 'BAND_MEMBER_REMOVED' }),
+    ]);
+  });
+});
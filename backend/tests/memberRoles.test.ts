@@ -0,0 +1,140 @@
+import request from 'supertest';
+import app from '../src/app';
+import { signUp } from './helpers/auth';
+import { db, insert } from './helpers/prisma';
+
+const setUpBand = () => {
+  const band = insert('band', { name: 'The Testers' });
+  const manager = insert('bandRole', {
+    bandId: band.id,
+    name: 'Manager',
+    capabilities: ['MANAGE_MEMBERS'],
+  });
+  const admin = insert('bandRole', {
+    bandId: band.id,
+    name: 'Admin',
+    capabilities: ['MANAGE_MEMBERS', 'MANAGE_BAND'],
+  });
+
+  const join = (name: string, role: string, bandRoleId: string | null = null) => {
+    const account = signUp(name);
+    insert('bandMember', {
+      bandId: band.id,
+      userId: account.user.id,
+      role,
+      bandRoleId,
+      status: 'ACTIVE',
+      joinedAt: new Date(),
+    });
+    return account;
+  };
+
+  return {
+    band,
+    roles: { manager, admin },
+    leader: join('Lea', 'LEADER'),
+    managerMember: join('Max', 'MEMBER', manager.id),
+    member: join('Mia', 'MEMBER'),
+  };
+};
+
+const membershipOf = (userId: string) => db.bandMember.find((row) => row.userId === userId)!;
+
+describe('PUT /api/bands/:id/members/:userId/role', () => {
+  it('lets a leader assign any custom role', async () => {
+    const { band, roles, leader, member } = setUpBand();
+
+    const res = await request(app)
+      .put(`/api/bands/${band.id}/members/${member.user.id}/role`)
+      .set('Authorization', leader.authorization)
+      .send({ bandRoleId: roles.admin.id });
+
+    expect(res.status).toBe(200);
+    expect(membershipOf(member.user.id).bandRoleId).toBe(roles.admin.id);
+  });
+
+  it('lets members who manage members assign roles within their own capabilities', async () => {
+    const { band, roles, managerMember, member } = setUpBand();
+
+    const res = await request(app)
+      .put(`/api/bands/${band.id}/members/${member.user.id}/role`)
+      .set('Authorization', managerMember.authorization)
+      .send({ bandRoleId: roles.manager.id });
+
+    expect(res.status).toBe(200);
+    expect(membershipOf(member.user.id).bandRoleId).toBe(roles.manager.id);
+  });
+
+  it('refuses roles granting capabilities the actor lacks', async () => {
+    const { band, roles, managerMember, member } = setUpBand();
+
+    const res = await request(app)
+      .put(`/api/bands/${band.id}/members/${member.user.id}/role`)
+      .set('Authorization', managerMember.authorization)
+      .send({ bandRoleId: roles.admin.id });
+
+    expect(res.status).toBe(403);
+    expect(membershipOf(member.user.id).bandRoleId).toBeNull();
+  });
+
+  it('refuses taking away roles granting capabilities the actor lacks', async () => {
+    const { band, roles, managerMember, member } = setUpBand();
+    membershipOf(member.user.id).bandRoleId = roles.admin.id;
+
+    const res = await request(app)
+      .put(`/api/bands/${band.id}/members/${member.user.id}/role`)
+      .set('Authorization', managerMember.authorization)
+      .send({ bandRoleId: null });
+
+    expect(res.status).toBe(403);
+    expect(membershipOf(member.user.id).bandRoleId).toBe(roles.admin.id);
+  });
+
+  it('refuses non-leaders changing their own role', async () => {
+    const { band, roles, managerMember } = setUpBand();
+
+    const res = await request(app)
+      .put(`/api/bands/${band.id}/members/${managerMember.user.id}/role`)
+      .set('Authorization', managerMember.authorization)
+      .send({ bandRoleId: roles.admin.id });
+
+    expect(res.status).toBe(403);
+    expect(membershipOf(managerMember.user.id).bandRoleId).toBe(roles.manager.id);
+  });
+
+  it("refuses non-leaders changing a leader's role", async () => {
+    const { band, roles, leader, managerMember } = setUpBand();
+
+    const res = await request(app)
+      .put(`/api/bands/${band.id}/members/${leader.user.id}/role`)
+      .set('Authorization', managerMember.authorization)
+      .send({ bandRoleId: roles.manager.id });
+
+    expect(res.status).toBe(403);
+    expect(membershipOf(leader.user.id).bandRoleId).toBeNull();
+  });
+
+  it('refuses non-leaders promoting anyone to leader', async () => {
+    const { band, managerMember, member } = setUpBand();
+
+    const res = await request(app)
+      .put(`/api/bands/${band.id}/members/${member.user.id}/role`)
+      .set('Authorization', managerMember.authorization)
+      .send({ role: 'LEADER' });
+
+    expect(res.status).toBe(403);
+    expect(membershipOf(member.user.id).role).toBe('MEMBER');
+  });
+
+  it('refuses members without MANAGE_MEMBERS', async () => {
+    const { band, roles, member, managerMember } = setUpBand();
+
+    const res = await request(app)
+      .put(`/api/bands/${band.id}/members/${managerMember.user.id}/role`)
+      .set('Authorization', member.authorization)
+      .send({ bandRoleId: null });
+
+    expect(res.status).toBe(403);
+    expect(membershipOf(managerMember.user.id).bandRoleId).toBe(roles.manager.id);
+  });
+});
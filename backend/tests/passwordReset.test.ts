@@ -0,0 +1,37 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as mail from '../src/services/mail.service';
+import { signUp } from './helpers/auth';
+import { db } from './helpers/prisma';
+
+const forgotPassword = (email: string) =>
+  request(app).post('/api/auth/forgot-password').send({ email });
+
+describe('POST /api/auth/forgot-password', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('emails a reset link to an existing account', async () => {
+    const send = jest.spyOn(mail, 'sendEmail').mockResolvedValue();
+    const { user } = signUp('Lea');
+
+    const res = await forgotPassword(user.email);
+
+    expect(res.status).toBe(200);
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({ email: user.email }),
+      expect.objectContaining({ url: expect.stringContaining('/reset-password?token=') })
+    );
+    expect(db.accountToken).toEqual([expect.objectContaining({ userId: user.id })]);
+  });
+
+  it('answers the same for unknown addresses and failing mail', async () => {
+    jest.spyOn(mail, 'sendEmail').mockRejectedValue(new Error('SMTP unavailable'));
+    const { user } = signUp('Lea');
+
+    const unknown = await forgotPassword('nobody@example.com');
+    const failing = await forgotPassword(user.email);
+
+    expect(failing.status).toBe(200);
+    expect(failing.body).toEqual(unknown.body);
+  });
+});
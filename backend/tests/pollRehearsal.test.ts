@@ -0,0 +1,79 @@
+import request from 'supertest';
+import app from '../src/app';
+import { signUp } from './helpers/auth';
+import { db, insert } from './helpers/prisma';
+
+const setUp = () => {
+  const band = insert('band', { name: 'The Testers' });
+  const leader = signUp('Lea');
+  insert('bandMember', {
+    bandId: band.id,
+    userId: leader.user.id,
+    role: 'LEADER',
+    bandRoleId: null,
+    status: 'ACTIVE',
+    joinedAt: new Date(),
+  });
+
+  const start = new Date(Date.UTC(2030, 0, 15, 18));
+  const poll = insert('poll', {
+    bandId: band.id,
+    question: 'When shall we rehearse?',
+    type: 'DATE',
+    isAnonymous: false,
+    deadline: null,
+    closedAt: new Date(),
+    createdById: leader.user.id,
+    rehearsalId: null,
+  });
+  const option = insert('pollOption', {
+    pollId: poll.id,
+    label: 'Tuesday evening',
+    position: 1,
+    startDatetime: start,
+    endDatetime: new Date(start.getTime() + 2 * 60 * 60 * 1000),
+  });
+  insert('pollVote', { pollId: poll.id, optionId: option.id, userId: leader.user.id });
+
+  return { leader, poll };
+};
+
+const schedule = (pollId: string, authorization: string) =>
+  request(app)
+    .post(`/api/polls/${pollId}/rehearsal`)
+    .set('Authorization', authorization)
+    .send({ location: 'Room 1' });
+
+describe('POST /api/polls/:id/rehearsal', () => {
+  it('turns the winning slot into a rehearsal and links it to the poll', async () => {
+    const { leader, poll } = setUp();
+
+    const res = await schedule(poll.id, leader.authorization);
+
+    expect(res.status).toBe(201);
+    expect(poll.rehearsalId).toBe(res.body.data.id);
+  });
+
+  it('lets only one of two concurrent requests schedule the poll', async () => {
+    const { leader, poll } = setUp();
+
+    const responses = await Promise.all([
+      schedule(poll.id, leader.authorization),
+      schedule(poll.id, leader.authorization),
+    ]);
+
+    expect(responses.map((res) => res.status).sort()).toEqual([201, 409]);
+    const created = responses.find((res) => res.status === 201)!;
+    expect(poll.rehearsalId).toBe(created.body.data.id);
+  });
+
+  it('refuses polls that already have a rehearsal', async () => {
+    const { leader, poll } = setUp();
+    await schedule(poll.id, leader.authorization);
+
+    const res = await schedule(poll.id, leader.authorization);
+
+    expect(res.status).toBe(409);
+    expect(db.rehearsal).toHaveLength(1);
+  });
+});
@@ -0,0 +1,73 @@
+import request from 'supertest';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import app from '../src/app';
+import { signUp } from './helpers/auth';
+import { db, insert, transaction } from './helpers/prisma';
+
+const setUp = () => {
+  const band = insert('band', { name: 'The Testers' });
+  const member = signUp('Mia');
+  insert('bandMember', {
+    bandId: band.id,
+    userId: member.user.id,
+    role: 'MEMBER',
+    bandRoleId: null,
+    status: 'ACTIVE',
+    joinedAt: new Date(),
+  });
+
+  const poll = insert('poll', {
+    bandId: band.id,
+    question: 'Which song do we open with?',
+    type: 'SINGLE',
+    maxChoices: null,
+    isAnonymous: false,
+    deadline: null,
+    closedAt: null,
+    createdById: member.user.id,
+    rehearsalId: null,
+  });
+  const [first, second] = ['Intro', 'Encore'].map((label, index) =>
+    insert('pollOption', { pollId: poll.id, label, position: index + 1 })
+  );
+
+  return { member, poll, first, second };
+};
+
+const vote = (pollId: string, authorization: string, optionIds: string[]) =>
+  request(app)
+    .put(`/api/polls/${pollId}/votes`)
+    .set('Authorization', authorization)
+    .send({ optionIds });
+
+describe('PUT /api/polls/:id/votes', () => {
+  it('replaces the earlier vote inside a serializable transaction', async () => {
+    const { member, poll, first, second } = setUp();
+    await vote(poll.id, member.authorization, [first.id]);
+
+    const res = await vote(poll.id, member.authorization, [second.id]);
+
+    expect(res.status).toBe(200);
+    expect(db.pollVote).toEqual([expect.objectContaining({ optionId: second.id })]);
+    expect(transaction).toHaveBeenCalledWith(
+      expect.any(Function),
+      expect.objectContaining({ isolationLevel: 'Serializable' })
+    );
+  });
+
+  it('reports a vote that lost a race to a concurrent one as a conflict', async () => {
+    const { member, poll, first } = setUp();
+    transaction.mockRejectedValueOnce(
+      new PrismaClientKnownRequestError('could not serialize access', {
+        code: 'P2034',
+        clientVersion: '5.22.0',
+      })
+    );
+
+    const res = await vote(poll.id, member.authorization, [first.id]);
+
+    expect(res.status).toBe(409);
+    expect(res.body.message).toMatch(/another request/);
+    expect(db.pollVote ?? []).toHaveLength(0);
+  });
+});
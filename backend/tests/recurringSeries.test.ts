@@ -0,0 +1,130 @@
+import request from 'supertest';
+import app from '../src/app';
+import { extendRecurringSeries } from '../src/services/rehearsal.service';
+import { DAY_MS } from '../src/utils/time';
+import { signUp } from './helpers/auth';
+import { db, insert } from './helpers/prisma';
+
+// Tuesdays 18:00-20:00 UTC from New Year's Day 2030, four of them created so far
+const firstStart = new Date(Date.UTC(2030, 0, 1, 18));
+const now = new Date(firstStart.getTime() - DAY_MS);
+
+const setUp = () => {
+  const band = insert('band', { name: 'The Testers' });
+  const leader = signUp('Lea');
+  insert('bandMember', {
+    bandId: band.id,
+    userId: leader.user.id,
+    role: 'LEADER',
+    bandRoleId: null,
+    status: 'ACTIVE',
+    joinedAt: new Date(),
+  });
+
+  const series = insert('rehearsalSeries', {
+    bandId: band.id,
+    rrule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=TU',
+    exceptionDates: [],
+    timezone: 'UTC',
+  });
+  const occurrences = [0, 1, 2, 3].map((week) => {
+    const start = new Date(firstStart.getTime() + week * 7 * DAY_MS);
+    return insert('rehearsal', {
+      bandId: band.id,
+      title: 'Weekly rehearsal',
+      description: null,
+      location: 'Room 1',
+      venueId: null,
+      startDatetime: start,
+      endDatetime: new Date(start.getTime() + 2 * 60 * 60 * 1000),
+      isRecurring: true,
+      recurrencePattern: series.rrule,
+      seriesId: series.id,
+      recurrenceId: start,
+      isException: false,
+      status: 'SCHEDULED',
+      sequence: 0,
+      createdById: leader.user.id,
+    });
+  });
+
+  return { leader, series, occurrences };
+};
+
+const cancel = (rehearsalId: string, authorization: string, scope: string) =>
+  request(app)
+    .post(`/api/rehearsals/${rehearsalId}/cancel`)
+    .set('Authorization', authorization)
+    .send({ scope });
+
+const occurrencesOf = (seriesId: string) =>
+  db.rehearsal.filter((row) => row.seriesId === seriesId);
+
+describe('extendRecurringSeries', () => {
+  it('creates the following occurrences of an open-ended series', async () => {
+    const { series } = setUp();
+
+    const extended = await extendRecurringSeries(now);
+
+    expect(extended).toBeGreaterThan(0);
+    expect(occurrencesOf(series.id)).toHaveLength(4 + extended);
+    expect(occurrencesOf(series.id).slice(4)[0]).toMatchObject({
+      title: 'Weekly rehearsal',
+      startDatetime: new Date(firstStart.getTime() + 4 * 7 * DAY_MS),
+    });
+  });
+
+  it('leaves a series cancelled as a whole cancelled', async () => {
+    const { leader, series, occurrences } = setUp();
+
+    const res = await cancel(occurrences[0].id, leader.authorization, 'ALL');
+
+    expect(res.status).toBe(200);
+    expect(series.rrule).toMatch(/UNTIL=20300101T175959Z/);
+    expect(await extendRecurringSeries(now)).toBe(0);
+    expect(occurrencesOf(series.id)).toHaveLength(4);
+  });
+
+  it('ends the series where the following occurrences were cancelled', async () => {
+    const { leader, series, occurrences } = setUp();
+
+    const res = await cancel(occurrences[2].id, leader.authorization, 'FOLLOWING');
+
+    expect(res.status).toBe(200);
+    expect(series.rrule).toMatch(/UNTIL=20300115T175959Z/);
+    expect(occurrences[1].recurrencePattern).toBe(series.rrule);
+    expect(await extendRecurringSeries(now)).toBe(0);
+    expect(occurrencesOf(series.id).filter((row) => row.status === 'SCHEDULED')).toHaveLength(2);
+  });
+
+  it('does not create a single cancelled occurrence again', async () => {
+    const { leader, series, occurrences } = setUp();
+    await cancel(occurrences[3].id, leader.authorization, 'THIS');
+
+    const extended = await extendRecurringSeries(now);
+
+    expect(extended).toBeGreaterThan(0);
+    expect(occurrencesOf(series.id)[4].startDatetime).toEqual(
+      new Date(firstStart.getTime() + 4 * 7 * DAY_MS)
+    );
+    expect(occurrencesOf(series.id).filter((row) => row.status === 'CANCELLED')).toHaveLength(1);
+  });
+
+  it('does not copy an occurrence that was edited on its own', async () => {
+    const { leader, series, occurrences } = setUp();
+
+    const res = await request(app)
+      .put(`/api/rehearsals/${occurrences[3].id}`)
+      .set('Authorization', leader.authorization)
+      .send({ title: 'Gig warm-up', location: 'Club stage', scope: 'THIS' });
+    expect(res.status).toBe(200);
+
+    await extendRecurringSeries(now);
+
+    expect(occurrencesOf(series.id)[4]).toMatchObject({
+      title: 'Weekly rehearsal',
+      location: 'Room 1',
+    });
+    expect(occurrences[3]).toMatchObject({ title: 'Gig warm-up', isException: true });
+  });
+});
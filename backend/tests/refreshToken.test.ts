@@ -0,0 +1,59 @@
+import request from 'supertest';
+import app from '../src/app';
+import { createSession } from '../src/services/session.service';
+import { db, insert } from './helpers/prisma';
+
+const logIn = async () => {
+  const user = insert('user', { name: 'Lea', email: 'lea@example.com', role: 'USER' });
+  const tokens = await createSession(user.id, {});
+  return { user, session: db.session[0], ...tokens };
+};
+
+const refresh = (refreshToken: string) =>
+  request(app).post('/api/auth/refresh-token').send({ refreshToken });
+
+describe('POST /api/auth/refresh-token', () => {
+  it('exchanges a refresh token once for a new pair', async () => {
+    const { refreshToken } = await logIn();
+
+    const res = await refresh(refreshToken);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.refreshToken).not.toBe(refreshToken);
+    expect(db.refreshToken.filter((token) => token.usedAt)).toHaveLength(1);
+  });
+
+  it('revokes the session when a used refresh token comes back', async () => {
+    const { session, refreshToken } = await logIn();
+    const first = await refresh(refreshToken);
+
+    const reuse = await refresh(refreshToken);
+
+    expect(reuse.status).toBe(401);
+    expect(session).toMatchObject({ revokedAt: expect.any(Date), revokedReason: 'TOKEN_REUSE' });
+
+    // Whoever holds the tokens from the first exchange is signed out too
+    expect((await refresh(first.body.data.refreshToken)).status).toBe(401);
+    const me = await request(app)
+      .get('/api/users/me')
+      .set('Authorization', `Bearer ${first.body.data.token}`);
+    expect(me.status).toBe(401);
+  });
+
+  it('lets only one of two concurrent refreshes through', async () => {
+    const { refreshToken } = await logIn();
+
+    const responses = await Promise.all([refresh(refreshToken), refresh(refreshToken)]);
+
+    expect(responses.map((res) => res.status).sort()).toEqual([200, 401]);
+    expect(db.refreshToken.filter((token) => token.usedAt)).toHaveLength(1);
+  });
+
+  it('refuses unknown and expired tokens', async () => {
+    const { refreshToken } = await logIn();
+    db.refreshToken[0].expiresAt = new Date(Date.now() - 1000);
+
+    expect((await refresh('not-a-token')).status).toBe(401);
+    expect((await refresh(refreshToken)).status).toBe(401);
+  });
+});
@@ -0,0 +1,12 @@
+import { resetDb } from './helpers/prisma';
+import { logger } from '../src/utils/logger';
+
+// Every `new PrismaClient()` in the app shares the in-memory store
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => require('./helpers/prisma').prisma),
+}));
+
+logger.silent = true;
+
+beforeEach(resetDb);
@@ -0,0 +1,153 @@
+import request from 'supertest';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import app from '../src/app';
+import { signUp } from './helpers/auth';
+import { db, insert, transaction } from './helpers/prisma';
+
+const at = (hour: number) => new Date(Date.UTC(2030, 0, 15, hour));
+
+// Two bands sharing a room; the Rivals already have it 18:00-20:00
+const setUp = () => {
+  const band = (name: string) => {
+    const created = insert('band', { name });
+    const leader = signUp(`${name.split(' ')[1]}Lead`);
+    insert('bandMember', {
+      bandId: created.id,
+      userId: leader.user.id,
+      role: 'LEADER',
+      bandRoleId: null,
+      status: 'ACTIVE',
+      joinedAt: new Date(),
+    });
+    return { band: created, leader };
+  };
+
+  const testers = band('The Testers');
+  const rivals = band('The Rivals');
+  const venue = insert('venue', {
+    bandId: rivals.band.id,
+    name: 'Room 1',
+    timezone: 'UTC',
+    isShared: true,
+    openingHours: [],
+  });
+  const booking = insert('rehearsal', {
+    bandId: rivals.band.id,
+    venueId: venue.id,
+    title: 'Rivals rehearsal',
+    location: 'Room 1',
+    status: 'SCHEDULED',
+    startDatetime: at(18),
+    endDatetime: at(20),
+    createdById: rivals.leader.user.id,
+  });
+
+  return { testers, rivals, venue, booking };
+};
+
+const book = (
+  { band, leader }: ReturnType<typeof setUp>['testers'],
+  venueId: string,
+  start: number,
+  end: number,
+  overrideConflicts = false
+) =>
+  request(app)
+    .post('/api/rehearsals')
+    .set('Authorization', leader.authorization)
+    .send({
+      bandId: band.id,
+      title: 'Testers rehearsal',
+      venueId,
+      startDatetime: at(start).toISOString(),
+      endDatetime: at(end).toISOString(),
+      overrideConflicts,
+    });
+
+const rehearsalsOf = (bandId: string) => db.rehearsal.filter((row) => row.bandId === bandId);
+
+describe('POST /api/rehearsals at a venue', () => {
+  it("reports another band's booking as a scheduling conflict without its details", async () => {
+    const { testers, venue } = setUp();
+
+    const res = await book(testers, venue.id, 19, 21);
+
+    expect(res.status).toBe(409);
+    expect(res.body.errors).toEqual([
+      expect.objectContaining({
+        types: ['LOCATION'],
+        rehearsal: { startDatetime: at(18).toISOString(), endDatetime: at(20).toISOString() },
+      }),
+    ]);
+    expect(rehearsalsOf(testers.band.id)).toHaveLength(0);
+  });
+
+  it("refuses a slot overlapping another band's booking even when overriding conflicts", async () => {
+    const { testers, rivals, venue } = setUp();
+
+    const res = await book(testers, venue.id, 19, 21, true);
+
+    expect(res.status).toBe(409);
+    expect(res.body.errors).toEqual([
+      expect.objectContaining({
+        type: 'BOOKED',
+        booking: expect.objectContaining({ bandId: rivals.band.id, bandName: 'The Rivals' }),
+      }),
+    ]);
+    expect(res.body.errors[0].booking).not.toHaveProperty('title');
+    expect(rehearsalsOf(testers.band.id)).toHaveLength(0);
+  });
+
+  it('books the slot right after, and checks inside a serializable transaction', async () => {
+    const { testers, venue } = setUp();
+
+    const res = await book(testers, venue.id, 20, 22);
+
+    expect(res.status).toBe(201);
+    expect(rehearsalsOf(testers.band.id)).toHaveLength(1);
+    expect(transaction).toHaveBeenCalledWith(
+      expect.any(Function),
+      expect.objectContaining({ isolationLevel: 'Serializable' })
+    );
+  });
+
+  it('frees the slot when the other booking is cancelled', async () => {
+    const { testers, venue, booking } = setUp();
+    booking.status = 'CANCELLED';
+
+    const res = await book(testers, venue.id, 18, 20);
+
+    expect(res.status).toBe(201);
+  });
+
+  it('refuses slots in a blocked-out period', async () => {
+    const { testers, venue } = setUp();
+    insert('venueBlock', {
+      venueId: venue.id,
+      reason: 'Maintenance',
+      startDatetime: at(8),
+      endDatetime: at(12),
+    });
+
+    const res = await book(testers, venue.id, 10, 11, true);
+
+    expect(res.status).toBe(409);
+    expect(res.body.errors).toEqual([expect.objectContaining({ type: 'BLOCKED' })]);
+  });
+
+  it('reports a booking that lost a race to a concurrent one as a conflict', async () => {
+    const { testers, venue } = setUp();
+    transaction.mockRejectedValueOnce(
+      new PrismaClientKnownRequestError('could not serialize access', {
+        code: 'P2034',
+        clientVersion: '5.22.0',
+      })
+    );
+
+    const res = await book(testers, venue.id, 20, 22);
+
+    expect(res.status).toBe(409);
+    expect(res.body.message).toMatch(/another request/);
+    expect(rehearsalsOf(testers.band.id)).toHaveLength(0);
+  });
+});